@@ -0,0 +1,596 @@
+// =====================================================
+// POST /api/admin/aptitude/collusion  -> run the analysis
+// GET  /api/admin/aptitude/collusion  -> list flagged pairs
+// =====================================================
+// Admin-only: answer-similarity screening of aptitude_submissions
+// POST compares wrong-answer overlap between pairs of submissions
+// made within windowMinutes of each other or by users of the same
+// institution (lib/answerSimilarity.ts) and upserts flagged pairs
+// into aptitude_collusion_flags. Optional body { since, windowMinutes,
+// alpha }; defaults: last 30 days, 120 minutes, 0.01.
+// GET lists the queue: ?status=pending|confirmed|dismissed (default
+// pending), ?limit= (default 100, at most 500), strongest first.
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_COLLUSION_ALPHA,
+  DEFAULT_WINDOW_MINUTES,
+  detectCollusion
+} from '@/lib/answerSimilarity';
+import type {
+  CollusionReport,
+  SimilaritySubmission,
+  SingleChoiceKey
+} from '@/lib/answerSimilarity';
+import { isAptitudeOption } from '@/lib/aptitudeCat';
+import { cohortKey } from '@/lib/aptitudePercentiles';
+import type { AptitudeAnswer } from '@/lib/aptitudeQuestionTypes';
+import { requireAdmin } from '@/lib/requireAdmin';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const PAGE_SIZE = 1000;
+
+/**
+ * User ids per profiles lookup (kept short: they go in the URL)
+ */
+const PROFILE_CHUNK_SIZE = 200;
+
+/**
+ * Pairs grow with the square of this; older submissions beyond it
+ * are left out of a run (narrow `since` to cover them)
+ */
+const MAX_SUBMISSIONS_PER_RUN = 2000;
+
+const DEFAULT_LOOKBACK_DAYS = 30;
+
+const MAX_WINDOW_MINUTES = 7 * 24 * 60;
+
+const FLAG_STATUSES = ['pending', 'confirmed', 'dismissed'] as const;
+
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 500;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+type FlagStatus = typeof FLAG_STATUSES[number];
+
+interface RunResponse {
+  success: true;
+  since: string;
+  windowMinutes: number;
+  alpha: number;
+  truncated: boolean;
+  submissions: number;
+  pairsCompared: number;
+  threshold: number;
+  flagged: number;
+}
+
+interface CollusionFlag {
+  id: string;
+  submission_a_id: string;
+  submission_b_id: string;
+  user_a_id: string;
+  user_b_id: string;
+  reason: string;
+  both_wrong: number;
+  identical_wrong: number;
+  expected_identical_wrong: number;
+  collusion_index: number | null;
+  p_value: number;
+  status: FlagStatus;
+  notes: string | null;
+  detected_at: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+}
+
+interface ListResponse {
+  success: true;
+  status: FlagStatus;
+  flags: CollusionFlag[];
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+interface RunOptions {
+  since: string;
+  windowMinutes: number;
+  alpha: number;
+}
+
+interface DatabaseSubmission {
+  id: string;
+  user_id: string;
+  created_at: string;
+  answers: Record<string, AptitudeAnswer> | null;
+}
+
+// =====================================================
+// MAIN HANDLERS
+// =====================================================
+
+export async function POST(request: NextRequest) {
+  let adminId: string | undefined;
+
+  try {
+    const supabase = await createSupabase();
+
+    // Step 1: Admin gate
+    const adminResult = await requireAdmin(supabase);
+    if (!adminResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: adminResult.error,
+          code: adminResult.code,
+        },
+        { status: adminResult.status }
+      );
+    }
+
+    adminId = adminResult.userId;
+
+    // Step 2: Options
+    const body = await parseRunBody(request);
+    if (!body.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid request body',
+          code: 'INVALID_BODY',
+          details: body.details,
+        },
+        { status: 400 }
+      );
+    }
+
+    const options = body.options;
+
+    // Step 3: Load the answer key and the submissions to compare
+    // (service role bypasses per-user RLS)
+    const admin = createAdminClient();
+
+    const key = await fetchSingleChoiceKey(admin);
+    if (!key) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch questions',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    const submissionsResult = await fetchSubmissions(admin, options.since);
+    if (!submissionsResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch submissions',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    // Step 4: Compare pairs
+    const report = detectCollusion(submissionsResult.submissions, key, {
+      windowMinutes: options.windowMinutes,
+      alpha: options.alpha,
+    });
+
+    // Step 5: Store flagged pairs (review status and notes are kept)
+    const saveResult = await saveFlags(admin, report);
+    if (!saveResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to save flagged pairs',
+          code: 'DB_UPSERT_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    console.log('[COLLUSION_ANALYSIS_COMPLETED]', {
+      timestamp: new Date().toISOString(),
+      adminId,
+      ...options,
+      submissions: report.submissions,
+      pairsCompared: report.pairsCompared,
+      flagged: report.flagged.length,
+      truncated: submissionsResult.truncated,
+    });
+
+    return NextResponse.json<RunResponse>({
+      success: true,
+      ...options,
+      truncated: submissionsResult.truncated,
+      submissions: report.submissions,
+      pairsCompared: report.pairsCompared,
+      threshold: report.threshold,
+      flagged: report.flagged.length,
+    });
+
+  } catch (error) {
+    console.error('[COLLUSION_ANALYSIS_ERROR]', {
+      timestamp: new Date().toISOString(),
+      adminId: adminId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  let adminId: string | undefined;
+
+  try {
+    const supabase = await createSupabase();
+
+    // Step 1: Admin gate
+    const adminResult = await requireAdmin(supabase);
+    if (!adminResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: adminResult.error,
+          code: adminResult.code,
+        },
+        { status: adminResult.status }
+      );
+    }
+
+    adminId = adminResult.userId;
+
+    // Step 2: Filters
+    const statusParam = request.nextUrl.searchParams.get('status') ?? 'pending';
+    if (!(FLAG_STATUSES as readonly string[]).includes(statusParam)) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid status',
+          code: 'INVALID_STATUS',
+          details: `status must be one of ${FLAG_STATUSES.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const status = statusParam as FlagStatus;
+
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_LIST_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid limit',
+          code: 'INVALID_LIMIT',
+          details: `limit must be an integer from 1 to ${MAX_LIST_LIMIT}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Step 3: Read the queue (service role; no user policies exist)
+    const admin = createAdminClient();
+    const { data, error } = await admin
+      .from('aptitude_collusion_flags')
+      .select('*')
+      .eq('status', status)
+      .order('p_value', { ascending: true })
+      .order('detected_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        adminId,
+        table: 'aptitude_collusion_flags',
+        error: error.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch flagged pairs',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json<ListResponse>(
+      {
+        success: true,
+        status,
+        flags: (data || []) as CollusionFlag[],
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+
+  } catch (error) {
+    console.error('[COLLUSION_LIST_ERROR]', {
+      timestamp: new Date().toISOString(),
+      adminId: adminId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+async function createSupabase() {
+  const cookieStore = await cookies();
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          cookieStore.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          cookieStore.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+}
+
+/**
+ * Parse optional POST body: { since?, windowMinutes?, alpha? }
+ */
+async function parseRunBody(
+  request: NextRequest
+): Promise<
+  | { success: true; options: RunOptions }
+  | { success: false; details: string }
+> {
+  const text = await request.text();
+
+  let body;
+  try {
+    body = text.trim() ? JSON.parse(text) : {};
+  } catch {
+    return { success: false, details: 'Unable to parse request body' };
+  }
+
+  const since = body?.since ?? new Date(Date.now() - DEFAULT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  if (typeof since !== 'string' || Number.isNaN(Date.parse(since))) {
+    return { success: false, details: 'since must be an ISO date' };
+  }
+
+  const windowMinutes = body?.windowMinutes ?? DEFAULT_WINDOW_MINUTES;
+  if (!Number.isInteger(windowMinutes) || windowMinutes < 0 || windowMinutes > MAX_WINDOW_MINUTES) {
+    return { success: false, details: `windowMinutes must be an integer from 0 to ${MAX_WINDOW_MINUTES}` };
+  }
+
+  const alpha = body?.alpha ?? DEFAULT_COLLUSION_ALPHA;
+  if (typeof alpha !== 'number' || !(alpha > 0 && alpha < 1)) {
+    return { success: false, details: 'alpha must be a number between 0 and 1' };
+  }
+
+  return {
+    success: true,
+    options: { since: new Date(since).toISOString(), windowMinutes, alpha },
+  };
+}
+
+/**
+ * Correct option of every single-choice question, or null on error
+ */
+async function fetchSingleChoiceKey(supabase: SupabaseClient): Promise<SingleChoiceKey | null> {
+  const { data, error } = await supabase
+    .from('aptitude_questions')
+    .select('id, correct_answer')
+    .or('question_type.is.null,question_type.eq.single_choice');
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'aptitude_questions',
+      error: error.message,
+    });
+    return null;
+  }
+
+  const key: SingleChoiceKey = new Map();
+  for (const row of data || []) {
+    if (isAptitudeOption(row.correct_answer)) {
+      key.set(row.id, row.correct_answer);
+    }
+  }
+
+  return key;
+}
+
+/**
+ * Page through submissions since the given time (newest first, up to
+ * MAX_SUBMISSIONS_PER_RUN) with each user's institution cohort
+ */
+async function fetchSubmissions(
+  supabase: SupabaseClient,
+  since: string
+): Promise<
+  | { success: true; submissions: SimilaritySubmission[]; truncated: boolean }
+  | { success: false }
+> {
+  const rows: DatabaseSubmission[] = [];
+  let truncated = false;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('aptitude_submissions')
+      .select('id, user_id, created_at, answers')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        table: 'aptitude_submissions',
+        error: error.message,
+      });
+      return { success: false };
+    }
+
+    rows.push(...((data || []) as DatabaseSubmission[]));
+
+    if (rows.length > MAX_SUBMISSIONS_PER_RUN) {
+      rows.length = MAX_SUBMISSIONS_PER_RUN;
+      truncated = true;
+      break;
+    }
+
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  const cohorts = new Map<string, string | null>();
+  const userIds = [...new Set(rows.map(row => row.user_id))];
+
+  for (let from = 0; from < userIds.length; from += PROFILE_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, education_level, institution')
+      .in('id', userIds.slice(from, from + PROFILE_CHUNK_SIZE));
+
+    if (error) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        table: 'profiles',
+        error: error.message,
+      });
+      return { success: false };
+    }
+
+    for (const profile of data || []) {
+      cohorts.set(profile.id, cohortKey('institution', profile));
+    }
+  }
+
+  return {
+    success: true,
+    truncated,
+    submissions: rows.map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      createdAt: new Date(row.created_at).getTime(),
+      cohort: cohorts.get(row.user_id) ?? null,
+      answers: row.answers || {},
+    })),
+  };
+}
+
+/**
+ * Upsert flagged pairs; status, notes and review fields are not
+ * written, so earlier review decisions stand
+ */
+async function saveFlags(
+  supabase: SupabaseClient,
+  report: CollusionReport
+): Promise<{ success: true } | { success: false }> {
+  if (report.flagged.length === 0) {
+    return { success: true };
+  }
+
+  const detectedAt = new Date().toISOString();
+  const rows = report.flagged.map(pair => ({
+    submission_a_id: pair.submissionA,
+    submission_b_id: pair.submissionB,
+    user_a_id: pair.userA,
+    user_b_id: pair.userB,
+    reason: pair.reason,
+    both_wrong: pair.bothWrong,
+    identical_wrong: pair.identicalWrong,
+    expected_identical_wrong: pair.expectedIdenticalWrong,
+    collusion_index: pair.collusionIndex,
+    p_value: pair.pValue,
+    detected_at: detectedAt,
+  }));
+
+  for (let from = 0; from < rows.length; from += PAGE_SIZE) {
+    const { error } = await supabase
+      .from('aptitude_collusion_flags')
+      .upsert(rows.slice(from, from + PAGE_SIZE), { onConflict: 'submission_a_id,submission_b_id' });
+
+    if (error) {
+      console.error('[DB_UPSERT_ERROR]', {
+        timestamp: new Date().toISOString(),
+        table: 'aptitude_collusion_flags',
+        error: error.message,
+      });
+      return { success: false };
+    }
+  }
+
+  return { success: true };
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
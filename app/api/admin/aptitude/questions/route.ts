@@ -0,0 +1,290 @@
+// =====================================================
+// POST /api/admin/aptitude/questions
+// =====================================================
+// Admin-only: import aptitude questions
+// Body: { questions: [...] } with aptitude_questions columns plus
+// optional media (lib/aptitudeMedia.ts) and pool ('official' by
+// default, or 'practice' for lib/aptitudePractice.ts). Questions with
+// an id are updated, others added. All or nothing: every question is
+// validated (lib/aptitudeQuestionImport.ts) and every referenced
+// media file must exist in the aptitude-media bucket before any
+// row is written. Upload media first, then import.
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { APTITUDE_MEDIA_BUCKET, findMissingMedia, mediaPaths } from '@/lib/aptitudeMedia';
+import { validateImportQuestion } from '@/lib/aptitudeQuestionImport';
+import type { ImportedQuestionRow } from '@/lib/aptitudeQuestionImport';
+import { requireAdmin } from '@/lib/requireAdmin';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const MAX_QUESTIONS_PER_IMPORT = 500;
+
+/**
+ * Validation messages returned in details (the rest are counted)
+ */
+const MAX_REPORTED_ERRORS = 20;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface ImportResponse {
+  success: true;
+  imported: number;
+  added: number;
+  updated: number;
+  ids: string[];
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function POST(request: NextRequest) {
+  let adminId: string | undefined;
+
+  try {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // Step 1: Admin gate
+    const adminResult = await requireAdmin(supabase);
+    if (!adminResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: adminResult.error,
+          code: adminResult.code,
+        },
+        { status: adminResult.status }
+      );
+    }
+
+    adminId = adminResult.userId;
+
+    // Step 2: Parse body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid request body',
+          code: 'INVALID_BODY',
+          details: 'Unable to parse request body',
+        },
+        { status: 400 }
+      );
+    }
+
+    const questions: unknown = body?.questions;
+    if (!Array.isArray(questions) || questions.length === 0 || questions.length > MAX_QUESTIONS_PER_IMPORT) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid request body',
+          code: 'INVALID_BODY',
+          details: `questions must be an array of 1 to ${MAX_QUESTIONS_PER_IMPORT} questions`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Step 3: Validate every question (service role: the table holds answer keys)
+    const admin = createAdminClient();
+
+    const { data: categoryRows, error: categoriesError } = await admin
+      .from('aptitude_categories')
+      .select('slug');
+
+    if (categoriesError) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        adminId,
+        table: 'aptitude_categories',
+        error: categoriesError.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch aptitude categories',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    const categories = new Set((categoryRows || []).map(row => row.slug as string));
+    const rows: ImportedQuestionRow[] = [];
+    const errors: string[] = [];
+
+    questions.forEach((question, index) => {
+      const result = validateImportQuestion(question, categories);
+      if (result.success) {
+        rows.push(result.row);
+      } else {
+        errors.push(`questions[${index}]: ${result.error}`);
+      }
+    });
+
+    if (errors.length > 0) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid questions',
+          code: 'INVALID_QUESTIONS',
+          details: reportErrors(errors),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Step 4: Every referenced media file must exist
+    const missing = await findMissingMedia(admin, rows.flatMap(row => mediaPaths(row.media)));
+    if (missing.length > 0) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Media files not found',
+          code: 'MEDIA_NOT_FOUND',
+          details: reportErrors(missing.map(path => `${APTITUDE_MEDIA_BUCKET}/${path}`)),
+        },
+        { status: 422 }
+      );
+    }
+
+    // Step 5: Write (new rows get their id from the column default)
+    const { data: saved, error: upsertError } = await admin
+      .from('aptitude_questions')
+      .upsert(rows, { onConflict: 'id', defaultToNull: false })
+      .select('id');
+
+    if (upsertError) {
+      console.error('[DB_UPSERT_ERROR]', {
+        timestamp: new Date().toISOString(),
+        adminId,
+        table: 'aptitude_questions',
+        error: upsertError.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to save questions',
+          code: 'DB_UPSERT_FAILED',
+          details: upsertError.message,
+        },
+        { status: 500 }
+      );
+    }
+
+    const ids = (saved || []).map(row => row.id as string);
+    const updated = rows.filter(row => row.id !== undefined).length;
+
+    console.log('[APTITUDE_QUESTIONS_IMPORTED]', {
+      timestamp: new Date().toISOString(),
+      adminId,
+      imported: ids.length,
+      updated,
+      withMedia: rows.filter(row => row.media !== null).length,
+    });
+
+    return NextResponse.json<ImportResponse>({
+      success: true,
+      imported: ids.length,
+      added: ids.length - updated,
+      updated,
+      ids,
+    });
+
+  } catch (error) {
+    console.error('[APTITUDE_QUESTIONS_IMPORT_ERROR]', {
+      timestamp: new Date().toISOString(),
+      adminId: adminId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+function reportErrors(errors: string[]): string {
+  const shown = errors.slice(0, MAX_REPORTED_ERRORS).join('; ');
+  const more = errors.length - MAX_REPORTED_ERRORS;
+  return more > 0 ? `${shown}; and ${more} more` : shown;
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function GET() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
@@ -0,0 +1,247 @@
+// =====================================================
+// GET /api/admin/psychometric/items
+// =====================================================
+// Admin-only: reliability and item statistics over the raw
+// answers stored in psych_results for one test form
+// ?formId= selects the form; defaults to the default full form
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UserAnswers } from '@/lib/calculateBigFiveScore';
+import { analyzeItems, MIN_ITEM_ANALYSIS_SAMPLE } from '@/lib/itemStatistics';
+import type { ItemAnalysisReport } from '@/lib/itemStatistics';
+import { fetchTestForm } from '@/lib/psychForms';
+import { fetchPsychQuestions } from '@/lib/psychQuestions';
+import type { FormReference } from '@/lib/psychSubmission';
+import { requireAdmin } from '@/lib/requireAdmin';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const PAGE_SIZE = 1000;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface ItemStatsResponse {
+  success: true;
+  form: FormReference;
+  minSampleSize: number;
+  report: ItemAnalysisReport;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function GET(request: NextRequest) {
+  let adminId: string | undefined;
+
+  try {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // Step 1: Admin gate
+    const adminResult = await requireAdmin(supabase);
+    if (!adminResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: adminResult.error,
+          code: adminResult.code,
+        },
+        { status: adminResult.status }
+      );
+    }
+
+    adminId = adminResult.userId;
+
+    // Step 2: Resolve the form and its scoring metadata (retired forms allowed)
+    const admin = createAdminClient();
+    const formId = request.nextUrl.searchParams.get('formId') ?? undefined;
+
+    const formResult = await fetchTestForm(admin, formId);
+    if (!formResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: formResult.error,
+          code: formResult.code,
+          details: formResult.details,
+        },
+        { status: formResult.status }
+      );
+    }
+
+    const form = formResult.form;
+
+    const questionsResult = await fetchPsychQuestions(admin, form);
+    if (!questionsResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: questionsResult.error,
+          code: questionsResult.code,
+          details: questionsResult.details,
+        },
+        { status: questionsResult.status }
+      );
+    }
+
+    // Step 3: Load raw answers of every result on this form
+    const answersResult = await fetchRawAnswers(admin, form.id);
+    if (!answersResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch results',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    // Step 4: Analyze
+    const report = analyzeItems(answersResult.responses, questionsResult.questions);
+
+    console.log('[ITEM_STATS_COMPUTED]', {
+      timestamp: new Date().toISOString(),
+      adminId,
+      formId: form.id,
+      sampleSize: report.sampleSize,
+      suspectKeying: report.suspectKeying.length,
+    });
+
+    return NextResponse.json<ItemStatsResponse>(
+      {
+        success: true,
+        form: { id: form.id, name: form.name, version: form.version, mode: form.mode },
+        minSampleSize: MIN_ITEM_ANALYSIS_SAMPLE,
+        report,
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+
+  } catch (error) {
+    console.error('[ITEM_STATS_ERROR]', {
+      timestamp: new Date().toISOString(),
+      adminId: adminId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Page through psych_results of one form
+ * Results stored before raw answers were retained are skipped
+ */
+async function fetchRawAnswers(
+  supabase: SupabaseClient,
+  formId: string
+): Promise<{ success: true; responses: UserAnswers[] } | { success: false }> {
+  const responses: UserAnswers[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('psych_results')
+      .select('answers')
+      .eq('form_id', formId)
+      .not('answers', 'is', null)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        table: 'psych_results',
+        formId,
+        error: error.message,
+      });
+      return { success: false };
+    }
+
+    for (const row of data || []) {
+      responses.push(row.answers);
+    }
+
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return { success: true, responses };
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function POST() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
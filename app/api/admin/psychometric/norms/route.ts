@@ -0,0 +1,273 @@
+// =====================================================
+// POST /api/admin/psychometric/norms
+// =====================================================
+// Admin-only: recompute Big Five norm tables from stored
+// full-form psych_results, one table per population plus 'general'.
+// Each user counts once, with their latest full-form result, and
+// results flagged for a retake (careless responding) are left out.
+// =====================================================
+
+import { NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BigFiveScoreResult } from '@/lib/calculateBigFiveScore';
+import {
+  buildNormTable,
+  DEFAULT_NORM_POPULATION,
+  isNormPopulation,
+  MIN_NORM_SAMPLE_SIZE
+} from '@/lib/bigFiveNorms';
+import type { ResponseQualityReport } from '@/lib/responseQuality';
+import { saveNormTable } from '@/lib/psychNorms';
+import { requireAdmin } from '@/lib/requireAdmin';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const PAGE_SIZE = 1000;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface RecomputeResponse {
+  success: true;
+  updated: { population: string; sampleSize: number }[];
+  skipped: { population: string; sampleSize: number }[];
+  minSampleSize: number;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function POST() {
+  let adminId: string | undefined;
+
+  try {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // Step 1: Admin gate
+    const adminResult = await requireAdmin(supabase);
+    if (!adminResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: adminResult.error,
+          code: adminResult.code,
+        },
+        { status: adminResult.status }
+      );
+    }
+
+    adminId = adminResult.userId;
+
+    // Step 2: Load every stored result (service role bypasses per-user RLS)
+    const admin = createAdminClient();
+    const samplesResult = await fetchSamplesByPopulation(admin);
+
+    if (!samplesResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch results',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    // Step 3: Build and store one table per population with enough data
+    const updated: RecomputeResponse['updated'] = [];
+    const skipped: RecomputeResponse['skipped'] = [];
+
+    for (const [population, samples] of samplesResult.samples) {
+      if (samples.length < MIN_NORM_SAMPLE_SIZE) {
+        skipped.push({ population, sampleSize: samples.length });
+        continue;
+      }
+
+      const saveResult = await saveNormTable(
+        admin,
+        buildNormTable(population, samples)
+      );
+
+      if (!saveResult.success) {
+        return NextResponse.json<ErrorResponse>(
+          {
+            success: false,
+            error: 'Failed to save norms',
+            code: 'DB_UPSERT_FAILED',
+            details: `Population ${population}`,
+          },
+          { status: 500 }
+        );
+      }
+
+      updated.push({ population, sampleSize: samples.length });
+    }
+
+    console.log('[NORMS_RECOMPUTED]', {
+      timestamp: new Date().toISOString(),
+      adminId,
+      updated,
+      skipped,
+    });
+
+    return NextResponse.json<RecomputeResponse>({
+      success: true,
+      updated,
+      skipped,
+      minSampleSize: MIN_NORM_SAMPLE_SIZE,
+    });
+
+  } catch (error) {
+    console.error('[NORMS_RECOMPUTE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      adminId: adminId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Page through psych_results (newest first) and group each user's
+ * latest result by population
+ * Every counted result also counts towards the default population;
+ * populations outside NORM_POPULATIONS (older client-chosen keys)
+ * only count there
+ */
+async function fetchSamplesByPopulation(
+  supabase: SupabaseClient
+): Promise<
+  | { success: true; samples: Map<string, BigFiveScoreResult[]> }
+  | { success: false }
+> {
+  const samples = new Map<string, BigFiveScoreResult[]>([
+    [DEFAULT_NORM_POPULATION, []],
+  ]);
+  const seenUsers = new Set<string>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('psych_results')
+      .select('user_id, scores, population, response_quality')
+      // Short-form scores are noisier and would inflate the norm SDs
+      .eq('mode', 'full')
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        table: 'psych_results',
+        error: error.message,
+      });
+      return { success: false };
+    }
+
+    for (const row of data || []) {
+      // Older results of a user never count, even if the latest is excluded
+      if (seenUsers.has(row.user_id)) {
+        continue;
+      }
+      seenUsers.add(row.user_id);
+
+      const quality = row.response_quality as ResponseQualityReport | null;
+      if (quality?.recommendRetake) {
+        continue;
+      }
+
+      samples.get(DEFAULT_NORM_POPULATION)!.push(row.scores);
+
+      if (
+        row.population &&
+        row.population !== DEFAULT_NORM_POPULATION &&
+        isNormPopulation(row.population)
+      ) {
+        const group = samples.get(row.population) || [];
+        group.push(row.scores);
+        samples.set(row.population, group);
+      }
+    }
+
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return { success: true, samples };
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function GET() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
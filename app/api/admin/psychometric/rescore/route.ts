@@ -0,0 +1,348 @@
+// =====================================================
+// POST /api/admin/psychometric/rescore
+// =====================================================
+// Admin-only: replay stored raw answers through the current
+// calculateBigFiveScore and write one psych_result_scores row
+// per result at the current SCORING_VERSION. Original scores on
+// psych_results are never overwritten. Safe to re-run: results
+// already rescored at this version are skipped.
+// =====================================================
+
+import { NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  calculateBigFiveScore,
+  calculateFacetScores,
+  SCORING_VERSION
+} from '@/lib/calculateBigFiveScore';
+import type { PsychQuestion, UserAnswers } from '@/lib/calculateBigFiveScore';
+import { fetchTestForm } from '@/lib/psychForms';
+import { fetchPsychQuestions } from '@/lib/psychQuestions';
+import { requireAdmin } from '@/lib/requireAdmin';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const PAGE_SIZE = 500;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface RescoreResponse {
+  success: true;
+  scoringVersion: number;
+  scanned: number;
+  written: number;
+  alreadyRescored: number;
+  failed: { resultId: string; reason: string }[];
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+interface StoredResult {
+  id: string;
+  user_id: string;
+  form_id: string;
+  answers: UserAnswers;
+}
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function POST() {
+  let adminId: string | undefined;
+
+  try {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // Step 1: Admin gate
+    const adminResult = await requireAdmin(supabase);
+    if (!adminResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: adminResult.error,
+          code: adminResult.code,
+        },
+        { status: adminResult.status }
+      );
+    }
+
+    adminId = adminResult.userId;
+
+    // Step 2: Page through results scored by an older version
+    const admin = createAdminClient();
+    const questionsByForm = new Map<string, PsychQuestion[] | string>();
+    const summary: Omit<RescoreResponse, 'success' | 'scoringVersion'> = {
+      scanned: 0,
+      written: 0,
+      alreadyRescored: 0,
+      failed: [],
+    };
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await admin
+        .from('psych_results')
+        .select('id, user_id, form_id, answers')
+        .lt('scoring_version', SCORING_VERSION)
+        .not('answers', 'is', null)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('[DB_FETCH_ERROR]', {
+          timestamp: new Date().toISOString(),
+          table: 'psych_results',
+          error: error.message,
+        });
+
+        return NextResponse.json<ErrorResponse>(
+          {
+            success: false,
+            error: 'Failed to fetch results',
+            code: 'DB_FETCH_FAILED',
+          },
+          { status: 500 }
+        );
+      }
+
+      const page = (data || []) as StoredResult[];
+      summary.scanned += page.length;
+
+      // Step 3: Rescore this page and write new versioned rows
+      const pageResult = await rescorePage(admin, page, questionsByForm);
+      if (!pageResult.success) {
+        return NextResponse.json<ErrorResponse>(
+          {
+            success: false,
+            error: 'Failed to save rescored results',
+            code: 'DB_INSERT_FAILED',
+          },
+          { status: 500 }
+        );
+      }
+
+      summary.written += pageResult.written;
+      summary.alreadyRescored += pageResult.alreadyRescored;
+      summary.failed.push(...pageResult.failed);
+
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    console.log('[RESULTS_RESCORED]', {
+      timestamp: new Date().toISOString(),
+      adminId,
+      scoringVersion: SCORING_VERSION,
+      scanned: summary.scanned,
+      written: summary.written,
+      alreadyRescored: summary.alreadyRescored,
+      failed: summary.failed.length,
+    });
+
+    return NextResponse.json<RescoreResponse>({
+      success: true,
+      scoringVersion: SCORING_VERSION,
+      ...summary,
+    });
+
+  } catch (error) {
+    console.error('[RESCORE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      adminId: adminId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Rescore one page of results
+ * Results already rescored at SCORING_VERSION are left untouched
+ */
+async function rescorePage(
+  supabase: SupabaseClient,
+  page: StoredResult[],
+  questionsByForm: Map<string, PsychQuestion[] | string>
+): Promise<
+  | {
+      success: true;
+      written: number;
+      alreadyRescored: number;
+      failed: { resultId: string; reason: string }[];
+    }
+  | { success: false }
+> {
+  if (page.length === 0) {
+    return { success: true, written: 0, alreadyRescored: 0, failed: [] };
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('psych_result_scores')
+    .select('result_id')
+    .eq('scoring_version', SCORING_VERSION)
+    .in('result_id', page.map(result => result.id));
+
+  if (existingError) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'psych_result_scores',
+      error: existingError.message,
+    });
+    return { success: false };
+  }
+
+  const done = new Set((existing || []).map(row => row.result_id));
+  const failed: { resultId: string; reason: string }[] = [];
+  const rows = [];
+
+  for (const result of page) {
+    if (done.has(result.id)) {
+      continue;
+    }
+
+    const questions = await loadFormQuestions(supabase, result.form_id, questionsByForm);
+    if (typeof questions === 'string') {
+      failed.push({ resultId: result.id, reason: questions });
+      continue;
+    }
+
+    try {
+      rows.push({
+        result_id: result.id,
+        user_id: result.user_id,
+        scoring_version: SCORING_VERSION,
+        scores: calculateBigFiveScore(result.answers, questions),
+        facet_scores: calculateFacetScores(result.answers, questions),
+      });
+    } catch (error) {
+      failed.push({
+        resultId: result.id,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (rows.length > 0) {
+    const { error: insertError } = await supabase
+      .from('psych_result_scores')
+      .upsert(rows, { onConflict: 'result_id,scoring_version', ignoreDuplicates: true });
+
+    if (insertError) {
+      console.error('[DB_INSERT_ERROR]', {
+        timestamp: new Date().toISOString(),
+        table: 'psych_result_scores',
+        error: insertError.message,
+      });
+      return { success: false };
+    }
+  }
+
+  return { success: true, written: rows.length, alreadyRescored: done.size, failed };
+}
+
+/**
+ * Questions (trait / polarity) of a form, cached per run
+ * Loads the form version's own item ids, soft-deleted ones included,
+ * so older results are rescored on the items they answered.
+ * Returns the failure reason instead when the form cannot be loaded
+ */
+async function loadFormQuestions(
+  supabase: SupabaseClient,
+  formId: string,
+  cache: Map<string, PsychQuestion[] | string>
+): Promise<PsychQuestion[] | string> {
+  const cached = cache.get(formId);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const formResult = await fetchTestForm(supabase, formId);
+  let questions: PsychQuestion[] | string;
+
+  if (!formResult.success) {
+    questions = `${formResult.code}: ${formResult.error}`;
+  } else {
+    const questionsResult = await fetchPsychQuestions(supabase, formResult.form, { includeDeleted: true });
+    questions = questionsResult.success
+      ? questionsResult.questions
+      : `${questionsResult.code}: ${questionsResult.error}`;
+  }
+
+  cache.set(formId, questions);
+  return questions;
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function GET() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
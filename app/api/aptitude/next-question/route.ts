@@ -0,0 +1,845 @@
+// =====================================================
+// POST /api/aptitude/next-question
+// =====================================================
+// Engine 2: Computerized adaptive aptitude test (2PL IRT)
+// {}                                  -> start a session, first item
+// { sessionId }                       -> resume: current item again
+// { sessionId, questionId, answer }   -> score answer, next item
+// Items are chosen by maximum information at the current ability
+// estimate; each category stops on precision or item count. When
+// all categories are done, or the time limit is reached, the final
+// theta per category is saved to aptitude_submissions. Answers that
+// arrive after the deadline are not scored. Each served item gets a
+// fresh option order (lib/aptitudeOptionOrder.ts); answers are the
+// displayed letters and are mapped back before scoring. Figures come
+// as signed URLs (lib/aptitudeMedia.ts). Integrity events reported
+// for the session are summarized onto the submission.
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { deadlineFrom, isPastDeadline } from '@/lib/aptitudeTiming';
+import { displayOptions, shuffledOptionOrder, toCanonicalAnswer } from '@/lib/aptitudeOptionOrder';
+import { mediaPaths, signMediaUrls, toDeliveredMedia } from '@/lib/aptitudeMedia';
+import type { OptionOrder } from '@/lib/aptitudeOptionOrder';
+import { sumBreakdown } from '@/lib/aptitudeCategories';
+import type { CategoryBreakdown } from '@/lib/aptitudeCategories';
+import {
+  CAT_SESSION_COLUMNS,
+  catSessionExpiryFromNow,
+  estimateCategories,
+  expectedBreakdown,
+  fetchCatItemBank,
+  fetchOwnedCatSession,
+  findBankItem,
+  isAptitudeOption,
+  maxBreakdown,
+  requireOpenCatSession,
+  selectNextItem,
+  toAbilityProfile,
+  toCatProgress,
+  toCatQuestion
+} from '@/lib/aptitudeCat';
+import type {
+  AbilityProfile,
+  AptitudeOption,
+  CatBankItem,
+  CatEstimates,
+  CatItemBank,
+  CatProgress,
+  CatQuestion,
+  CatResponse,
+  CatSession,
+  CatSessionStatus
+} from '@/lib/aptitudeCat';
+import { fetchIntegritySummary } from '@/lib/testIntegrity';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface NextQuestionRequestBody {
+  sessionId?: string;
+  questionId?: string;
+  answer?: AptitudeOption;
+}
+
+/**
+ * question: null once the test is complete; result is then set
+ */
+interface NextQuestionResponse {
+  success: true;
+  session: CatProgress;
+  question: CatQuestion | null;
+  result?: CatResult;
+}
+
+interface CatResult {
+  submissionId: string;
+  abilities: AbilityProfile;
+  scoreTotal: number;
+  breakdown: CategoryBreakdown;
+  maxBreakdown: CategoryBreakdown;
+  percentage: number;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+type StepResult =
+  | { success: true; response: NextQuestionResponse; status?: number }
+  | { success: false; error: string; code: string; details?: string; status: number };
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function POST(request: NextRequest) {
+  let userId: string | undefined;
+
+  try {
+    // Server receipt time, taken before any other work
+    const receivedAt = Date.now();
+
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // 1. PARSE AND VALIDATE REQUEST BODY
+    const body = await parseRequestBody(request);
+    if (!body.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: body.error,
+          code: body.code,
+          details: body.details,
+        },
+        { status: 400 }
+      );
+    }
+
+    // 2. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Authentication required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+
+    // Session rows are server-written only (responses and timestamps
+    // must be trusted), and the answer key is service-role only
+    const admin = createAdminClient();
+
+    // 3. LOAD THE CALIBRATED ITEM BANK
+    const bankResult = await fetchCatItemBank(admin);
+    if (!bankResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: bankResult.error,
+          code: bankResult.code,
+          details: bankResult.details,
+        },
+        { status: bankResult.status }
+      );
+    }
+
+    const bank = bankResult.bank;
+    const { sessionId, questionId, answer } = body.data;
+
+    // 4. START, RESUME OR ANSWER
+    let step: StepResult;
+
+    if (!sessionId) {
+      step = await startSession(admin, userId, bank);
+    } else {
+      const lookup = await fetchOwnedCatSession(admin, sessionId, userId);
+      if (!lookup.success) {
+        return NextResponse.json<ErrorResponse>(
+          { success: false, error: lookup.error, code: lookup.code },
+          { status: lookup.status }
+        );
+      }
+
+      step = questionId && answer
+        ? await answerQuestion(admin, userId, lookup.session, bank, { questionId, answer, receivedAt })
+        : await resumeSession(admin, userId, lookup.session, bank);
+    }
+
+    if (!step.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: step.error,
+          code: step.code,
+          details: step.details,
+        },
+        { status: step.status }
+      );
+    }
+
+    return NextResponse.json<NextQuestionResponse>(step.response, {
+      status: step.status ?? 200,
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    console.error('[APTITUDE_CAT_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// STEPS
+// =====================================================
+
+async function startSession(
+  admin: SupabaseClient,
+  userId: string,
+  bank: CatItemBank
+): Promise<StepResult> {
+  const estimates = estimateCategories([], bank);
+  const first = selectNextItem([], estimates, bank);
+
+  if (!first) {
+    return {
+      success: false,
+      error: 'Question database integrity error',
+      code: 'CAT_BANK_INCOMPLETE',
+      status: 503,
+    };
+  }
+
+  const startedAt = new Date();
+  const optionOrder = optionOrderFor(first);
+
+  const { data: session, error } = await admin
+    .from('aptitude_cat_sessions')
+    .insert({
+      user_id: userId,
+      current_question_id: first.id,
+      current_served_at: startedAt.toISOString(),
+      current_option_order: optionOrder,
+      responses: [],
+      estimates,
+      started_at: startedAt.toISOString(),
+      deadline_at: deadlineFrom(startedAt).toISOString(),
+      expires_at: catSessionExpiryFromNow(),
+    })
+    .select(CAT_SESSION_COLUMNS)
+    .single();
+
+  if (error || !session) {
+    console.error('[DB_INSERT_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId,
+      table: 'aptitude_cat_sessions',
+      error: error?.message,
+    });
+
+    return {
+      success: false,
+      error: 'Failed to start test session',
+      code: 'DB_INSERT_FAILED',
+      status: 500,
+    };
+  }
+
+  console.log('[CAT_SESSION_STARTED]', {
+    timestamp: new Date().toISOString(),
+    userId,
+    sessionId: session.id,
+  });
+
+  return {
+    success: true,
+    status: 201,
+    response: {
+      success: true,
+      session: toCatProgress(session as CatSession),
+      question: await deliverQuestion(admin, first, optionOrder),
+    },
+  };
+}
+
+/**
+ * Return the pending item again; a session past its deadline, or
+ * whose items are all answered but whose result was not saved, is
+ * finalized here
+ */
+async function resumeSession(
+  admin: SupabaseClient,
+  userId: string,
+  session: CatSession,
+  bank: CatItemBank
+): Promise<StepResult> {
+  if (session.status === 'finalized') {
+    return {
+      success: true,
+      response: {
+        success: true,
+        session: toCatProgress(session),
+        question: null,
+        result: session.submission_id
+          ? buildResult(session.submission_id, session.estimates, bank)
+          : undefined,
+      },
+    };
+  }
+
+  const openCheck = requireOpenCatSession(session);
+  if (!openCheck.success) {
+    return openCheck;
+  }
+
+  if (isPastDeadline(session.deadline_at)) {
+    return finalizeSession(admin, userId, session, bank);
+  }
+
+  const pending = session.current_question_id
+    ? findBankItem(bank, session.current_question_id)
+    : null;
+
+  if (pending) {
+    return {
+      success: true,
+      response: {
+        success: true,
+        session: toCatProgress(session),
+        question: await deliverQuestion(admin, pending, session.current_option_order),
+      },
+    };
+  }
+
+  // Pending item left the bank (or none is pending): re-select
+  const estimates = estimateCategories(session.responses, bank);
+  const next = selectNextItem(session.responses, estimates, bank);
+
+  const saved = await saveProgress(admin, session, session.responses, estimates, next);
+  if (!saved.success) {
+    return saved;
+  }
+
+  if (next) {
+    return {
+      success: true,
+      response: {
+        success: true,
+        session: toCatProgress(saved.session),
+        question: await deliverQuestion(admin, next, saved.session.current_option_order),
+      },
+    };
+  }
+
+  return finalizeSession(admin, userId, saved.session, bank);
+}
+
+async function answerQuestion(
+  admin: SupabaseClient,
+  userId: string,
+  session: CatSession,
+  bank: CatItemBank,
+  submitted: { questionId: string; answer: AptitudeOption; receivedAt: number }
+): Promise<StepResult> {
+  const { questionId, answer, receivedAt } = submitted;
+
+  const openCheck = requireOpenCatSession(session);
+  if (!openCheck.success) {
+    return openCheck;
+  }
+
+  // Time is up: this answer is not scored; finish on what was answered
+  if (isPastDeadline(session.deadline_at, receivedAt)) {
+    return finalizeSession(admin, userId, session, bank);
+  }
+
+  // Only the item that was served may be answered, once
+  if (!session.current_question_id || session.current_question_id !== questionId) {
+    return {
+      success: false,
+      error: 'Answer does not match the current question',
+      code: 'QUESTION_MISMATCH',
+      details: 'Resume the session to get the current question',
+      status: 409,
+    };
+  }
+
+  const item = findBankItem(bank, questionId);
+  if (!item) {
+    return {
+      success: false,
+      error: 'Question is no longer available',
+      code: 'QUESTION_UNAVAILABLE',
+      details: 'Resume the session to get a replacement question',
+      status: 409,
+    };
+  }
+
+  const canonical = toCanonicalAnswer(answer, session.current_option_order) as AptitudeOption;
+
+  // The letter must name an option this item actually shows
+  if (!item.options[canonical]) {
+    return {
+      success: false,
+      error: 'Invalid answer value',
+      code: 'INVALID_ANSWER_VALUE',
+      details: `Answer for question ${questionId} is not one of its options`,
+      status: 400,
+    };
+  }
+
+  const response: CatResponse = {
+    questionId,
+    category: item.category,
+    answer: canonical,
+    displayedAnswer: answer,
+    correct: canonical === item.correctAnswer,
+    answeredAt: new Date(receivedAt).toISOString(),
+    responseTimeMs: Math.max(
+      0,
+      receivedAt - new Date(session.current_served_at ?? session.started_at).getTime()
+    ),
+  };
+
+  const responses = [...(session.responses || []), response];
+  const estimates = estimateCategories(responses, bank);
+  const next = selectNextItem(responses, estimates, bank);
+
+  const saved = await saveProgress(admin, session, responses, estimates, next);
+  if (!saved.success) {
+    return saved;
+  }
+
+  if (next) {
+    return {
+      success: true,
+      response: {
+        success: true,
+        session: toCatProgress(saved.session),
+        question: await deliverQuestion(admin, next, saved.session.current_option_order),
+      },
+    };
+  }
+
+  return finalizeSession(admin, userId, saved.session, bank);
+}
+
+/**
+ * Persist the final abilities as an aptitude_submissions row and
+ * link it to the session
+ */
+async function finalizeSession(
+  admin: SupabaseClient,
+  userId: string,
+  session: CatSession,
+  bank: CatItemBank
+): Promise<StepResult> {
+  // Claim the session (prevents double submissions)
+  const claimed = await setSessionStatus(admin, session.id, 'in_progress', 'finalizing');
+  if (!claimed) {
+    return {
+      success: false,
+      error: 'Session is being finalized',
+      code: 'SESSION_FINALIZING',
+      status: 409,
+    };
+  }
+
+  const estimates = estimateCategories(session.responses, bank);
+  const timedOut = isPastDeadline(session.deadline_at);
+  const breakdown = expectedBreakdown(estimates, bank);
+  const scoreTotal = sumBreakdown(breakdown);
+
+  const answers: Record<string, AptitudeOption> = {};
+  const displayedAnswers: Record<string, AptitudeOption> = {};
+  const responseTimes: Record<string, number> = {};
+  for (const response of session.responses) {
+    answers[response.questionId] = response.answer;
+    displayedAnswers[response.questionId] = response.displayedAnswer ?? response.answer;
+    responseTimes[response.questionId] = response.responseTimeMs;
+  }
+
+  const integrity = await fetchIntegritySummary(admin, 'aptitude_adaptive', session.id);
+
+  const { data: submission, error: insertError } = await admin
+    .from('aptitude_submissions')
+    .insert({
+      user_id: userId,
+      score_total: scoreTotal,
+      breakdown,
+      max_breakdown: maxBreakdown(bank),
+      answers,
+      displayed_answers: displayedAnswers,
+      mode: 'adaptive',
+      theta: toAbilityProfile(estimates),
+      response_times: responseTimes,
+      timed_out: timedOut,
+      integrity_score: integrity?.score ?? null,
+      integrity_summary: integrity,
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !submission) {
+    console.error('[DB_INSERT_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId,
+      table: 'aptitude_submissions',
+      sessionId: session.id,
+      error: insertError?.message,
+    });
+
+    // Release the claim so resuming the session retries
+    await setSessionStatus(admin, session.id, 'finalizing', 'in_progress');
+
+    return {
+      success: false,
+      error: 'Failed to save results',
+      code: 'DB_INSERT_FAILED',
+      status: 500,
+    };
+  }
+
+  const finalizedAt = new Date().toISOString();
+  const { error: linkError } = await admin
+    .from('aptitude_cat_sessions')
+    .update({
+      status: 'finalized',
+      current_question_id: null,
+      current_option_order: null,
+      estimates,
+      submission_id: submission.id,
+      finalized_at: finalizedAt,
+      updated_at: finalizedAt,
+    })
+    .eq('id', session.id);
+
+  if (linkError) {
+    // Submission is already stored; log and still return the result
+    console.error('[DB_UPDATE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId,
+      table: 'aptitude_cat_sessions',
+      sessionId: session.id,
+      submissionId: submission.id,
+      error: linkError.message,
+    });
+  }
+
+  console.log('[CAT_SESSION_FINALIZED]', {
+    timestamp: new Date().toISOString(),
+    userId,
+    sessionId: session.id,
+    submissionId: submission.id,
+    itemsAnswered: session.responses.length,
+    timedOut,
+  });
+
+  return {
+    success: true,
+    response: {
+      success: true,
+      session: toCatProgress({
+        ...session,
+        estimates,
+        status: 'finalized',
+        submission_id: submission.id,
+        finalized_at: finalizedAt,
+      }),
+      question: null,
+      result: buildResult(submission.id, estimates, bank),
+    },
+  };
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Parse body; an empty body starts a new session
+ */
+async function parseRequestBody(request: NextRequest): Promise<
+  | { success: true; data: NextQuestionRequestBody }
+  | { success: false; error: string; code: string; details?: string }
+> {
+  let body: Record<string, unknown>;
+
+  try {
+    const text = await request.text();
+    body = text.trim() ? JSON.parse(text) : {};
+  } catch {
+    return {
+      success: false,
+      error: 'Invalid JSON payload',
+      code: 'INVALID_JSON',
+      details: 'Unable to parse request body',
+    };
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return {
+      success: false,
+      error: 'Invalid request body',
+      code: 'INVALID_BODY',
+    };
+  }
+
+  const { sessionId, questionId, answer } = body;
+
+  if (sessionId !== undefined && typeof sessionId !== 'string') {
+    return {
+      success: false,
+      error: 'Invalid request body',
+      code: 'INVALID_BODY',
+      details: 'sessionId must be a string',
+    };
+  }
+
+  const answering = questionId !== undefined || answer !== undefined;
+
+  if (answering) {
+    if (!sessionId) {
+      return {
+        success: false,
+        error: 'Invalid request body',
+        code: 'INVALID_BODY',
+        details: 'sessionId is required when answering',
+      };
+    }
+
+    if (typeof questionId !== 'string' || !isAptitudeOption(answer)) {
+      return {
+        success: false,
+        error: 'Invalid answer value',
+        code: 'INVALID_ANSWER_VALUE',
+        details: 'questionId is required and answer must be A, B, C, or D',
+      };
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      sessionId: sessionId || undefined,
+      questionId: answering ? (questionId as string) : undefined,
+      answer: answering ? (answer as AptitudeOption) : undefined,
+    },
+  };
+}
+
+/**
+ * Client view of an item with options (and option media) in the
+ * session's display order and media URLs signed
+ */
+async function deliverQuestion(
+  admin: SupabaseClient,
+  item: CatBankItem,
+  order: OptionOrder | null
+): Promise<CatQuestion> {
+  const urls = await signMediaUrls(admin, mediaPaths(item.media));
+
+  return {
+    ...toCatQuestion(item, toDeliveredMedia(item.media, urls, order)),
+    options: displayOptions(item.options, order),
+  };
+}
+
+/**
+ * Shuffled display order over the options the item actually has
+ */
+function optionOrderFor(item: CatBankItem): OptionOrder {
+  return shuffledOptionOrder(Object.keys(item.options) as AptitudeOption[]);
+}
+
+/**
+ * Save responses and the next item (optimistic lock on updated_at);
+ * a newly served item gets a fresh option order
+ */
+async function saveProgress(
+  admin: SupabaseClient,
+  session: CatSession,
+  responses: CatResponse[],
+  estimates: CatEstimates,
+  next: CatBankItem | null
+): Promise<
+  | { success: true; session: CatSession }
+  | { success: false; error: string; code: string; details?: string; status: number }
+> {
+  const now = new Date().toISOString();
+  const currentQuestionId = next?.id ?? null;
+  const served = next !== null && next.id !== session.current_question_id;
+
+  const { data, error } = await admin
+    .from('aptitude_cat_sessions')
+    .update({
+      responses,
+      estimates,
+      current_question_id: currentQuestionId,
+      current_served_at: served ? now : session.current_served_at,
+      current_option_order: served
+        ? optionOrderFor(next)
+        : currentQuestionId === null ? null : session.current_option_order,
+      updated_at: now,
+    })
+    .eq('id', session.id)
+    .eq('status', 'in_progress')
+    .eq('updated_at', session.updated_at)
+    .select(CAT_SESSION_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[DB_UPDATE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'aptitude_cat_sessions',
+      sessionId: session.id,
+      error: error.message,
+    });
+
+    return {
+      success: false,
+      error: 'Failed to save answer',
+      code: 'DB_UPDATE_FAILED',
+      status: 500,
+    };
+  }
+
+  if (!data) {
+    return {
+      success: false,
+      error: 'Session was modified concurrently',
+      code: 'SESSION_CONFLICT',
+      details: 'Resume the session and retry',
+      status: 409,
+    };
+  }
+
+  return { success: true, session: data as CatSession };
+}
+
+/**
+ * Conditional status transition; true if this call made the change
+ */
+async function setSessionStatus(
+  admin: SupabaseClient,
+  sessionId: string,
+  from: CatSessionStatus,
+  to: CatSessionStatus
+): Promise<boolean> {
+  const { data, error } = await admin
+    .from('aptitude_cat_sessions')
+    .update({ status: to, updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('status', from)
+    .select('id');
+
+  if (error) {
+    console.error('[DB_UPDATE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'aptitude_cat_sessions',
+      sessionId,
+      error: error.message,
+    });
+    return false;
+  }
+
+  return (data || []).length > 0;
+}
+
+function buildResult(
+  submissionId: string,
+  estimates: CatEstimates,
+  bank: CatItemBank
+): CatResult {
+  const breakdown = expectedBreakdown(estimates, bank);
+  const scoreTotal = sumBreakdown(breakdown);
+  const max = maxBreakdown(bank);
+  const maxScore = sumBreakdown(max);
+
+  return {
+    submissionId,
+    abilities: toAbilityProfile(estimates),
+    scoreTotal,
+    breakdown,
+    maxBreakdown: max,
+    percentage: Math.round((scoreTotal / maxScore) * 100),
+  };
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function GET() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
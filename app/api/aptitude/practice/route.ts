@@ -0,0 +1,467 @@
+// =====================================================
+// /api/aptitude/practice
+// =====================================================
+// Engine 2: Aptitude Practice Mode (lib/aptitudePractice.ts)
+// GET  ?category=&count= : a random set of practice-pool questions
+//      (all active categories when category is omitted)
+// POST { questionId, answer, timeTakenMs? } : grade one answer and
+//      return feedback at once (answer key, credit, explanation)
+// Practice questions are never part of a timed or adaptive test,
+// and attempts go to aptitude_practice_attempts, not
+// aptitude_submissions, so official results are never affected.
+// Options are shown in canonical order; answers use those letters.
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { fetchAptitudeCategories } from '@/lib/aptitudeCategories';
+import { answerKeyFor, questionOptions, validateAnswer } from '@/lib/aptitudeQuestionTypes';
+import type { AptitudeAnswer } from '@/lib/aptitudeQuestionTypes';
+import { buildReviewItems } from '@/lib/aptitudeReview';
+import type { ReviewItem, ReviewQuestion } from '@/lib/aptitudeReview';
+import { mediaPaths, signMediaUrls } from '@/lib/aptitudeMedia';
+import {
+  drawPracticeSet,
+  PRACTICE_POOL,
+  PRACTICE_SET_DEFAULT_SIZE,
+  PRACTICE_SET_MAX_SIZE,
+  recordPracticeAttempt,
+  toPracticeQuestion
+} from '@/lib/aptitudePractice';
+import type { PracticeBankQuestion, PracticeQuestion } from '@/lib/aptitudePractice';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Longest time on one question that is stored as is
+ */
+const MAX_TIME_TAKEN_MS = 60 * 60 * 1000;
+
+const PRACTICE_QUESTION_COLUMNS =
+  'id, category, question_type, question_text, option_a, option_b, option_c, option_d, media';
+
+const FEEDBACK_QUESTION_COLUMNS =
+  'id, category, question_type, question_text, option_a, option_b, option_c, option_d, correct_answer, answer_spec, explanation, media';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface PracticeSetResponse {
+  success: true;
+  total: number;
+  questions: PracticeQuestion[];
+}
+
+interface FeedbackResponse {
+  success: true;
+  attemptId: string;
+  feedback: ReviewItem;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+interface PracticeAnswerRequest {
+  questionId: string;
+  answer: AptitudeAnswer;
+  timeTakenMs: number | null;
+}
+
+// =====================================================
+// GET: PRACTICE SET
+// =====================================================
+
+export async function GET(request: NextRequest) {
+  let userId: string | undefined;
+
+  try {
+    const supabase = await createSupabase();
+
+    // 1. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+
+    // 2. VALIDATE QUERY
+    const countParam = request.nextUrl.searchParams.get('count');
+    const count = countParam === null ? PRACTICE_SET_DEFAULT_SIZE : Number(countParam);
+
+    if (!Number.isInteger(count) || count < 1 || count > PRACTICE_SET_MAX_SIZE) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid count',
+          code: 'INVALID_QUERY',
+          details: `count must be an integer from 1 to ${PRACTICE_SET_MAX_SIZE}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const admin = createAdminClient();
+
+    const categoriesResult = await fetchAptitudeCategories(admin);
+    if (!categoriesResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: categoriesResult.error,
+          code: categoriesResult.code,
+          details: categoriesResult.details,
+        },
+        { status: categoriesResult.status }
+      );
+    }
+
+    const activeSlugs = categoriesResult.categories.map(category => category.slug);
+    const category = request.nextUrl.searchParams.get('category');
+
+    if (category !== null && !activeSlugs.includes(category)) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid category',
+          code: 'INVALID_CATEGORY',
+          details: `category must be one of ${activeSlugs.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // 3. FETCH THE PRACTICE POOL WITH THE SERVICE ROLE (DELIVERY COLUMNS ONLY)
+    const { data, error } = await admin
+      .from('aptitude_questions')
+      .select(PRACTICE_QUESTION_COLUMNS)
+      .eq('pool', PRACTICE_POOL)
+      .in('category', category !== null ? [category] : activeSlugs);
+
+    if (error) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'aptitude_questions',
+        error: error.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch questions',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    const drawn = drawPracticeSet((data || []) as PracticeBankQuestion[], count);
+    const urls = await signMediaUrls(admin, drawn.flatMap(question => mediaPaths(question.media)));
+    const questions = drawn.map(question => toPracticeQuestion(question, urls));
+
+    return NextResponse.json<PracticeSetResponse>(
+      {
+        success: true,
+        total: questions.length,
+        questions,
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+
+  } catch (error) {
+    console.error('[APTITUDE_PRACTICE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// POST: GRADE ONE ANSWER
+// =====================================================
+
+export async function POST(request: NextRequest) {
+  let userId: string | undefined;
+
+  try {
+    const supabase = await createSupabase();
+
+    // 1. PARSE AND VALIDATE REQUEST BODY
+    const body = await parseAnswerBody(request);
+    if (!body.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: body.error,
+          code: body.code,
+          details: body.details,
+        },
+        { status: 400 }
+      );
+    }
+
+    // 2. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+
+    // 3. FETCH THE QUESTION (PRACTICE POOL ONLY) WITH ITS ANSWER KEY
+    const admin = createAdminClient();
+    const { questionId, answer, timeTakenMs } = body.data;
+
+    const { data: question, error: questionError } = await admin
+      .from('aptitude_questions')
+      .select(FEEDBACK_QUESTION_COLUMNS)
+      .eq('id', questionId)
+      .eq('pool', PRACTICE_POOL)
+      .maybeSingle();
+
+    if (questionError) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'aptitude_questions',
+        error: questionError.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch question',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!question) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Practice question not found',
+          code: 'QUESTION_NOT_FOUND',
+        },
+        { status: 404 }
+      );
+    }
+
+    // 4. VALIDATE THE ANSWER SHAPE FOR THE QUESTION TYPE
+    const key = answerKeyFor(question);
+    const problem = key
+      ? validateAnswer(key, answer, questionOptions(key.type, question))
+      : 'cannot be accepted: question is misconfigured';
+
+    if (problem) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid answer value',
+          code: 'INVALID_ANSWER_VALUE',
+          details: `Answer for question ${questionId} ${problem}`,
+        },
+        { status: key ? 400 : 503 }
+      );
+    }
+
+    // 5. GRADE AND STORE THE ATTEMPT
+    const reviewQuestion = question as ReviewQuestion;
+    const urls = await signMediaUrls(admin, mediaPaths(reviewQuestion.media));
+    const [feedback] = buildReviewItems({ [questionId]: answer }, [reviewQuestion], urls);
+
+    const saved = await recordPracticeAttempt(admin, userId, answer, feedback, timeTakenMs);
+    if (!saved.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: saved.error,
+          code: saved.code,
+        },
+        { status: saved.status }
+      );
+    }
+
+    return NextResponse.json<FeedbackResponse>(
+      {
+        success: true,
+        attemptId: saved.attemptId,
+        feedback,
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+
+  } catch (error) {
+    console.error('[APTITUDE_PRACTICE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+async function createSupabase() {
+  const cookieStore = await cookies();
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          cookieStore.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          cookieStore.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+}
+
+/**
+ * Parse POST body: { questionId, answer, timeTakenMs? }
+ * The answer's shape is checked against the question's type once
+ * the question is loaded
+ */
+async function parseAnswerBody(
+  request: NextRequest
+): Promise<
+  | { success: true; data: PracticeAnswerRequest }
+  | { success: false; error: string; code: string; details?: string }
+> {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      success: false,
+      error: 'Invalid request body',
+      code: 'INVALID_BODY',
+      details: 'Unable to parse request body',
+    };
+  }
+
+  if (typeof body?.questionId !== 'string' || !UUID_PATTERN.test(body.questionId)) {
+    return {
+      success: false,
+      error: 'Invalid request body',
+      code: 'INVALID_BODY',
+      details: '"questionId" must be a question UUID',
+    };
+  }
+
+  if (body.answer === undefined || body.answer === null) {
+    return {
+      success: false,
+      error: 'Invalid request body',
+      code: 'INVALID_BODY',
+      details: 'Missing "answer"',
+    };
+  }
+
+  const timeTakenMs = body.timeTakenMs ?? null;
+  if (timeTakenMs !== null &&
+      (!Number.isInteger(timeTakenMs) || timeTakenMs < 0)) {
+    return {
+      success: false,
+      error: 'Invalid request body',
+      code: 'INVALID_BODY',
+      details: '"timeTakenMs" must be a non-negative integer',
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      questionId: body.questionId,
+      answer: body.answer as AptitudeAnswer,
+      timeTakenMs: timeTakenMs === null ? null : Math.min(timeTakenMs, MAX_TIME_TAKEN_MS),
+    },
+  };
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
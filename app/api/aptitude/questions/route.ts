@@ -0,0 +1,244 @@
+// =====================================================
+// GET /api/aptitude/questions?sessionId=
+// =====================================================
+// Engine 2: Aptitude Question Delivery Endpoint (fixed form)
+// aptitude_questions is not readable by clients (the row holds
+// the answer key); this reads it with the service-role client and
+// returns only the question text, its type and the options shown
+// for that type (none for numeric and short-text questions).
+// Returns the questions sampled for the timed session, in session
+// order, with options relabelled by the session's own option order
+// (lib/aptitudeOptionOrder.ts), so a session is required. Figures
+// come as time-limited signed URLs with alt text (lib/aptitudeMedia.ts).
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { AptitudeOption } from '@/lib/aptitudeCat';
+import { questionOptions } from '@/lib/aptitudeQuestionTypes';
+import type { OptionColumns, QuestionType } from '@/lib/aptitudeQuestionTypes';
+import { displayOptions } from '@/lib/aptitudeOptionOrder';
+import type { OptionOrder } from '@/lib/aptitudeOptionOrder';
+import { fetchOwnedAptitudeSession } from '@/lib/aptitudeSessions';
+import { mediaPaths, signMediaUrls, toDeliveredMedia } from '@/lib/aptitudeMedia';
+import type { DeliveredQuestionMedia, QuestionMedia, SignedMediaUrls } from '@/lib/aptitudeMedia';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface DeliveredQuestion {
+  id: string;
+  question_type: QuestionType;
+  question_text: string;
+  options: Partial<Record<AptitudeOption, string>>;
+  media: DeliveredQuestionMedia | null;
+}
+
+interface QuestionsResponse {
+  success: true;
+  total: number;
+  questions: DeliveredQuestion[];
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+interface DatabaseAptitudeQuestion extends OptionColumns {
+  id: string;
+  question_type: QuestionType | null;
+  question_text: string;
+  media: QuestionMedia | null;
+}
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function GET(request: NextRequest) {
+  let userId: string | undefined;
+
+  try {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // 1. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+
+    // 2. LOAD THE SESSION (its option order relabels the options)
+    const sessionId = request.nextUrl.searchParams.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Missing sessionId',
+          code: 'INVALID_QUERY',
+          details: 'Start a timed session first (POST /api/aptitude/sessions)',
+        },
+        { status: 400 }
+      );
+    }
+
+    const admin = createAdminClient();
+
+    const lookup = await fetchOwnedAptitudeSession(admin, sessionId, userId);
+    if (!lookup.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: lookup.error, code: lookup.code },
+        { status: lookup.status }
+      );
+    }
+
+    const questionIds = lookup.session.question_ids || [];
+    const optionOrders = lookup.session.option_orders || {};
+
+    // 3. FETCH WITH THE SERVICE ROLE, SELECTING DELIVERY COLUMNS ONLY
+    const { data, error } = await admin
+      .from('aptitude_questions')
+      .select('id, question_type, question_text, option_a, option_b, option_c, option_d, media')
+      .in('id', questionIds);
+
+    if (error) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'aptitude_questions',
+        error: error.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch questions',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    const rows = (data || []) as DatabaseAptitudeQuestion[];
+    const urls = await signMediaUrls(admin, rows.flatMap(question => mediaPaths(question.media)));
+
+    const position = new Map(questionIds.map((id, index) => [id, index]));
+    const questions = rows
+      .sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0))
+      .map(question => toDeliveredQuestion(question, optionOrders[question.id], urls));
+
+    return NextResponse.json<QuestionsResponse>(
+      {
+        success: true,
+        total: questions.length,
+        questions,
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+
+  } catch (error) {
+    console.error('[APTITUDE_QUESTIONS_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Whitelist the fields a client may see, with options (and option
+ * media) in the session's display order
+ */
+function toDeliveredQuestion(
+  question: DatabaseAptitudeQuestion,
+  order: OptionOrder | undefined,
+  urls: SignedMediaUrls
+): DeliveredQuestion {
+  return {
+    id: question.id,
+    question_type: question.question_type ?? 'single_choice',
+    question_text: question.question_text,
+    options: displayOptions(questionOptions(question.question_type, question), order),
+    media: toDeliveredMedia(question.media, urls, order),
+  };
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function POST() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
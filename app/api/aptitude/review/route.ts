@@ -0,0 +1,357 @@
+// =====================================================
+// GET /api/aptitude/review?submissionId=
+// =====================================================
+// Engine 2: Post-test review of one aptitude submission
+// Per question: the user's answer, the correct option and an
+// explanation. Access rules (finalized only, premium only, delay)
+// come from aptitude_review_settings. Questions are read with the
+// service-role client since they carry the answer key.
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  buildReviewItems,
+  checkReviewAccess,
+  fetchReviewAccessRules
+} from '@/lib/aptitudeReview';
+import type { ReviewItem, ReviewQuestion } from '@/lib/aptitudeReview';
+import type { AptitudeAnswer } from '@/lib/aptitudeQuestionTypes';
+import { mediaPaths, signMediaUrls } from '@/lib/aptitudeMedia';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const REVIEW_QUESTION_COLUMNS =
+  'id, category, question_type, question_text, option_a, option_b, option_c, option_d, correct_answer, answer_spec, explanation, media';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface ReviewResponse {
+  success: true;
+  submissionId: string;
+  mode: 'fixed' | 'adaptive';
+  createdAt: string;
+  correctCount: number;
+  total: number;
+  items: ReviewItem[];
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+interface DatabaseSubmission {
+  id: string;
+  mode: 'fixed' | 'adaptive';
+  answers: Record<string, AptitudeAnswer> | null;
+  session_id: string | null;
+  created_at: string;
+}
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function GET(request: NextRequest) {
+  let userId: string | undefined;
+
+  try {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // 1. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+
+    // 2. LOAD THE SUBMISSION (own submissions only)
+    const submissionId = request.nextUrl.searchParams.get('submissionId');
+    if (!submissionId) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Missing submissionId',
+          code: 'INVALID_QUERY',
+          details: 'Pass ?submissionId=<aptitude submission id>',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!UUID_PATTERN.test(submissionId)) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: 'Submission not found', code: 'SUBMISSION_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const { data: submission, error: fetchError } = await supabase
+      .from('aptitude_submissions')
+      .select('id, mode, answers, session_id, created_at')
+      .eq('id', submissionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'aptitude_submissions',
+        error: fetchError.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch submission',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!submission) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: 'Submission not found', code: 'SUBMISSION_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const row = submission as DatabaseSubmission;
+    const admin = createAdminClient();
+
+    // 3. APPLY ACCESS RULES
+    const [rules, isPremium, origin] = await Promise.all([
+      fetchReviewAccessRules(supabase),
+      fetchIsPremium(supabase, userId),
+      fetchSubmissionOrigin(admin, row),
+    ]);
+
+    const access = checkReviewAccess(rules, {
+      finalized: origin.finalized,
+      isPremium,
+      submittedAt: row.created_at,
+    });
+
+    if (!access.allowed) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: access.error,
+          code: access.code,
+          details: access.details,
+        },
+        { status: access.status }
+      );
+    }
+
+    // 4. LOAD QUESTIONS WITH THE ANSWER KEY (service role)
+    // Fixed form: the session's sample, so unanswered ones are
+    // reviewed too. Adaptive (and sessionless): the items answered.
+    const answers = row.answers || {};
+    const questionIds = origin.questionIds ?? Object.keys(answers);
+
+    const { data: questions, error: questionsError } = await admin
+      .from('aptitude_questions')
+      .select(REVIEW_QUESTION_COLUMNS)
+      .in('id', questionIds);
+
+    if (questionsError) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'aptitude_questions',
+        error: questionsError.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch questions',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    const position = new Map(questionIds.map((id, index) => [id, index]));
+    const ordered = ((questions || []) as ReviewQuestion[])
+      .sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+
+    const urls = await signMediaUrls(admin, ordered.flatMap(question => mediaPaths(question.media)));
+    const items = buildReviewItems(answers, ordered, urls);
+
+    return NextResponse.json<ReviewResponse>(
+      {
+        success: true,
+        submissionId: row.id,
+        mode: row.mode,
+        createdAt: row.created_at,
+        correctCount: items.filter(item => item.correct).length,
+        total: items.length,
+        items,
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+
+  } catch (error) {
+    console.error('[APTITUDE_REVIEW_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+async function fetchIsPremium(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('is_premium')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[PREMIUM_CHECK_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId,
+      error: error.message,
+    });
+  }
+
+  return profile?.is_premium === true;
+}
+
+/**
+ * The session that produced the submission: finalized when that
+ * session is finalized (submissions made before sessions existed
+ * count as finalized); questionIds is the fixed-form session's
+ * sample, null otherwise
+ */
+async function fetchSubmissionOrigin(
+  admin: SupabaseClient,
+  submission: DatabaseSubmission
+): Promise<{ finalized: boolean; questionIds: string[] | null }> {
+  const { data, error } = submission.mode === 'adaptive'
+    ? await admin
+        .from('aptitude_cat_sessions')
+        .select('status')
+        .eq('submission_id', submission.id)
+        .maybeSingle()
+    : submission.session_id
+      ? await admin
+          .from('aptitude_test_sessions')
+          .select('status, question_ids')
+          .eq('id', submission.session_id)
+          .maybeSingle()
+      : { data: null, error: null };
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      submissionId: submission.id,
+      error: error.message,
+    });
+    return { finalized: false, questionIds: null };
+  }
+
+  if (!data) {
+    return {
+      finalized: submission.mode === 'fixed' && !submission.session_id,
+      questionIds: null,
+    };
+  }
+
+  const questionIds = 'question_ids' in data ? (data.question_ids as string[]) : null;
+
+  return {
+    finalized: data.status === 'finalized',
+    questionIds: questionIds && questionIds.length > 0 ? questionIds : null,
+  };
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function POST() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
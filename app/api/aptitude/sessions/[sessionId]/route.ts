@@ -0,0 +1,429 @@
+// =====================================================
+// GET   /api/aptitude/sessions/[sessionId]  -> progress + time left
+// PATCH /api/aptitude/sessions/[sessionId]  -> save answers
+// =====================================================
+// Engine 2: Timed aptitude session progress
+// PATCH stamps each answer with the server time; a later answer for
+// the same question overwrites the earlier one and its timestamp.
+// Answers after the deadline are rejected. Answer shapes follow each
+// question's type (lib/aptitudeQuestionTypes.ts). Letters are the
+// displayed ones; they are mapped back through the session's option
+// order and both the displayed and canonical answers are stored.
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { answerKeyFor, questionOptions, validateAnswer } from '@/lib/aptitudeQuestionTypes';
+import type { AptitudeAnswer, OptionColumns, TypedQuestion } from '@/lib/aptitudeQuestionTypes';
+import { toCanonicalAnswers } from '@/lib/aptitudeOptionOrder';
+import { isPastDeadline } from '@/lib/aptitudeTiming';
+import {
+  APTITUDE_SESSION_COLUMNS,
+  fetchOwnedAptitudeSession,
+  requireOpenAptitudeSession,
+  toAptitudeSessionProgress
+} from '@/lib/aptitudeSessions';
+import type { AptitudeSessionProgress, AptitudeTestSession } from '@/lib/aptitudeSessions';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface RouteContext {
+  params: Promise<{ sessionId: string }>;
+}
+
+interface PatchRequestBody {
+  answers: Record<string, AptitudeAnswer>;
+}
+
+interface SessionResponse {
+  success: true;
+  session: AptitudeSessionProgress;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+// =====================================================
+// GET: PROGRESS
+// =====================================================
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  let userId: string | undefined;
+
+  try {
+    const { sessionId } = await context.params;
+    const supabase = await createSupabase();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+
+    const lookup = await fetchOwnedAptitudeSession(createAdminClient(), sessionId, userId);
+    if (!lookup.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: lookup.error, code: lookup.code },
+        { status: lookup.status }
+      );
+    }
+
+    return NextResponse.json<SessionResponse>(
+      {
+        success: true,
+        session: toAptitudeSessionProgress(lookup.session),
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+
+  } catch (error) {
+    console.error('[APTITUDE_SESSION_PROGRESS_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// PATCH: SAVE ANSWERS
+// =====================================================
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  let userId: string | undefined;
+
+  try {
+    // Server receipt time, taken before any other work
+    const receivedAt = Date.now();
+
+    const { sessionId } = await context.params;
+    const supabase = await createSupabase();
+
+    // 1. PARSE AND VALIDATE REQUEST BODY
+    const body = await parsePatchBody(request);
+    if (!body.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: body.error,
+          code: body.code,
+          details: body.details,
+        },
+        { status: 400 }
+      );
+    }
+
+    // 2. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+    const admin = createAdminClient();
+
+    // 3. LOAD SESSION (OWNERSHIP + EXPIRY + DEADLINE)
+    const lookup = await fetchOwnedAptitudeSession(admin, sessionId, userId);
+    if (!lookup.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: lookup.error, code: lookup.code },
+        { status: lookup.status }
+      );
+    }
+
+    const session = lookup.session;
+
+    const openCheck = requireOpenAptitudeSession(session);
+    if (!openCheck.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: openCheck.error, code: openCheck.code },
+        { status: openCheck.status }
+      );
+    }
+
+    if (isPastDeadline(session.deadline_at, receivedAt)) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Time limit reached',
+          code: 'SESSION_DEADLINE_PASSED',
+          details: 'Submit the session to score answers saved before the deadline',
+        },
+        { status: 409 }
+      );
+    }
+
+    // 4. VALIDATE QUESTION IDS (THIS SESSION'S SAMPLE) AND (CANONICAL) ANSWER SHAPES
+    const canonical = toCanonicalAnswers(body.data.answers, session.option_orders);
+    const sessionQuestionIds = new Set(session.question_ids || []);
+    const questionIds = Object.keys(body.data.answers);
+    const { data: known, error: questionsError } = await admin
+      .from('aptitude_questions')
+      .select('id, question_type, correct_answer, answer_spec, option_a, option_b, option_c, option_d')
+      .in('id', questionIds.filter(id => UUID_PATTERN.test(id) && sessionQuestionIds.has(id)));
+
+    if (questionsError) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        table: 'aptitude_questions',
+        error: questionsError.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch questions',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    if ((known || []).length !== questionIds.length) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unknown question IDs detected',
+          code: 'UNKNOWN_QUESTION_IDS',
+          details: `Found ${questionIds.length - (known || []).length} answer(s) for questions not in this session`,
+        },
+        { status: 400 }
+      );
+    }
+
+    for (const question of (known || []) as (TypedQuestion & OptionColumns & { id: string })[]) {
+      const key = answerKeyFor(question);
+      const problem = key
+        ? validateAnswer(key, canonical[question.id], questionOptions(key.type, question))
+        : 'cannot be accepted: question is misconfigured';
+
+      if (problem) {
+        return NextResponse.json<ErrorResponse>(
+          {
+            success: false,
+            error: 'Invalid answer value',
+            code: 'INVALID_ANSWER_VALUE',
+            details: `Answer for question ${question.id} ${problem}`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // 5. MERGE WITH SERVER TIMESTAMPS AND SAVE (optimistic lock on updated_at)
+    const answeredAt = { ...session.answered_at };
+    for (const questionId of questionIds) {
+      answeredAt[questionId] = receivedAt;
+    }
+
+    const { data: updated, error: updateError } = await admin
+      .from('aptitude_test_sessions')
+      .update({
+        answers: { ...session.answers, ...canonical },
+        displayed_answers: { ...session.displayed_answers, ...body.data.answers },
+        answered_at: answeredAt,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', session.id)
+      .eq('status', 'in_progress')
+      .eq('updated_at', session.updated_at)
+      .select(APTITUDE_SESSION_COLUMNS)
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('[DB_UPDATE_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'aptitude_test_sessions',
+        sessionId: session.id,
+        error: updateError.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to save answers',
+          code: 'DB_UPDATE_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!updated) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Session was modified concurrently',
+          code: 'SESSION_CONFLICT',
+          details: 'Reload progress and retry',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json<SessionResponse>({
+      success: true,
+      session: toAptitudeSessionProgress(updated as AptitudeTestSession),
+    });
+
+  } catch (error) {
+    console.error('[APTITUDE_SESSION_SAVE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+async function createSupabase() {
+  const cookieStore = await cookies();
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          cookieStore.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          cookieStore.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+}
+
+/**
+ * Parse PATCH body: { answers: { [questionId]: answer } }
+ * Answer values are checked against each question's type once the
+ * questions are loaded
+ */
+async function parsePatchBody(
+  request: NextRequest
+): Promise<
+  | { success: true; data: PatchRequestBody }
+  | { success: false; error: string; code: string; details?: string }
+> {
+  try {
+    const body = await request.json();
+
+    if (!body.answers || typeof body.answers !== 'object' || Array.isArray(body.answers)) {
+      return {
+        success: false,
+        error: 'Invalid request body',
+        code: 'INVALID_BODY',
+        details: 'answers field is required and must be an object',
+      };
+    }
+
+    const entries = Object.entries(body.answers);
+    if (entries.length === 0) {
+      return {
+        success: false,
+        error: 'Invalid request body',
+        code: 'INVALID_BODY',
+        details: 'answers object cannot be empty',
+      };
+    }
+
+    return {
+      success: true,
+      data: { answers: body.answers },
+    };
+
+  } catch {
+    return {
+      success: false,
+      error: 'Invalid JSON payload',
+      code: 'INVALID_JSON',
+      details: 'Unable to parse request body',
+    };
+  }
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function POST() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
@@ -0,0 +1,298 @@
+// =====================================================
+// POST /api/aptitude/sessions
+// =====================================================
+// Engine 2: Start (or resume) a timed aptitude session
+// The server sets the start time and deadline; the client only
+// displays them. New sessions are scored under the policy set by
+// admins in aptitude_scoring_settings (default: standard); clients
+// cannot choose it. Returns the user's open session under the same
+// policy if its deadline has not passed, so a client can call this
+// on load. Each new session draws its questions
+// from the official pool by the category blueprint
+// (lib/aptitudeCategories.ts; practice questions are never drawn)
+// and gets its own option order per question
+// (lib/aptitudeOptionOrder.ts), both kept server-side.
+// =====================================================
+
+import { NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { deadlineFrom, isPastDeadline } from '@/lib/aptitudeTiming';
+import { fetchAptitudeCategories, sampleBlueprint } from '@/lib/aptitudeCategories';
+import { buildOptionOrders } from '@/lib/aptitudeOptionOrder';
+import type { ShuffleableQuestion } from '@/lib/aptitudeOptionOrder';
+import { OFFICIAL_POOL } from '@/lib/aptitudePractice';
+import {
+  APTITUDE_SESSION_COLUMNS,
+  aptitudeSessionExpiryFromNow,
+  fetchConfiguredScoringPolicy,
+  toAptitudeSessionProgress
+} from '@/lib/aptitudeSessions';
+import type { AptitudeSessionProgress, AptitudeTestSession } from '@/lib/aptitudeSessions';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface SessionResponse {
+  success: true;
+  resumed: boolean;
+  session: AptitudeSessionProgress;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function POST() {
+  let userId: string | undefined;
+
+  try {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // 1. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+
+    // Session rows are server-written only (timestamps must be trusted)
+    const admin = createAdminClient();
+
+    // 2. SCORING POLICY FROM THE ADMIN SETTINGS
+    const scoringPolicy = await fetchConfiguredScoringPolicy(admin);
+
+    // 3. RESUME AN OPEN SESSION UNDER THIS POLICY WHOSE DEADLINE HAS NOT PASSED
+    const { data: existing, error: fetchError } = await admin
+      .from('aptitude_test_sessions')
+      .select(APTITUDE_SESSION_COLUMNS)
+      .eq('user_id', userId)
+      .eq('status', 'in_progress')
+      .eq('scoring_policy', scoringPolicy)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'aptitude_test_sessions',
+        error: fetchError.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch sessions',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    if (existing && !isPastDeadline((existing as AptitudeTestSession).deadline_at)) {
+      return NextResponse.json<SessionResponse>(
+        {
+          success: true,
+          resumed: true,
+          session: toAptitudeSessionProgress(existing as AptitudeTestSession),
+        },
+        { headers: { 'Cache-Control': 'private, no-store' } }
+      );
+    }
+
+    // 4. SAMPLE QUESTIONS BY BLUEPRINT AND SHUFFLE THEIR OPTIONS
+    const categoriesResult = await fetchAptitudeCategories(admin);
+    if (!categoriesResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: categoriesResult.error,
+          code: categoriesResult.code,
+          details: categoriesResult.details,
+        },
+        { status: categoriesResult.status }
+      );
+    }
+
+    const { data: questions, error: questionsError } = await admin
+      .from('aptitude_questions')
+      .select('id, category, question_type, option_a, option_b, option_c, option_d')
+      .eq('pool', OFFICIAL_POOL);
+
+    if (questionsError) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'aptitude_questions',
+        error: questionsError.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch questions',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    const bank = (questions || []) as (ShuffleableQuestion & { category: string })[];
+
+    const sample = sampleBlueprint(bank, categoriesResult.categories);
+    if (!sample.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: sample.error,
+          code: sample.code,
+          details: sample.details,
+        },
+        { status: sample.status }
+      );
+    }
+
+    const sampled = new Set(sample.questionIds);
+    const optionOrders = buildOptionOrders(bank.filter(question => sampled.has(question.id)));
+
+    // 5. START A NEW SESSION ON THE SERVER CLOCK
+    const startedAt = new Date();
+
+    const { data: created, error: insertError } = await admin
+      .from('aptitude_test_sessions')
+      .insert({
+        user_id: userId,
+        scoring_policy: scoringPolicy,
+        question_ids: sample.questionIds,
+        option_orders: optionOrders,
+        started_at: startedAt.toISOString(),
+        deadline_at: deadlineFrom(startedAt).toISOString(),
+        expires_at: aptitudeSessionExpiryFromNow(),
+      })
+      .select(APTITUDE_SESSION_COLUMNS)
+      .single();
+
+    if (insertError || !created) {
+      console.error('[DB_INSERT_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'aptitude_test_sessions',
+        error: insertError?.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to start test session',
+          code: 'DB_INSERT_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    console.log('[APTITUDE_SESSION_STARTED]', {
+      timestamp: new Date().toISOString(),
+      userId,
+      sessionId: created.id,
+      deadlineAt: created.deadline_at,
+    });
+
+    return NextResponse.json<SessionResponse>(
+      {
+        success: true,
+        resumed: false,
+        session: toAptitudeSessionProgress(created as AptitudeTestSession),
+      },
+      { status: 201, headers: { 'Cache-Control': 'private, no-store' } }
+    );
+
+  } catch (error) {
+    console.error('[APTITUDE_SESSION_CREATE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function GET() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
@@ -1,7 +1,19 @@
 // =====================================================
 // POST /api/aptitude/submit
 // =====================================================
-// Engine 2: Aptitude Test Submission Endpoint (CAT-style)
+// Engine 2: Aptitude Test Submission Endpoint (fixed form)
+// Adaptive testing is served by /api/aptitude/next-question
+// Scores a timed session (POST /api/aptitude/sessions) on the
+// questions sampled for it by the category blueprint. Answers
+// saved or submitted before the deadline count; a submission after
+// the deadline is partially scored from the answers saved in time.
+// Scored under the session's scoring policy (lib/aptitudeScoring.ts);
+// raw (number correct) and weighted scores are reported separately.
+// Answer shapes follow each question's type
+// (lib/aptitudeQuestionTypes.ts); submitted letters are the displayed
+// ones and are mapped back through the session's option order.
+// Integrity events reported for the session (lib/testIntegrity.ts)
+// are summarized onto the submission.
 // SOLVO Specification Compliant - Production Grade
 // =====================================================
 
@@ -9,18 +21,28 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isPastDeadline, responseTimesFromTimestamps } from '@/lib/aptitudeTiming';
+import {
+  fetchOwnedAptitudeSession,
+  requireOpenAptitudeSession,
+  setAptitudeSessionStatus
+} from '@/lib/aptitudeSessions';
+import type { AptitudeTestSession } from '@/lib/aptitudeSessions';
+import { answerKeyFor, questionOptions, sameAnswer, validateAnswer } from '@/lib/aptitudeQuestionTypes';
+import type { AptitudeAnswer, OptionColumns } from '@/lib/aptitudeQuestionTypes';
+import { toCanonicalAnswers } from '@/lib/aptitudeOptionOrder';
+import { sumBreakdown } from '@/lib/aptitudeCategories';
+import type { CategoryBreakdown } from '@/lib/aptitudeCategories';
+import { scoreAptitudeAnswers } from '@/lib/aptitudeScoring';
+import type { AptitudeScore, ScoringPolicyId } from '@/lib/aptitudeScoring';
+import { fetchIntegritySummary } from '@/lib/testIntegrity';
+import type { IntegritySummary } from '@/lib/testIntegrity';
 
 // =====================================================
 // CONSTANTS
 // =====================================================
 
-const REQUIRED_QUESTION_COUNT = 30;
-const CATEGORIES = ['numerical', 'verbal', 'creative'] as const;
-type Category = typeof CATEGORIES[number];
-
-const VALID_OPTIONS = ['A', 'B', 'C', 'D'] as const;
-type ValidOption = typeof VALID_OPTIONS[number];
-
 const IDEMPOTENCY_WINDOW_SECONDS = 60;
 
 // =====================================================
@@ -28,18 +50,28 @@ const IDEMPOTENCY_WINDOW_SECONDS = 60;
 // =====================================================
 
 interface SubmitRequestBody {
-  answers: Record<string, string>;
+  sessionId: string;
+  answers: Record<string, AptitudeAnswer>;
 }
 
+/**
+ * scoreTotal / breakdown / percentage: raw credit (number correct
+ * plus any partial credit), whatever the policy. maxBreakdown: the
+ * number of questions per category. weighted: the same answers
+ * under scoringPolicy.
+ */
 interface SubmitResponse {
   success: true;
+  scoringPolicy: ScoringPolicyId;
   scoreTotal: number;
-  breakdown: {
-    numerical: number;
-    verbal: number;
-    creative: number;
-  };
+  breakdown: CategoryBreakdown;
+  maxBreakdown: CategoryBreakdown;
   percentage: number;
+  weighted: AptitudeScore['weighted'];
+  answeredCount: number;
+  partialCount: number;
+  skippedCount: number;
+  timedOut: boolean;
 }
 
 interface ErrorResponse {
@@ -49,17 +81,14 @@ interface ErrorResponse {
   details?: string;
 }
 
-interface DatabaseAptitudeQuestion {
+interface DatabaseAptitudeQuestion extends OptionColumns {
   id: string;
   category: string;
-  correct_answer: string;
+  question_type: string | null;
+  correct_answer: string | null;
+  answer_spec: unknown;
   question_text: string;
-}
-
-interface ScoreBreakdown {
-  numerical: number;
-  verbal: number;
-  creative: number;
+  score_weight: number | string | null;
 }
 
 // =====================================================
@@ -68,8 +97,13 @@ interface ScoreBreakdown {
 
 export async function POST(request: NextRequest) {
   let userId: string | undefined;
+  let admin: SupabaseClient | undefined;
+  let claimedSessionId: string | undefined;
 
   try {
+    // Server receipt time, taken before any other work
+    const receivedAt = Date.now();
+
     const cookieStore = await cookies();
     const supabase = createServerClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -102,8 +136,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { answers } = body.data;
-
     const authResult = await authenticateUser(supabase);
     if (!authResult.success) {
       return NextResponse.json<ErrorResponse>(
@@ -131,8 +163,56 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const questionsResult = await fetchQuestions(supabase);
+    // Session rows are server-written only (timestamps must be trusted)
+    admin = createAdminClient();
+
+    const lookup = await fetchOwnedAptitudeSession(admin, body.data.sessionId, userId);
+    if (!lookup.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: lookup.error, code: lookup.code },
+        { status: lookup.status }
+      );
+    }
+
+    const session = lookup.session;
+
+    const openCheck = requireOpenAptitudeSession(session);
+    if (!openCheck.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: openCheck.error, code: openCheck.code },
+        { status: openCheck.status }
+      );
+    }
+
+    // Claim the session (prevents double submissions)
+    const claimed = await setAptitudeSessionStatus(admin, session.id, 'in_progress', 'finalizing');
+    if (!claimed) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Session is being submitted',
+          code: 'SESSION_FINALIZING',
+        },
+        { status: 409 }
+      );
+    }
+
+    claimedSessionId = session.id;
+
+    // Answers in this request count only if it arrived before the deadline
+    const timedOut = isPastDeadline(session.deadline_at, receivedAt);
+    const { answers, displayedAnswers, answeredAt } = mergeTimedAnswers(
+      session,
+      timedOut ? {} : body.data.answers,
+      receivedAt
+    );
+
+    // Answer key is readable only with the service role
+    const questionsResult = await fetchQuestions(admin, session.question_ids);
     if (!questionsResult.success) {
+      await setAptitudeSessionStatus(admin, session.id, 'finalizing', 'in_progress');
+      claimedSessionId = undefined;
+
       return NextResponse.json<ErrorResponse>(
         {
           success: false,
@@ -146,8 +226,12 @@ export async function POST(request: NextRequest) {
 
     const questions = questionsResult.questions;
 
-    const validationResult = validateAnswers(answers, questions);
+    // On time: all questions required. Late: partial credit for what was saved
+    const validationResult = validateAnswers(answers, questions, !timedOut);
     if (!validationResult.success) {
+      await setAptitudeSessionStatus(admin, session.id, 'finalizing', 'in_progress');
+      claimedSessionId = undefined;
+
       return NextResponse.json<ErrorResponse>(
         {
           success: false,
@@ -159,17 +243,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const scoreResult = calculateScore(answers, questions);
+    const scoreResult = scoreAptitudeAnswers(answers, questions, session.scoring_policy);
+    const responseTimes = responseTimesFromTimestamps(
+      new Date(session.started_at).getTime(),
+      answeredAt
+    );
+    const integrity = await fetchIntegritySummary(admin, 'aptitude', session.id);
 
     const persistResult = await persistResults(
-      supabase,
+      admin,
       userId,
-      scoreResult.total,
-      scoreResult.breakdown,
-      answers
+      scoreResult,
+      { canonical: answers, displayed: displayedAnswers },
+      { sessionId: session.id, responseTimes, timedOut },
+      integrity
     );
 
     if (!persistResult.success) {
+      await setAptitudeSessionStatus(admin, session.id, 'finalizing', 'in_progress');
+      claimedSessionId = undefined;
+
       return NextResponse.json<ErrorResponse>(
         {
           success: false,
@@ -180,19 +273,59 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { error: linkError } = await admin
+      .from('aptitude_test_sessions')
+      .update({
+        status: 'finalized',
+        answers,
+        displayed_answers: displayedAnswers,
+        answered_at: answeredAt,
+        submission_id: persistResult.resultId,
+        finalized_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', session.id);
+
+    if (linkError) {
+      // Submission is already stored; log and still return the score
+      console.error('[DB_UPDATE_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'aptitude_test_sessions',
+        sessionId: session.id,
+        resultId: persistResult.resultId,
+        error: linkError.message,
+      });
+    }
+
+    claimedSessionId = undefined;
+
     console.log('[APTITUDE_SUBMISSION_SUCCESS]', {
       timestamp: new Date().toISOString(),
       userId,
       resultId: persistResult.resultId,
-      scoreTotal: scoreResult.total,
-      breakdown: scoreResult.breakdown,
+      sessionId: session.id,
+      scoringPolicy: scoreResult.policy,
+      scoreTotal: scoreResult.raw.total,
+      weightedScore: scoreResult.weighted.score,
+      breakdown: scoreResult.raw.breakdown,
+      timedOut,
     });
 
     return NextResponse.json<SubmitResponse>({
       success: true,
-      scoreTotal: scoreResult.total,
-      breakdown: scoreResult.breakdown,
-      percentage: Math.round((scoreResult.total / REQUIRED_QUESTION_COUNT) * 100),
+      scoringPolicy: scoreResult.policy,
+      scoreTotal: scoreResult.raw.total,
+      breakdown: scoreResult.raw.breakdown,
+      maxBreakdown: scoreResult.raw.maxBreakdown,
+      percentage: Math.round(
+        (scoreResult.raw.total / Math.max(1, sumBreakdown(scoreResult.raw.maxBreakdown))) * 100
+      ),
+      weighted: scoreResult.weighted,
+      answeredCount: scoreResult.counts.correct + scoreResult.counts.partial + scoreResult.counts.wrong,
+      partialCount: scoreResult.counts.partial,
+      skippedCount: scoreResult.counts.skipped,
+      timedOut,
     });
 
   } catch (error) {
@@ -202,6 +335,11 @@ export async function POST(request: NextRequest) {
       error: error instanceof Error ? error.message : String(error),
     });
 
+    // Release the claim so the user can retry
+    if (admin && claimedSessionId) {
+      await setAptitudeSessionStatus(admin, claimedSessionId, 'finalizing', 'in_progress');
+    }
+
     return NextResponse.json<ErrorResponse>(
       {
         success: false,
@@ -224,26 +362,26 @@ async function parseRequestBody(request: NextRequest): Promise<
   try {
     const body = await request.json();
 
-    if (!body.answers || typeof body.answers !== 'object') {
+    if (!body.sessionId || typeof body.sessionId !== 'string') {
       return {
         success: false,
         error: 'Invalid request body',
         code: 'INVALID_BODY',
-        details: 'Missing or invalid "answers" field',
+        details: 'Missing "sessionId"; start a timed session first',
       };
     }
 
-    const answerCount = Object.keys(body.answers).length;
-    if (answerCount !== REQUIRED_QUESTION_COUNT) {
+    const answers = body.answers ?? {};
+    if (typeof answers !== 'object' || Array.isArray(answers)) {
       return {
         success: false,
-        error: `Expected exactly ${REQUIRED_QUESTION_COUNT} answers`,
-        code: 'INVALID_ANSWER_COUNT',
-        details: `Received ${answerCount} answers`,
+        error: 'Invalid request body',
+        code: 'INVALID_BODY',
+        details: 'Invalid "answers" field',
       };
     }
 
-    return { success: true, data: body };
+    return { success: true, data: { sessionId: body.sessionId, answers } };
   } catch {
     return {
       success: false,
@@ -313,14 +451,20 @@ async function checkIdempotency(
   return { isDuplicate: false };
 }
 
-async function fetchQuestions(supabase: SupabaseClient): Promise<
+/**
+ * The session's questions, in session order
+ */
+async function fetchQuestions(
+  supabase: SupabaseClient,
+  questionIds: string[]
+): Promise<
   | { success: true; questions: DatabaseAptitudeQuestion[] }
   | { success: false; error: string; code: string; details?: string; status?: number }
 > {
   const { data, error } = await supabase
     .from('aptitude_questions')
-    .select('id, category, correct_answer, question_text')
-    .order('id');
+    .select('id, category, question_type, correct_answer, answer_spec, question_text, score_weight, option_a, option_b, option_c, option_d')
+    .in('id', questionIds);
 
   if (error) {
     console.error('[DB_FETCH_ERROR]', {
@@ -337,10 +481,10 @@ async function fetchQuestions(supabase: SupabaseClient): Promise<
     };
   }
 
-  if (!data || data.length !== REQUIRED_QUESTION_COUNT) {
+  if (!data || questionIds.length === 0 || data.length !== questionIds.length) {
     console.error('[QUESTION_COUNT_MISMATCH]', {
       timestamp: new Date().toISOString(),
-      expected: REQUIRED_QUESTION_COUNT,
+      expected: questionIds.length,
       actual: data?.length || 0,
     });
 
@@ -348,28 +492,56 @@ async function fetchQuestions(supabase: SupabaseClient): Promise<
       success: false,
       error: 'Question database integrity error',
       code: 'INVALID_QUESTION_COUNT',
-      details: `Expected ${REQUIRED_QUESTION_COUNT} questions, found ${data?.length || 0}`,
+      details: `Expected ${questionIds.length} questions, found ${data?.length || 0}`,
+      status: 503,
+    };
+  }
+
+  const misconfigured = data.filter((question) => !answerKeyFor(question));
+  if (misconfigured.length > 0) {
+    console.error('[INVALID_ANSWER_KEY]', {
+      timestamp: new Date().toISOString(),
+      questionIds: misconfigured.map((question) => question.id),
+    });
+
+    return {
+      success: false,
+      error: 'Question database integrity error',
+      code: 'INVALID_ANSWER_KEY',
+      details: `${misconfigured.length} question(s) have a missing or malformed answer key`,
       status: 503,
     };
   }
 
-  return { success: true, questions: data };
+  const position = new Map(questionIds.map((id, index) => [id, index]));
+  const ordered = [...data].sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+
+  return { success: true, questions: ordered };
 }
 
+/**
+ * @param requireComplete - false for late submissions, which are
+ *   scored on whatever was answered before the deadline
+ */
 function validateAnswers(
-  answers: Record<string, string>,
-  questions: DatabaseAptitudeQuestion[]
+  answers: Record<string, AptitudeAnswer>,
+  questions: DatabaseAptitudeQuestion[],
+  requireComplete: boolean
 ): { success: true } | { success: false; error: string; code: string; details?: string } {
-  const questionIds = new Set(questions.map((q) => q.id));
+  const questionsById = new Map(questions.map((q) => [q.id, q]));
+  const questionIds = new Set(questionsById.keys());
   const answerIds = new Set(Object.keys(answers));
 
   for (const [questionId, answer] of Object.entries(answers)) {
-    if (!VALID_OPTIONS.includes(answer as ValidOption)) {
+    const question = questionsById.get(questionId);
+    const key = question && answerKeyFor(question);
+    const problem = key && validateAnswer(key, answer, questionOptions(key.type, question));
+    if (problem) {
       return {
         success: false,
         error: 'Invalid answer value',
         code: 'INVALID_ANSWER_VALUE',
-        details: `Answer for question ${questionId} must be A, B, C, or D`,
+        details: `Answer for question ${questionId} ${problem}`,
       };
     }
   }
@@ -380,12 +552,12 @@ function validateAnswers(
       success: false,
       error: 'Unknown question IDs detected',
       code: 'UNKNOWN_QUESTION_IDS',
-      details: `Found ${unknownIds.length} answer(s) for non-existent questions`,
+      details: `Found ${unknownIds.length} answer(s) for questions not in this session`,
     };
   }
 
   const missingIds = [...questionIds].filter((id) => !answerIds.has(id));
-  if (missingIds.length > 0) {
+  if (requireComplete && missingIds.length > 0) {
     return {
       success: false,
       error: 'Incomplete answers',
@@ -397,53 +569,72 @@ function validateAnswers(
   return { success: true };
 }
 
-function calculateScore(
-  answers: Record<string, string>,
-  questions: DatabaseAptitudeQuestion[]
+/**
+ * Merge answers sent with the submission (displayed letters) into
+ * the session's saved answers, stamping the new ones with the server
+ * receipt time. answers are canonical; displayedAnswers as sent.
+ */
+function mergeTimedAnswers(
+  session: AptitudeTestSession,
+  submitted: Record<string, AptitudeAnswer>,
+  receivedAt: number
 ): {
-  total: number;
-  breakdown: ScoreBreakdown;
+  answers: Record<string, AptitudeAnswer>;
+  displayedAnswers: Record<string, AptitudeAnswer>;
+  answeredAt: Record<string, number>;
 } {
-  const breakdown: ScoreBreakdown = {
-    numerical: 0,
-    verbal: 0,
-    creative: 0,
-  };
-
-  let total = 0;
-
-  for (const question of questions) {
-    const userAnswer = answers[question.id];
-    const isCorrect = userAnswer === question.correct_answer;
-
-    if (isCorrect) {
-      total++;
-      const category = question.category as Category;
-      breakdown[category]++;
+  const answers = { ...session.answers };
+  const displayedAnswers = { ...session.displayed_answers };
+  const answeredAt = { ...session.answered_at };
+  const canonical = toCanonicalAnswers(submitted, session.option_orders);
+
+  for (const [questionId, answer] of Object.entries(canonical)) {
+    if (!sameAnswer(answers[questionId], answer)) {
+      answers[questionId] = answer;
+      displayedAnswers[questionId] = submitted[questionId];
+      answeredAt[questionId] = receivedAt;
     }
   }
 
-  return { total, breakdown };
+  return { answers, displayedAnswers, answeredAt };
 }
 
+/**
+ * Insert the scored submission with the service role (users cannot
+ * insert aptitude_submissions themselves, see migration 012)
+ */
 async function persistResults(
-  supabase: SupabaseClient,
+  admin: SupabaseClient,
   userId: string,
-  scoreTotal: number,
-  breakdown: ScoreBreakdown,
-  answers: Record<string, string>
+  score: AptitudeScore,
+  answers: {
+    canonical: Record<string, AptitudeAnswer>;
+    displayed: Record<string, AptitudeAnswer>;
+  },
+  timing: { sessionId: string; responseTimes: Record<string, number>; timedOut: boolean },
+  integrity: IntegritySummary | null
 ): Promise<
   | { success: true; resultId: string }
   | { success: false; error: string; code: string }
 > {
   try {
-    const { data, error } = await supabase
+    const { data, error } = await admin
       .from('aptitude_submissions')
       .insert({
         user_id: userId,
-        score_total: scoreTotal,
-        breakdown: breakdown,
-        answers: answers,
+        score_total: score.raw.total,
+        breakdown: score.raw.breakdown,
+        max_breakdown: score.raw.maxBreakdown,
+        scoring_policy: score.policy,
+        weighted_score: score.weighted.score,
+        weighted_breakdown: score.weighted.breakdown,
+        answers: answers.canonical,
+        displayed_answers: answers.displayed,
+        session_id: timing.sessionId,
+        response_times: timing.responseTimes,
+        timed_out: timing.timedOut,
+        integrity_score: integrity?.score ?? null,
+        integrity_summary: integrity,
       })
       .select('id')
       .single();
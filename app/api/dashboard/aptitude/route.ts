@@ -2,11 +2,25 @@
 // GET /api/dashboard/aptitude
 // =====================================================
 // Fetch latest aptitude test results
+// Breakdown is keyed by category slug; categories lists each
+// category's label, score, maximum and percentage in test order.
+// Optional ?cohort=all|education|institution picks the reference
+// group for percentile ranks (default all)
 // =====================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { fetchAptitudeCategories, toCategoryScores } from '@/lib/aptitudeCategories';
+import type { CategoryBreakdown, CategoryScore } from '@/lib/aptitudeCategories';
+import {
+  DEFAULT_REFERENCE_GROUP,
+  fetchAptitudePercentiles,
+  isReferenceGroup,
+  REFERENCE_GROUPS
+} from '@/lib/aptitudePercentiles';
+import type { AptitudePercentiles } from '@/lib/aptitudePercentiles';
 
 // =====================================================
 // TYPES
@@ -17,12 +31,11 @@ interface AptitudeResponse {
   result: {
     id: string;
     score_total: number;
-    breakdown: {
-      numerical: number;
-      verbal: number;
-      creative: number;
-    };
+    breakdown: CategoryBreakdown;
+    max_breakdown: CategoryBreakdown | null;
+    categories: CategoryScore[];
     percentage: number;
+    percentiles: AptitudePercentiles | null;
     created_at: string;
   } | null;
   message?: string;
@@ -32,6 +45,7 @@ interface ErrorResponse {
   success: false;
   error: string;
   code: string;
+  details?: string;
 }
 
 // =====================================================
@@ -75,9 +89,23 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const cohortParam = request.nextUrl.searchParams.get('cohort');
+    if (cohortParam !== null && !isReferenceGroup(cohortParam)) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid cohort',
+          code: 'INVALID_COHORT',
+          details: `cohort must be one of: ${REFERENCE_GROUPS.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+    const referenceGroup = cohortParam ?? DEFAULT_REFERENCE_GROUP;
+
     const { data: result, error: fetchError } = await supabase
       .from('aptitude_submissions')
-      .select('id, score_total, breakdown, created_at')
+      .select('id, score_total, breakdown, max_breakdown, created_at')
       .eq('user_id', user.id)
       .order('created_at', { ascending: false })
       .limit(1)
@@ -108,12 +136,24 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const resultWithPercentage = result
-      ? {
-          ...result,
-          percentage: Math.round((result.score_total / 30) * 100),
-        }
-      : null;
+    const categoriesResult = await fetchAptitudeCategories(supabase);
+    const categories = toCategoryScores(
+      result.breakdown || {},
+      result.max_breakdown,
+      categoriesResult.success ? categoriesResult.categories : []
+    );
+    const maxScore = categories.reduce((sum, category) => sum + category.maxScore, 0);
+    const percentage = maxScore > 0 ? Math.round((result.score_total / maxScore) * 100) : 0;
+
+    const resultWithPercentage = {
+      ...result,
+      categories,
+      percentage,
+      percentiles: await fetchAptitudePercentiles(supabase, createAdminClient(), user.id, referenceGroup, {
+        percentage,
+        categories,
+      }),
+    };
 
     return NextResponse.json<AptitudeResponse>({
       success: true,
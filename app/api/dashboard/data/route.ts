@@ -4,12 +4,29 @@
 // Combined Dashboard Endpoint
 // Returns profile + psychometric + aptitude in one call
 // Hides detailed roadmap data if user is not premium
+// Optional ?cohort=all|education|institution picks the reference
+// group for aptitude percentile ranks (default all)
 // =====================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { fetchAptitudeCategories, toCategoryScores } from '@/lib/aptitudeCategories';
+import type { CategoryBreakdown, CategoryScore } from '@/lib/aptitudeCategories';
+import {
+  DEFAULT_REFERENCE_GROUP,
+  fetchAptitudePercentiles,
+  isReferenceGroup,
+  REFERENCE_GROUPS
+} from '@/lib/aptitudePercentiles';
+import type { AptitudePercentiles, ReferenceGroup } from '@/lib/aptitudePercentiles';
+import type { NormReferencedResult } from '@/lib/bigFiveNorms';
+import type { PsychFormMode } from '@/lib/psychForms';
+import { fetchNormReferencedScores } from '@/lib/psychNorms';
+import { confidenceBands } from '@/lib/scoreUncertainty';
+import type { ConfidenceBands, ScoreUncertainty } from '@/lib/scoreUncertainty';
 
 // =====================================================
 // TYPES
@@ -37,6 +54,11 @@ interface DashboardResponse {
           agreeableness: number;
           neuroticism: number;
         };
+        population: string;
+        mode: PsychFormMode;
+        uncertainty: ScoreUncertainty | null;
+        confidence: ConfidenceBands;
+        norms: NormReferencedResult | null;
         created_at: string;
       } | null;
     };
@@ -45,12 +67,11 @@ interface DashboardResponse {
       result: {
         id: string;
         score_total: number;
-        breakdown: {
-          numerical: number;
-          verbal: number;
-          creative: number;
-        };
+        breakdown: CategoryBreakdown;
+        max_breakdown: CategoryBreakdown | null;
+        categories: CategoryScore[];
         percentage: number;
+        percentiles: AptitudePercentiles | null;
         created_at: string;
       } | null;
     };
@@ -113,11 +134,25 @@ export async function GET(request: NextRequest) {
 
     const userId = user.id;
 
+    const cohortParam = request.nextUrl.searchParams.get('cohort');
+    if (cohortParam !== null && !isReferenceGroup(cohortParam)) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid cohort',
+          code: 'INVALID_COHORT',
+          details: `cohort must be one of: ${REFERENCE_GROUPS.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+    const referenceGroup = cohortParam ?? DEFAULT_REFERENCE_GROUP;
+
     // Step 2: Fetch all data in parallel
     const [profileResult, psychResult, aptitudeResult] = await Promise.all([
       fetchProfile(supabase, userId),
       fetchPsychometric(supabase, userId),
-      fetchAptitude(supabase, userId),
+      fetchAptitude(supabase, userId, referenceGroup),
     ]);
 
     // Step 3: Handle profile error or auto-create
@@ -253,7 +288,7 @@ async function fetchPsychometric(
 }> {
   const { data, error } = await supabase
     .from('psych_results')
-    .select('id, scores, created_at')
+    .select('id, scores, population, mode, uncertainty, created_at')
     .eq('user_id', userId)
     .order('created_at', { ascending: false })
     .limit(1)
@@ -264,18 +299,28 @@ async function fetchPsychometric(
     return { result: null };
   }
 
-  return { result: data };
+  const norms = await fetchNormReferencedScores(supabase, data.scores, data.population);
+
+  return {
+    result: {
+      ...data,
+      confidence: confidenceBands(data.scores, data.uncertainty),
+      norms,
+    },
+  };
 }
 
 async function fetchAptitude(
   supabase: SupabaseClient,
-  userId: string
+  userId: string,
+  referenceGroup: ReferenceGroup
 ): Promise<{
   result: DashboardResponse['data']['aptitude']['result'];
 }> {
+  // Official results only: practice attempts live in aptitude_practice_attempts
   const { data, error } = await supabase
     .from('aptitude_submissions')
-    .select('id, score_total, breakdown, created_at')
+    .select('id, score_total, breakdown, max_breakdown, created_at')
     .eq('user_id', userId)
     .order('created_at', { ascending: false })
     .limit(1)
@@ -286,13 +331,29 @@ async function fetchAptitude(
     return { result: null };
   }
 
+  if (!data) {
+    return { result: null };
+  }
+
+  const categoriesResult = await fetchAptitudeCategories(supabase);
+  const categories = toCategoryScores(
+    data.breakdown || {},
+    data.max_breakdown,
+    categoriesResult.success ? categoriesResult.categories : []
+  );
+  const maxScore = categories.reduce((sum, category) => sum + category.maxScore, 0);
+  const percentage = maxScore > 0 ? Math.round((data.score_total / maxScore) * 100) : 0;
+
   return {
-    result: data
-      ? {
-          ...data,
-          percentage: Math.round((data.score_total / 30) * 100),
-        }
-      : null,
+    result: {
+      ...data,
+      categories,
+      percentage,
+      percentiles: await fetchAptitudePercentiles(supabase, createAdminClient(), userId, referenceGroup, {
+        percentage,
+        categories,
+      }),
+    },
   };
 }
 
@@ -2,11 +2,21 @@
 // GET /api/dashboard/psychometric
 // =====================================================
 // Fetch latest psychometric test results
+// ?mode=full|short restricts to one test mode; the result is
+// always labelled with the mode that produced it
 // =====================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
+import { isNormPopulation, NORM_POPULATIONS } from '@/lib/bigFiveNorms';
+import type { NormReferencedResult } from '@/lib/bigFiveNorms';
+import { isValidFormMode } from '@/lib/psychForms';
+import type { PsychFormMode } from '@/lib/psychForms';
+import { fetchNormReferencedScores } from '@/lib/psychNorms';
+import type { ResponseQualityReport } from '@/lib/responseQuality';
+import { confidenceBands } from '@/lib/scoreUncertainty';
+import type { ConfidenceBands, ScoreUncertainty } from '@/lib/scoreUncertainty';
 
 // =====================================================
 // TYPES
@@ -23,6 +33,17 @@ interface PsychometricResponse {
       agreeableness: number;
       neuroticism: number;
     };
+    population: string;
+    // 'short' results are less precise; see uncertainty
+    mode: PsychFormMode;
+    // Per-trait standard error; null for results stored before calibration
+    uncertainty: ScoreUncertainty | null;
+    // 90% interval per trait; compare thresholds against this, not scores
+    confidence: ConfidenceBands;
+    // Percentiles / T-scores; scores above are raw-normalized, not percentiles
+    norms: NormReferencedResult | null;
+    // Careless-responding screen; null for results stored before screening
+    response_quality: ResponseQualityReport | null;
     created_at: string;
   } | null;
   message?: string;
@@ -32,6 +53,7 @@ interface ErrorResponse {
   success: false;
   error: string;
   code: string;
+  details?: string;
 }
 
 // =====================================================
@@ -75,10 +97,43 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const { data: result, error: fetchError } = await supabase
+    // Optional ?population= override; defaults to the result's own population
+    const populationParam = request.nextUrl.searchParams.get('population');
+    if (populationParam !== null && !isNormPopulation(populationParam)) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid population',
+          code: 'INVALID_POPULATION',
+          details: `population must be one of ${NORM_POPULATIONS.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const modeParam = request.nextUrl.searchParams.get('mode');
+    if (modeParam !== null && !isValidFormMode(modeParam)) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid mode',
+          code: 'INVALID_MODE',
+          details: 'mode must be "full" or "short"',
+        },
+        { status: 400 }
+      );
+    }
+
+    let query = supabase
       .from('psych_results')
-      .select('id, scores, created_at')
-      .eq('user_id', user.id)
+      .select('id, scores, population, mode, uncertainty, response_quality, created_at')
+      .eq('user_id', user.id);
+
+    if (modeParam !== null) {
+      query = query.eq('mode', modeParam);
+    }
+
+    const { data: result, error: fetchError } = await query
       .order('created_at', { ascending: false })
       .limit(1)
       .single();
@@ -108,9 +163,22 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const norms = await fetchNormReferencedScores(
+      supabase,
+      result.scores,
+      populationParam ?? result.population
+    );
+
     return NextResponse.json<PsychometricResponse>({
       success: true,
-      result: result,
+      result: {
+        ...result,
+        confidence: confidenceBands(result.scores, result.uncertainty),
+        norms,
+      },
+      ...(result.mode === 'short' && {
+        message: 'Short-form result: scores are less precise than the full test',
+      }),
     });
 
   } catch (error) {
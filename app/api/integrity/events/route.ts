@@ -0,0 +1,231 @@
+// =====================================================
+// POST /api/integrity/events
+// =====================================================
+// Test-integrity telemetry for an open session
+// Body: { sessionType, sessionId, events: [{ type, occurredAt,
+// durationMs? }] } where sessionType is aptitude,
+// aptitude_adaptive or psychometric. Clients batch events (tab
+// hidden, window blur, copy, paste, fullscreen exit, idle gaps) and
+// send them while the session is in progress; they are summarized
+// into the result's integrity score when the session is scored
+// (lib/testIntegrity.ts).
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  INTEGRITY_SESSION_TABLES,
+  isIntegritySessionType,
+  recordIntegrityEvents,
+  requireOpenIntegritySession,
+  validateIntegrityEvents
+} from '@/lib/testIntegrity';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface EventsResponse {
+  success: true;
+  recorded: number;
+  totalForSession: number;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function POST(request: NextRequest) {
+  let userId: string | undefined;
+
+  try {
+    const receivedAt = Date.now();
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // 1. PARSE BODY
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid request body',
+          code: 'INVALID_BODY',
+          details: 'Unable to parse request body',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { sessionType, sessionId, events } = body ?? {};
+
+    if (!isIntegritySessionType(sessionType)) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid request body',
+          code: 'INVALID_BODY',
+          details: `sessionType must be one of ${Object.keys(INTEGRITY_SESSION_TABLES).join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (typeof sessionId !== 'string') {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid request body',
+          code: 'INVALID_BODY',
+          details: 'sessionId is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateIntegrityEvents(events, receivedAt);
+    if (!validation.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: validation.error,
+          code: validation.code,
+          details: validation.details,
+        },
+        { status: 400 }
+      );
+    }
+
+    // 2. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+
+    // Events are server-written only (users cannot clear their log)
+    const admin = createAdminClient();
+
+    // 3. SESSION MUST BE THE USER'S AND STILL OPEN
+    const sessionCheck = await requireOpenIntegritySession(admin, sessionType, sessionId, userId);
+    if (!sessionCheck.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: sessionCheck.error, code: sessionCheck.code },
+        { status: sessionCheck.status }
+      );
+    }
+
+    // 4. STORE
+    const recorded = await recordIntegrityEvents(
+      admin,
+      sessionType,
+      sessionId,
+      userId,
+      validation.events,
+      receivedAt
+    );
+
+    if (!recorded.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: recorded.error, code: recorded.code },
+        { status: recorded.status }
+      );
+    }
+
+    return NextResponse.json<EventsResponse>(
+      {
+        success: true,
+        recorded: recorded.recorded,
+        totalForSession: recorded.total,
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+
+  } catch (error) {
+    console.error('[INTEGRITY_EVENTS_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function GET() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
@@ -0,0 +1,224 @@
+// =====================================================
+// GET /api/psychometric/questions
+// =====================================================
+// Engine 1: Psychometric Question Delivery Endpoint
+// Returns a test form's questions without scoring metadata
+// (trait / polarity never leave the server)
+// ?formId= selects a form; otherwise ?mode=full|short picks that
+// mode's default form (default: full)
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getLikertPoints } from '@/lib/calculateBigFiveScore';
+import type { LikertScalePoints, PsychQuestion } from '@/lib/calculateBigFiveScore';
+import { fetchTestForm, isValidFormMode } from '@/lib/psychForms';
+import { fetchPsychQuestions, orderQuestionsForUser } from '@/lib/psychQuestions';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { FormReference } from '@/lib/psychSubmission';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * scale_points: number of response options to render (answers 1..n)
+ */
+interface DeliveredQuestion {
+  id: string;
+  question_text: string;
+  scale_points: LikertScalePoints;
+}
+
+interface QuestionsResponse {
+  success: true;
+  form: FormReference;
+  total: number;
+  questions: DeliveredQuestion[];
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function GET(request: NextRequest) {
+  let userId: string | undefined;
+
+  try {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // 1. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+
+    // 2. RESOLVE TEST FORM (new attempts only on active forms)
+    const formId = request.nextUrl.searchParams.get('formId') ?? undefined;
+    const mode = request.nextUrl.searchParams.get('mode') ?? undefined;
+
+    if (mode !== undefined && !isValidFormMode(mode)) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid mode',
+          code: 'INVALID_MODE',
+          details: 'mode must be "full" or "short"',
+        },
+        { status: 400 }
+      );
+    }
+
+    const formResult = await fetchTestForm(supabase, formId, { requireActive: true, mode });
+
+    if (!formResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: formResult.error,
+          code: formResult.code,
+          details: formResult.details,
+        },
+        { status: formResult.status }
+      );
+    }
+
+    const form = formResult.form;
+
+    // 3. FETCH AND VALIDATE THE FORM'S QUESTIONS
+    // Same loader as the submit route, so both endpoints always agree
+    // (service role: the bank holds trait and polarity)
+    const questionsResult = await fetchPsychQuestions(createAdminClient(), form);
+
+    if (!questionsResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: questionsResult.error,
+          code: questionsResult.code,
+          details: questionsResult.details,
+        },
+        { status: questionsResult.status }
+      );
+    }
+
+    // 4. SHUFFLE PER USER AND STRIP SCORING METADATA
+    const questions = orderQuestionsForUser(questionsResult.questions, userId).map(
+      toDeliveredQuestion
+    );
+
+    return NextResponse.json<QuestionsResponse>(
+      {
+        success: true,
+        form: { id: form.id, name: form.name, version: form.version, mode: form.mode },
+        total: questions.length,
+        questions,
+      },
+      {
+        status: 200,
+        headers: { 'Cache-Control': 'private, no-store' },
+      }
+    );
+
+  } catch (error) {
+    console.error('[PSYCH_QUESTIONS_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Whitelist the fields a client may see
+ */
+function toDeliveredQuestion(question: PsychQuestion): DeliveredQuestion {
+  return {
+    id: question.id,
+    question_text: question.question_text,
+    scale_points: getLikertPoints(question),
+  };
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function POST() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
@@ -0,0 +1,222 @@
+// =====================================================
+// GET /api/psychometric/report
+// =====================================================
+// Engine 1: Interpretive narrative report for a Big Five result
+// Band per trait, strengths / watch-outs and work-style
+// implications; wording comes from psych_report_content
+// ?resultId= selects a result; defaults to the latest one
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { buildBigFiveReport } from '@/lib/bigFiveReport';
+import type { BigFiveReport } from '@/lib/bigFiveReport';
+import type { PsychFormMode } from '@/lib/psychForms';
+import { fetchNormReferencedScores } from '@/lib/psychNorms';
+import { fetchReportContent } from '@/lib/psychReport';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface ReportResponse {
+  success: true;
+  resultId: string;
+  mode: PsychFormMode;
+  population: string;
+  createdAt: string;
+  report: BigFiveReport;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function GET(request: NextRequest) {
+  let userId: string | undefined;
+
+  try {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // 1. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+
+    // 2. LOAD THE RESULT (own results only; latest by default)
+    const resultId = request.nextUrl.searchParams.get('resultId');
+    if (resultId !== null && !UUID_PATTERN.test(resultId)) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: 'Result not found', code: 'RESULT_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    let query = supabase
+      .from('psych_results')
+      .select('id, scores, population, mode, created_at')
+      .eq('user_id', userId);
+
+    if (resultId !== null) {
+      query = query.eq('id', resultId);
+    }
+
+    const { data: result, error: fetchError } = await query
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'psych_results',
+        error: fetchError.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch results',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!result) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Result not found',
+          code: 'RESULT_NOT_FOUND',
+          details: resultId ? undefined : 'Complete the psychometric test first',
+        },
+        { status: 404 }
+      );
+    }
+
+    // 3. LOAD EDITABLE REPORT CONTENT
+    const contentResult = await fetchReportContent(supabase);
+    if (!contentResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: contentResult.error,
+          code: contentResult.code,
+          details: contentResult.details,
+        },
+        { status: contentResult.status }
+      );
+    }
+
+    // 4. BAND ON PERCENTILES WHEN NORMS EXIST, ELSE ON SCORES
+    const norms = await fetchNormReferencedScores(supabase, result.scores, result.population);
+    const report = buildBigFiveReport(result.scores, norms, contentResult.content);
+
+    return NextResponse.json<ReportResponse>(
+      {
+        success: true,
+        resultId: result.id,
+        mode: result.mode,
+        population: result.population,
+        createdAt: result.created_at,
+        report,
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+
+  } catch (error) {
+    console.error('[PSYCH_REPORT_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function POST() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
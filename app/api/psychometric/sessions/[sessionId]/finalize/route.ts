@@ -0,0 +1,290 @@
+// =====================================================
+// POST /api/psychometric/sessions/[sessionId]/finalize
+// =====================================================
+// Engine 1: Score a completed save-and-resume session
+// Runs the same pipeline as /api/psychometric/submit
+// (validateAnswers -> calculateBigFiveScore -> persist)
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { processPsychSubmission } from '@/lib/psychSubmission';
+import type { PsychSubmissionResult } from '@/lib/psychSubmission';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { fetchOwnedSession, requireOpenSession } from '@/lib/psychSessions';
+import type { PsychSessionStatus, PsychTestSession } from '@/lib/psychSessions';
+import type { ResponseTimings } from '@/lib/responseQuality';
+import { fetchIntegritySummary } from '@/lib/testIntegrity';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface RouteContext {
+  params: Promise<{ sessionId: string }>;
+}
+
+type FinalizeResponse = { success: true; sessionId: string } & Omit<PsychSubmissionResult, 'resultId'>;
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function POST(_request: NextRequest, context: RouteContext) {
+  let userId: string | undefined;
+  let claimedSessionId: string | undefined;
+  let admin: SupabaseClient | undefined;
+
+  try {
+    const { sessionId } = await context.params;
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // 1. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+
+    // 2. LOAD SESSION (OWNERSHIP + EXPIRY; sessions are written by the service role only)
+    admin = createAdminClient();
+    const lookup = await fetchOwnedSession(admin, sessionId, userId);
+    if (!lookup.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: lookup.error, code: lookup.code },
+        { status: lookup.status }
+      );
+    }
+
+    const session = lookup.session;
+
+    const openCheck = requireOpenSession(session);
+    if (!openCheck.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: openCheck.error, code: openCheck.code },
+        { status: openCheck.status }
+      );
+    }
+
+    // 3. CLAIM THE SESSION (prevents double finalize / double results)
+    const claimed = await setSessionStatus(admin, session.id, 'in_progress', 'finalizing');
+    if (!claimed) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Session is being finalized',
+          code: 'SESSION_FINALIZING',
+        },
+        { status: 409 }
+      );
+    }
+
+    claimedSessionId = session.id;
+
+    // 4. VALIDATE, SCORE AND PERSIST (shared with /api/psychometric/submit)
+    const submission = await processPsychSubmission(supabase, admin, userId, {
+      answers: session.answers,
+      population: session.population,
+      timings: buildTimings(session),
+      formId: session.form_id,
+      // The attempt started on this form; finish it even if since retired
+      allowRetiredForm: true,
+      integrity: await fetchIntegritySummary(supabase, 'psychometric', session.id),
+    });
+
+    if (!submission.success) {
+      await setSessionStatus(admin, session.id, 'finalizing', 'in_progress');
+      claimedSessionId = undefined;
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: submission.error,
+          code: submission.code,
+          details: submission.details,
+        },
+        { status: submission.status }
+      );
+    }
+
+    const { resultId, ...scoring } = submission.result;
+
+    // 5. MARK SESSION FINALIZED AND LINK THE RESULT
+    const { error: linkError } = await admin
+      .from('psych_test_sessions')
+      .update({
+        status: 'finalized',
+        result_id: resultId,
+        finalized_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', session.id);
+
+    if (linkError) {
+      // Result is already stored; log and still return the scores
+      console.error('[DB_UPDATE_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'psych_test_sessions',
+        sessionId: session.id,
+        resultId,
+        error: linkError.message,
+      });
+    }
+
+    claimedSessionId = undefined;
+
+    console.log('[SESSION_FINALIZED]', {
+      timestamp: new Date().toISOString(),
+      userId,
+      sessionId: session.id,
+      resultId,
+    });
+
+    return NextResponse.json<FinalizeResponse>({
+      success: true,
+      sessionId: session.id,
+      ...scoring,
+    });
+
+  } catch (error) {
+    console.error('[PSYCH_SESSION_FINALIZE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    // Release the claim so the user can retry
+    if (admin && claimedSessionId) {
+      await setSessionStatus(admin, claimedSessionId, 'finalizing', 'in_progress');
+    }
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Conditional status transition; true if this call made the change
+ */
+async function setSessionStatus(
+  admin: SupabaseClient,
+  sessionId: string,
+  from: PsychSessionStatus,
+  to: PsychSessionStatus
+): Promise<boolean> {
+  const { data, error } = await admin
+    .from('psych_test_sessions')
+    .update({ status: to, updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('status', from)
+    .select('id');
+
+  if (error) {
+    console.error('[DB_UPDATE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'psych_test_sessions',
+      sessionId,
+      from,
+      to,
+      error: error.message,
+    });
+    return false;
+  }
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * Session start + client answer timestamps, if the client sent any
+ */
+function buildTimings(session: PsychTestSession): ResponseTimings | undefined {
+  if (!session.answered_at || Object.keys(session.answered_at).length === 0) {
+    return undefined;
+  }
+
+  return {
+    startedAt: new Date(session.created_at).getTime(),
+    answeredAt: session.answered_at,
+  };
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function GET() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
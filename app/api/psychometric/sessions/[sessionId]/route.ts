@@ -0,0 +1,415 @@
+// =====================================================
+// GET   /api/psychometric/sessions/[sessionId]  -> progress
+// PATCH /api/psychometric/sessions/[sessionId]  -> save answers
+// =====================================================
+// Engine 1: Save-and-resume session progress
+// PATCH merges partial answers; a later answer for the same
+// question overwrites the earlier one
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import type { UserAnswers } from '@/lib/calculateBigFiveScore';
+import { fetchTestForm } from '@/lib/psychForms';
+import { fetchPsychQuestions } from '@/lib/psychQuestions';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { validateAnswerValues } from '@/lib/psychSubmission';
+import {
+  fetchOwnedSession,
+  requireOpenSession,
+  SESSION_COLUMNS,
+  toSessionProgress
+} from '@/lib/psychSessions';
+import type { PsychSessionProgress, PsychTestSession } from '@/lib/psychSessions';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface RouteContext {
+  params: Promise<{ sessionId: string }>;
+}
+
+interface PatchRequestBody {
+  answers: UserAnswers;
+  answeredAt: Record<string, number>;
+}
+
+interface SessionResponse {
+  success: true;
+  session: PsychSessionProgress;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+// =====================================================
+// GET: PROGRESS
+// =====================================================
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  let userId: string | undefined;
+
+  try {
+    const { sessionId } = await context.params;
+    const supabase = await createSupabase();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+    const admin = createAdminClient();
+
+    const lookup = await fetchOwnedSession(admin, sessionId, userId);
+    if (!lookup.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: lookup.error, code: lookup.code },
+        { status: lookup.status }
+      );
+    }
+
+    // Session's own form, even if it has been retired since
+    const formResult = await fetchTestForm(supabase, lookup.session.form_id);
+    if (!formResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: formResult.error,
+          code: formResult.code,
+          details: formResult.details,
+        },
+        { status: formResult.status }
+      );
+    }
+
+    return NextResponse.json<SessionResponse>(
+      {
+        success: true,
+        session: toSessionProgress(lookup.session, formResult.form),
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+
+  } catch (error) {
+    console.error('[PSYCH_SESSION_PROGRESS_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// PATCH: SAVE PARTIAL ANSWERS
+// =====================================================
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  let userId: string | undefined;
+
+  try {
+    const { sessionId } = await context.params;
+    const supabase = await createSupabase();
+
+    // 1. PARSE AND VALIDATE REQUEST BODY
+    const body = await parsePatchBody(request);
+    if (!body.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: body.error,
+          code: body.code,
+          details: body.details,
+        },
+        { status: 400 }
+      );
+    }
+
+    // 2. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+    const admin = createAdminClient();
+
+    // 3. LOAD SESSION (OWNERSHIP + EXPIRY)
+    const lookup = await fetchOwnedSession(admin, sessionId, userId);
+    if (!lookup.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: lookup.error, code: lookup.code },
+        { status: lookup.status }
+      );
+    }
+
+    const session = lookup.session;
+
+    const openCheck = requireOpenSession(session);
+    if (!openCheck.success) {
+      return NextResponse.json<ErrorResponse>(
+        { success: false, error: openCheck.error, code: openCheck.code },
+        { status: openCheck.status }
+      );
+    }
+
+    // 4. VALIDATE VALUES AND IDS AGAINST THE SESSION'S FORM
+    const formResult = await fetchTestForm(supabase, session.form_id);
+    if (!formResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: formResult.error,
+          code: formResult.code,
+          details: formResult.details,
+        },
+        { status: formResult.status }
+      );
+    }
+
+    const questionsResult = await fetchPsychQuestions(admin, formResult.form);
+    if (!questionsResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: questionsResult.error,
+          code: questionsResult.code,
+          details: questionsResult.details,
+        },
+        { status: questionsResult.status }
+      );
+    }
+
+    const validationResult = validateAnswerValues(
+      body.data.answers,
+      questionsResult.questions
+    );
+    if (!validationResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: validationResult.error,
+          code: validationResult.code,
+          details: validationResult.details,
+        },
+        { status: 400 }
+      );
+    }
+
+    // 5. MERGE AND SAVE (optimistic lock on updated_at)
+    const { data: updated, error: updateError } = await admin
+      .from('psych_test_sessions')
+      .update({
+        answers: { ...session.answers, ...body.data.answers },
+        answered_at: { ...session.answered_at, ...body.data.answeredAt },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', session.id)
+      .eq('status', 'in_progress')
+      .eq('updated_at', session.updated_at)
+      .select(SESSION_COLUMNS)
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('[DB_UPDATE_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'psych_test_sessions',
+        sessionId: session.id,
+        error: updateError.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to save answers',
+          code: 'DB_UPDATE_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!updated) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Session was modified concurrently',
+          code: 'SESSION_CONFLICT',
+          details: 'Reload progress and retry',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json<SessionResponse>({
+      success: true,
+      session: toSessionProgress(updated as PsychTestSession, formResult.form),
+    });
+
+  } catch (error) {
+    console.error('[PSYCH_SESSION_SAVE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+async function createSupabase() {
+  const cookieStore = await cookies();
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          cookieStore.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          cookieStore.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+}
+
+/**
+ * Parse PATCH body: { answers: {...}, answeredAt?: {...} }
+ */
+async function parsePatchBody(
+  request: NextRequest
+): Promise<
+  | { success: true; data: PatchRequestBody }
+  | { success: false; error: string; code: string; details?: string }
+> {
+  try {
+    const body = await request.json();
+
+    if (!body.answers || typeof body.answers !== 'object' || Array.isArray(body.answers)) {
+      return {
+        success: false,
+        error: 'Invalid request body',
+        code: 'INVALID_BODY',
+        details: 'answers field is required and must be an object',
+      };
+    }
+
+    if (Object.keys(body.answers).length === 0) {
+      return {
+        success: false,
+        error: 'Invalid request body',
+        code: 'INVALID_BODY',
+        details: 'answers object cannot be empty',
+      };
+    }
+
+    const answeredAt = body.answeredAt ?? {};
+    const validTimestamps =
+      typeof answeredAt === 'object' &&
+      !Array.isArray(answeredAt) &&
+      Object.entries(answeredAt).every(
+        ([id, value]) =>
+          id in body.answers && typeof value === 'number' && Number.isFinite(value)
+      );
+
+    if (!validTimestamps) {
+      return {
+        success: false,
+        error: 'Invalid request body',
+        code: 'INVALID_BODY',
+        details: 'answeredAt must map answered question ids to epoch-ms numbers',
+      };
+    }
+
+    return {
+      success: true,
+      data: { answers: body.answers, answeredAt },
+    };
+
+  } catch {
+    return {
+      success: false,
+      error: 'Invalid JSON payload',
+      code: 'INVALID_JSON',
+      details: 'Unable to parse request body',
+    };
+  }
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function POST() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
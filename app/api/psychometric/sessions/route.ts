@@ -0,0 +1,300 @@
+// =====================================================
+// POST /api/psychometric/sessions
+// =====================================================
+// Engine 1: Create (or resume) a save-and-resume test session
+// Returns the user's open session on the same form if one exists,
+// so a client can always call this on load
+// =====================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { DEFAULT_NORM_POPULATION, isNormPopulation, NORM_POPULATIONS } from '@/lib/bigFiveNorms';
+import { fetchTestForm, isValidFormId, isValidFormMode } from '@/lib/psychForms';
+import type { PsychFormMode } from '@/lib/psychForms';
+import {
+  SESSION_COLUMNS,
+  sessionExpiryFromNow,
+  toSessionProgress
+} from '@/lib/psychSessions';
+import type { PsychSessionProgress, PsychTestSession } from '@/lib/psychSessions';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface SessionResponse {
+  success: true;
+  resumed: boolean;
+  session: PsychSessionProgress;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: string;
+}
+
+// =====================================================
+// MAIN HANDLER
+// =====================================================
+
+export async function POST(request: NextRequest) {
+  let userId: string | undefined;
+
+  try {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set(name, value, options);
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set(name, '', { ...options, maxAge: 0 });
+          },
+        },
+      }
+    );
+
+    // 1. PARSE OPTIONAL BODY ({ population?, formId?, mode? })
+    const body = await parseCreateBody(request);
+    if (!body.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Invalid request body',
+          code: 'INVALID_BODY',
+          details: body.details,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { population } = body;
+
+    // 2. AUTHENTICATE USER
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Unauthorized: Valid session required',
+          code: 'UNAUTHORIZED',
+        },
+        { status: 401 }
+      );
+    }
+
+    userId = user.id;
+
+    // 3. RESOLVE TEST FORM (new attempts only on active forms)
+    const formResult = await fetchTestForm(supabase, body.formId, {
+      requireActive: true,
+      mode: body.mode,
+    });
+    if (!formResult.success) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: formResult.error,
+          code: formResult.code,
+          details: formResult.details,
+        },
+        { status: formResult.status }
+      );
+    }
+
+    const form = formResult.form;
+
+    // 4. RESUME AN OPEN, UNEXPIRED SESSION ON THIS FORM IF ONE EXISTS
+    // (sessions are written by the service role only)
+    const admin = createAdminClient();
+    const { data: existing, error: fetchError } = await admin
+      .from('psych_test_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('user_id', userId)
+      .eq('form_id', form.id)
+      .eq('status', 'in_progress')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'psych_test_sessions',
+        error: fetchError.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to fetch session',
+          code: 'DB_FETCH_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    if (existing) {
+      return NextResponse.json<SessionResponse>({
+        success: true,
+        resumed: true,
+        session: toSessionProgress(existing as PsychTestSession, form),
+      });
+    }
+
+    // 5. CREATE A NEW SESSION
+    const { data: created, error: insertError } = await admin
+      .from('psych_test_sessions')
+      .insert({
+        user_id: userId,
+        form_id: form.id,
+        population,
+        expires_at: sessionExpiryFromNow(),
+      })
+      .select(SESSION_COLUMNS)
+      .single();
+
+    if (insertError || !created) {
+      console.error('[DB_INSERT_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'psych_test_sessions',
+        error: insertError?.message,
+      });
+
+      return NextResponse.json<ErrorResponse>(
+        {
+          success: false,
+          error: 'Failed to create session',
+          code: 'DB_INSERT_FAILED',
+        },
+        { status: 500 }
+      );
+    }
+
+    console.log('[PSYCH_SESSION_CREATED]', {
+      timestamp: new Date().toISOString(),
+      userId,
+      sessionId: created.id,
+    });
+
+    return NextResponse.json<SessionResponse>(
+      {
+        success: true,
+        resumed: false,
+        session: toSessionProgress(created as PsychTestSession, form),
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('[PSYCH_SESSION_CREATE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: userId || 'unknown',
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json<ErrorResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Read the optional body; an empty body means default population and form
+ */
+async function parseCreateBody(
+  request: NextRequest
+): Promise<
+  | { success: true; population: string; formId?: string; mode?: PsychFormMode }
+  | { success: false; details: string }
+> {
+  const text = await request.text();
+  if (!text.trim()) {
+    return { success: true, population: DEFAULT_NORM_POPULATION };
+  }
+
+  let body;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return { success: false, details: 'Unable to parse request body' };
+  }
+
+  const population = body?.population ?? DEFAULT_NORM_POPULATION;
+  if (typeof population !== 'string' || !isNormPopulation(population)) {
+    return {
+      success: false,
+      details: `population must be one of ${NORM_POPULATIONS.join(', ')}`,
+    };
+  }
+
+  const formId = body?.formId;
+  if (formId !== undefined && (typeof formId !== 'string' || !isValidFormId(formId))) {
+    return { success: false, details: 'formId must be a test form id' };
+  }
+
+  const mode = body?.mode;
+  if (mode !== undefined && (typeof mode !== 'string' || !isValidFormMode(mode))) {
+    return { success: false, details: 'mode must be "full" or "short"' };
+  }
+
+  return { success: true, population, formId, mode };
+}
+
+// =====================================================
+// METHOD GUARDS
+// =====================================================
+
+export async function GET() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PUT() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function DELETE() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
+
+export async function PATCH() {
+  return NextResponse.json<ErrorResponse>(
+    { success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' },
+    { status: 405 }
+  );
+}
@@ -24,45 +24,20 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { calculateBigFiveScore } from '@/lib/calculateBigFiveScore';
-import type { 
-  BigFiveScoreResult, 
-  BigFiveTrait,
-  PsychQuestion, 
-  UserAnswers 
-} from '@/lib/calculateBigFiveScore';
+import type { UserAnswers } from '@/lib/calculateBigFiveScore';
+import { DEFAULT_NORM_POPULATION, isNormPopulation, NORM_POPULATIONS } from '@/lib/bigFiveNorms';
+import { isValidFormId, isValidFormMode } from '@/lib/psychForms';
+import type { PsychFormMode } from '@/lib/psychForms';
+import { parseResponseTimings } from '@/lib/responseQuality';
+import type { ResponseTimings } from '@/lib/responseQuality';
+import { processPsychSubmission } from '@/lib/psychSubmission';
+import type { PsychSubmissionResult } from '@/lib/psychSubmission';
+import { createAdminClient } from '@/lib/supabase/admin';
 
 // =====================================================
 // CONSTANTS - SOLVO Specification
 // =====================================================
 
-/**
- * ARCHITECTURAL DECISION: 50-Question Standard
- * 
- * SOLVO uses exactly 50 psychometric questions (10 per Big Five trait).
- * This ensures:
- * - Reliable psychometric validity
- * - Consistent normalization (trait scores 0-100)
- * - Deterministic radar chart rendering
- * 
- * Enforcing strict count prevents:
- * - Incomplete test submissions
- * - Database corruption from partial imports
- * - Client-side manipulation
- */
-const REQUIRED_QUESTION_COUNT = 50;
-const REQUIRED_ANSWER_COUNT = 50;
-
-const VALID_TRAITS: BigFiveTrait[] = [
-  'openness',
-  'conscientiousness',
-  'extraversion',
-  'agreeableness',
-  'neuroticism'
-];
-
-const VALID_POLARITIES = [1, -1] as const;
-
 /**
  * Idempotency window: prevent duplicate submissions within 60 seconds
  */
@@ -74,12 +49,17 @@ const IDEMPOTENCY_WINDOW_SECONDS = 60;
 
 interface SubmitRequestBody {
   answers: UserAnswers;
+  population: string;
+  timings?: ResponseTimings;
+  formId?: string;
+  mode?: PsychFormMode;
 }
 
-interface SubmitResponse {
-  success: true;
-  radarData: BigFiveScoreResult;
-}
+/**
+ * See PsychSubmissionResult: radarData is raw-normalized (0-100),
+ * norms carries the percentiles / T-scores
+ */
+type SubmitResponse = { success: true } & Omit<PsychSubmissionResult, 'resultId'>;
 
 /**
  * Consistent error response format
@@ -95,13 +75,6 @@ interface ErrorResponse {
   details?: string;
 }
 
-interface DatabasePsychQuestion {
-  id: string;
-  trait: string;
-  polarity: number;
-  question_text: string;
-}
-
 // =====================================================
 // RATE LIMITING ABSTRACTION
 // =====================================================
@@ -235,7 +208,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { answers } = body.data;
+    const { answers, population, timings, formId, mode } = body.data;
 
     // 2. AUTHENTICATE USER
     const authResult = await authenticateUser(supabase);
@@ -311,126 +284,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 5. FETCH AND VALIDATE PSYCHOMETRIC QUESTIONS
-    const questionsResult = await fetchPsychQuestions(supabase);
-    
-    if (!questionsResult.success) {
-      return NextResponse.json<ErrorResponse>(
-        { 
-          success: false,
-          error: questionsResult.error,
-          code: questionsResult.code,
-          details: questionsResult.details 
-        },
-        { status: questionsResult.status }
-      );
-    }
-
-    const questions = questionsResult.questions;
-
-    // 6. VALIDATE ANSWER COUNT (SPEC: exactly 50)
-    const answerCount = Object.keys(answers).length;
-    if (answerCount !== REQUIRED_ANSWER_COUNT) {
-      return NextResponse.json<ErrorResponse>(
-        { 
-          success: false,
-          error: 'Invalid answer count',
-          code: 'INVALID_ANSWER_COUNT',
-          details: `Expected exactly ${REQUIRED_ANSWER_COUNT} answers, received ${answerCount}`
-        },
-        { status: 400 }
-      );
-    }
-
-    // 7. VALIDATE ANSWERS AGAINST QUESTIONS
-    const validationResult = validateAnswers(answers, questions);
-    
-    if (!validationResult.success) {
-      return NextResponse.json<ErrorResponse>(
-        { 
-          success: false,
-          error: validationResult.error,
-          code: validationResult.code,
-          details: validationResult.details 
-        },
-        { status: 400 }
-      );
-    }
-
-    // 8. CALCULATE BIG FIVE SCORES
-    let radarData: BigFiveScoreResult;
-    
-    try {
-      radarData = calculateBigFiveScore(answers, questions);
-    } catch (error) {
-      console.error('[SCORE_CALCULATION_ERROR]', {
-        timestamp: new Date().toISOString(),
-        userId,
-        error: error instanceof Error ? error.message : String(error)
-      });
-
-      return NextResponse.json<ErrorResponse>(
-        { 
-          success: false,
-          error: 'Failed to calculate scores',
-          code: 'CALCULATION_FAILED'
-        },
-        { status: 500 }
-      );
-    }
-
-    // 9. VALIDATE OUTPUT DETERMINISM
-    const outputValidation = validateScoreOutput(radarData);
-    if (!outputValidation.success) {
-      console.error('[OUTPUT_VALIDATION_ERROR]', {
-        timestamp: new Date().toISOString(),
-        userId,
-        validationError: outputValidation.error
-      });
+    // 5. VALIDATE, SCORE AND PERSIST (shared with session finalize)
+    const submission = await processPsychSubmission(supabase, createAdminClient(), userId, {
+      answers,
+      population,
+      timings,
+      formId,
+      mode
+    });
 
+    if (!submission.success) {
       return NextResponse.json<ErrorResponse>(
         { 
           success: false,
-          error: 'Invalid score output',
-          code: 'INVALID_OUTPUT'
+          error: submission.error,
+          code: submission.code,
+          details: submission.details 
         },
-        { status: 500 }
+        { status: submission.status }
       );
     }
 
-    // 10. PERSIST RESULTS TO DATABASE
-    /**
-     * ARCHITECTURAL DECISION: Multiple Submissions Allowed
-     * 
-     * Users can retake the test to track personality changes over time.
-     * Each submission creates a new record (no overwrite).
-     * Enables longitudinal analysis and progress tracking.
-     */
-    const persistResult = await persistResults(supabase, userId, radarData);
-    
-    if (!persistResult.success) {
-      return NextResponse.json<ErrorResponse>(
-        { 
-          success: false,
-          error: persistResult.error,
-          code: persistResult.code
-        },
-        { status: 500 }
-      );
-    }
+    const { resultId, ...scoring } = submission.result;
 
-    // 11. SUCCESS LOGGING
+    // 6. SUCCESS LOGGING
     console.log('[SUBMISSION_SUCCESS]', {
       timestamp: new Date().toISOString(),
       userId,
-      resultId: persistResult.resultId
+      resultId
     });
 
-    // 12. RETURN SUCCESS RESPONSE
+    // 7. RETURN SUCCESS RESPONSE
     return NextResponse.json<SubmitResponse>(
       {
         success: true,
-        radarData
+        ...scoring
       },
       { status: 200 }
     );
@@ -498,9 +386,61 @@ async function parseRequestBody(
       };
     }
 
+    if (
+      body.population !== undefined &&
+      (typeof body.population !== 'string' || !isNormPopulation(body.population))
+    ) {
+      return {
+        success: false,
+        error: 'Invalid request body',
+        code: 'INVALID_BODY',
+        details: `population must be one of ${NORM_POPULATIONS.join(', ')}`
+      };
+    }
+
+    if (
+      body.formId !== undefined &&
+      (typeof body.formId !== 'string' || !isValidFormId(body.formId))
+    ) {
+      return {
+        success: false,
+        error: 'Invalid request body',
+        code: 'INVALID_BODY',
+        details: 'formId must be a test form id'
+      };
+    }
+
+    if (
+      body.mode !== undefined &&
+      (typeof body.mode !== 'string' || !isValidFormMode(body.mode))
+    ) {
+      return {
+        success: false,
+        error: 'Invalid request body',
+        code: 'INVALID_BODY',
+        details: 'mode must be "full" or "short"'
+      };
+    }
+
+    const timings = parseResponseTimings(body.timings);
+    if (timings === false) {
+      return {
+        success: false,
+        error: 'Invalid request body',
+        code: 'INVALID_BODY',
+        details: 'timings must be { startedAt?: number, answeredAt: { [questionId]: number } } with epoch-ms values'
+      };
+    }
+
     return {
       success: true,
-      data: { answers: body.answers }
+      data: {
+        answers: body.answers,
+        population: body.population ?? DEFAULT_NORM_POPULATION,
+        timings,
+        formId: body.formId,
+        mode: body.mode
+      }
     };
 
   } catch (error) {
@@ -541,356 +481,6 @@ async function authenticateUser(
   };
 }
 
-/**
- * Fetch and validate psychometric questions from database
- * 
- * STRICT VALIDATION:
- * - Enforces exactly 50 questions (SOLVO spec)
- * - Validates each question's integrity (id, trait, polarity)
- * - Filters soft-deleted questions (schema has deleted_at column)
- */
-async function fetchPsychQuestions(
-  supabase: SupabaseClient
-): Promise<
-  | { success: true; questions: PsychQuestion[] }
-  | { success: false; error: string; code: string; details?: string; status: number }
-> {
-  const { data, error } = await supabase
-    .from('psych_questions')
-    .select('id, trait, polarity, question_text')
-    .is('deleted_at', null); // Filter soft-deleted (schema compliance)
-
-  if (error) {
-    console.error('[DB_FETCH_ERROR]', {
-      timestamp: new Date().toISOString(),
-      table: 'psych_questions',
-      error: error.message
-    });
-
-    return {
-      success: false,
-      error: 'Failed to fetch questions',
-      code: 'DB_FETCH_FAILED',
-      status: 500
-    };
-  }
-
-  if (!data || data.length === 0) {
-    console.error('[NO_QUESTIONS_AVAILABLE]', {
-      timestamp: new Date().toISOString()
-    });
-
-    return {
-      success: false,
-      error: 'Service temporarily unavailable',
-      code: 'NO_QUESTIONS',
-      details: 'Database contains no active psychometric questions',
-      status: 503
-    };
-  }
-
-  // SPEC ENFORCEMENT: Exactly 50 questions required
-  if (data.length !== REQUIRED_QUESTION_COUNT) {
-    console.error('[QUESTION_COUNT_MISMATCH]', {
-      timestamp: new Date().toISOString(),
-      expected: REQUIRED_QUESTION_COUNT,
-      actual: data.length
-    });
-
-    return {
-      success: false,
-      error: 'Service temporarily unavailable',
-      code: 'INVALID_QUESTION_COUNT',
-      details: `Expected ${REQUIRED_QUESTION_COUNT} questions, found ${data.length}`,
-      status: 503
-    };
-  }
-
-  // STRICT INTEGRITY CHECK: Validate each question
-  const questions: PsychQuestion[] = [];
-  
-  for (const q of data as DatabasePsychQuestion[]) {
-    // Validate ID exists
-    if (!q.id || typeof q.id !== 'string') {
-      console.error('[QUESTION_INTEGRITY_ERROR]', {
-        timestamp: new Date().toISOString(),
-        issue: 'missing_id',
-        questionId: q.id
-      });
-
-      return {
-        success: false,
-        error: 'Service temporarily unavailable',
-        code: 'DB_INTEGRITY_ERROR',
-        details: 'Question found with invalid or missing id',
-        status: 503
-      };
-    }
-
-    // Validate trait is valid Big Five trait
-    if (!VALID_TRAITS.includes(q.trait as BigFiveTrait)) {
-      console.error('[QUESTION_INTEGRITY_ERROR]', {
-        timestamp: new Date().toISOString(),
-        issue: 'invalid_trait',
-        questionId: q.id,
-        trait: q.trait
-      });
-
-      return {
-        success: false,
-        error: 'Service temporarily unavailable',
-        code: 'DB_INTEGRITY_ERROR',
-        details: 'Invalid trait found in question database',
-        status: 503
-      };
-    }
-
-    // Validate polarity is +1 or -1
-    if (!VALID_POLARITIES.includes(q.polarity as 1 | -1)) {
-      console.error('[QUESTION_INTEGRITY_ERROR]', {
-        timestamp: new Date().toISOString(),
-        issue: 'invalid_polarity',
-        questionId: q.id,
-        polarity: q.polarity
-      });
-
-      return {
-        success: false,
-        error: 'Service temporarily unavailable',
-        code: 'DB_INTEGRITY_ERROR',
-        details: 'Invalid polarity found in question database',
-        status: 503
-      };
-    }
-
-    // Validate question_text exists
-    if (!q.question_text || typeof q.question_text !== 'string') {
-      console.error('[QUESTION_INTEGRITY_ERROR]', {
-        timestamp: new Date().toISOString(),
-        issue: 'missing_question_text',
-        questionId: q.id
-      });
-
-      return {
-        success: false,
-        error: 'Service temporarily unavailable',
-        code: 'DB_INTEGRITY_ERROR',
-        details: 'Question missing text content',
-        status: 503
-      };
-    }
-
-    questions.push({
-      id: q.id,
-      trait: q.trait as BigFiveTrait,
-      polarity: q.polarity as 1 | -1,
-      question_text: q.question_text
-    });
-  }
-
-  return {
-    success: true,
-    questions
-  };
-}
-
-/**
- * Validate user answers
- * 
- * STRICT VALIDATION:
- * - All answer values must be integers 1-5
- * - Answer IDs must exactly match question IDs (no extra, no missing)
- * - Rejects unknown question IDs (prevents client manipulation)
- */
-function validateAnswers(
-  answers: UserAnswers,
-  questions: PsychQuestion[]
-): 
-  | { success: true }
-  | { success: false; error: string; code: string; details?: string }
-{
-  const questionIds = new Set(questions.map(q => q.id));
-  const answerIds = new Set(Object.keys(answers));
-
-  // CHECK 1: Validate all answer values are valid (1-5 integers)
-  for (const [questionId, answer] of Object.entries(answers)) {
-    if (!Number.isInteger(answer)) {
-      return {
-        success: false,
-        error: 'Invalid answer value',
-        code: 'INVALID_ANSWER_VALUE',
-        details: `Answer for question ${questionId} must be an integer`
-      };
-    }
-
-    if (answer < 1 || answer > 5) {
-      return {
-        success: false,
-        error: 'Invalid answer value',
-        code: 'INVALID_ANSWER_RANGE',
-        details: `Answer for question ${questionId} must be between 1 and 5`
-      };
-    }
-  }
-
-  // CHECK 2: Detect unknown question IDs (client manipulation attempt)
-  const unknownIds = [...answerIds].filter(id => !questionIds.has(id));
-  if (unknownIds.length > 0) {
-    return {
-      success: false,
-      error: 'Unknown question IDs detected',
-      code: 'UNKNOWN_QUESTION_IDS',
-      details: `Found ${unknownIds.length} answer(s) for non-existent questions`
-    };
-  }
-
-  // CHECK 3: Detect missing answers
-  const missingIds = [...questionIds].filter(id => !answerIds.has(id));
-  if (missingIds.length > 0) {
-    return {
-      success: false,
-      error: 'Incomplete answers',
-      code: 'INCOMPLETE_ANSWERS',
-      details: `Missing answers for ${missingIds.length} question(s)`
-    };
-  }
-
-  // CHECK 4: Ensure exact match (no extra, no missing)
-  if (answerIds.size !== questionIds.size) {
-    return {
-      success: false,
-      error: 'Answer count mismatch',
-      code: 'ANSWER_COUNT_MISMATCH',
-      details: `Expected ${questionIds.size} answers, received ${answerIds.size}`
-    };
-  }
-
-  return { success: true };
-}
-
-/**
- * Validate score output determinism
- * 
- * DETERMINISTIC GUARANTEES:
- * - Output always contains exactly 5 traits
- * - All values are numbers between 0-100 (inclusive)
- * - Prevents corrupted output from reaching database
- */
-function validateScoreOutput(
-  scores: BigFiveScoreResult
-): 
-  | { success: true }
-  | { success: false; error: string }
-{
-  if (!scores || typeof scores !== 'object') {
-    return { success: false, error: 'Score output is not an object' };
-  }
-
-  // Validate all 5 traits are present
-  for (const trait of VALID_TRAITS) {
-    if (!(trait in scores)) {
-      return { success: false, error: `Missing trait: ${trait}` };
-    }
-
-    const value = scores[trait];
-
-    // Validate value is a number
-    if (typeof value !== 'number' || !Number.isFinite(value)) {
-      return { success: false, error: `Invalid value for ${trait}` };
-    }
-
-    // Validate range 0-100
-    if (value < 0 || value > 100) {
-      return { success: false, error: `Value for ${trait} out of range` };
-    }
-  }
-
-  // Validate no extra properties
-  const scoreKeys = Object.keys(scores);
-  if (scoreKeys.length !== 5) {
-    return { success: false, error: `Expected 5 traits, found ${scoreKeys.length}` };
-  }
-
-  return { success: true };
-}
-
-/**
- * Persist psychometric results to database with hardened error handling
- * 
- * TRANSACTION SAFETY:
- * - Uses .select('id').single() to verify insert succeeded
- * - Returns result ID for audit trail
- * - Fails explicitly if record not created
- */
-async function persistResults(
-  supabase: SupabaseClient,
-  userId: string,
-  scores: BigFiveScoreResult
-): Promise<
-  | { success: true; resultId: string }
-  | { success: false; error: string; code: string }
-> {
-  try {
-    const { data, error } = await supabase
-      .from('psych_results')
-      .insert({
-        user_id: userId,
-        scores: scores
-      })
-      .select('id')
-      .single();
-
-    if (error) {
-      console.error('[DB_INSERT_ERROR]', {
-        timestamp: new Date().toISOString(),
-        userId,
-        table: 'psych_results',
-        error: error.message
-      });
-
-      return {
-        success: false,
-        error: 'Failed to save results',
-        code: 'DB_INSERT_FAILED'
-      };
-    }
-
-    // Verify record was created
-    if (!data || !data.id) {
-      console.error('[DB_INSERT_VERIFICATION_FAILED]', {
-        timestamp: new Date().toISOString(),
-        userId,
-        table: 'psych_results',
-        returnedData: data
-      });
-
-      return {
-        success: false,
-        error: 'Failed to verify saved results',
-        code: 'DB_VERIFICATION_FAILED'
-      };
-    }
-
-    return {
-      success: true,
-      resultId: data.id
-    };
-
-  } catch (error) {
-    console.error('[DB_TRANSACTION_ERROR]', {
-      timestamp: new Date().toISOString(),
-      userId,
-      error: error instanceof Error ? error.message : String(error)
-    });
-
-    return {
-      success: false,
-      error: 'Failed to save results',
-      code: 'DB_TRANSACTION_FAILED'
-    };
-  }
-}
-
 // =====================================================
 // METHOD GUARDS
 // =====================================================
@@ -10,6 +10,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchAptitudeCategories, toCategoryScores } from '@/lib/aptitudeCategories';
+import type { AptitudeCategoryDefinition, CategoryScore } from '@/lib/aptitudeCategories';
+import { confidenceBands, isConfidentlyAbove } from '@/lib/scoreUncertainty';
+import type { ConfidenceBands } from '@/lib/scoreUncertainty';
 
 // =====================================================
 // TYPES
@@ -207,38 +211,58 @@ async function fetchUserScores(
   supabase: SupabaseClient,
   userId: string
 ): Promise<{
-  psychScores: Record<string, number> | null;
-  aptitudeBreakdown: Record<string, number> | null;
+  psychBands: ConfidenceBands | null;
+  aptitudeScores: CategoryScore[] | null;
+  aptitudeCategories: AptitudeCategoryDefinition[];
 }> {
   // Fetch latest psychometric result
   const { data: psychResult } = await supabase
     .from('psych_results')
-    .select('scores')
+    .select('scores, uncertainty')
     .eq('user_id', userId)
     .order('created_at', { ascending: false })
     .limit(1)
     .single();
 
-  // Fetch latest aptitude result
-  const { data: aptitudeResult } = await supabase
-    .from('aptitude_submissions')
-    .select('breakdown')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .single();
+  // Fetch latest aptitude result and the category definitions
+  // (official results only: practice attempts are stored separately)
+  const [{ data: aptitudeResult }, categoriesResult] = await Promise.all([
+    supabase
+      .from('aptitude_submissions')
+      .select('breakdown, max_breakdown')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single(),
+    fetchAptitudeCategories(supabase),
+  ]);
+
+  const aptitudeCategories = categoriesResult.success ? categoriesResult.categories : [];
 
   return {
-    psychScores: psychResult?.scores || null,
-    aptitudeBreakdown: aptitudeResult?.breakdown || null,
+    psychBands: psychResult?.scores
+      ? confidenceBands(psychResult.scores, psychResult.uncertainty)
+      : null,
+    aptitudeScores: aptitudeResult?.breakdown
+      ? toCategoryScores(aptitudeResult.breakdown, aptitudeResult.max_breakdown, aptitudeCategories)
+      : null,
+    aptitudeCategories,
   };
 }
 
+/**
+ * Aptitude inputs are per-category percentages, so the rules hold
+ * whatever the blueprint size; a rule naming a category that is not
+ * in the result simply does not fire
+ */
 function generateRoadmap(scores: {
-  psychScores: Record<string, number> | null;
-  aptitudeBreakdown: Record<string, number> | null;
+  psychBands: ConfidenceBands | null;
+  aptitudeScores: CategoryScore[] | null;
+  aptitudeCategories: AptitudeCategoryDefinition[];
 }) {
-  const { psychScores, aptitudeBreakdown } = scores;
+  const { psychBands, aptitudeScores, aptitudeCategories } = scores;
+  const aptitudePercentage = (category: string) =>
+    aptitudeScores?.find(score => score.category === category)?.percentage ?? 0;
 
   // Default career paths — will be personalized based on scores
   let careerPaths: CareerPath[] = [
@@ -263,44 +287,47 @@ function generateRoadmap(scores: {
   ];
 
   // Personalise based on psychometric scores
-  if (psychScores) {
-    const openness         = psychScores.openness         || 0;
-    const conscientiousness = psychScores.conscientiousness || 0;
-    const extraversion     = psychScores.extraversion      || 0;
-    const agreeableness    = psychScores.agreeableness     || 0;
+  // Thresholds apply to the 90% interval: a trait counts as high only
+  // when its whole interval clears the cutoff, not on the point score
+  if (psychBands) {
+    const { openness, conscientiousness, extraversion, agreeableness } = psychBands;
 
     // High openness + high numerical → Data Science
-    if (openness > 70 && (aptitudeBreakdown?.numerical || 0) > 7) {
+    if (isConfidentlyAbove(openness, 70) && aptitudePercentage('numerical') > 70) {
       careerPaths[1].title = 'Data Scientist';
-      careerPaths[1].match_percentage = Math.min(95, 70 + Math.round(openness / 10));
+      careerPaths[1].match_percentage = Math.min(95, 70 + Math.round(openness.score / 10));
       careerPaths[1].description = 'Use advanced analytics and ML to solve complex problems';
     }
 
     // High extraversion + high agreeableness → Management
-    if (extraversion > 70 && agreeableness > 65) {
-      careerPaths[2].match_percentage = Math.min(95, 65 + Math.round(extraversion / 10));
+    if (isConfidentlyAbove(extraversion, 70) && isConfidentlyAbove(agreeableness, 65)) {
+      careerPaths[2].match_percentage = Math.min(95, 65 + Math.round(extraversion.score / 10));
     }
 
     // High conscientiousness → Engineering
-    if (conscientiousness > 70) {
-      careerPaths[0].match_percentage = Math.min(98, 80 + Math.round(conscientiousness / 10));
+    if (isConfidentlyAbove(conscientiousness, 70)) {
+      careerPaths[0].match_percentage = Math.min(98, 80 + Math.round(conscientiousness.score / 10));
     }
   }
 
   // Sort by match percentage
   careerPaths = careerPaths.sort((a, b) => b.match_percentage - a.match_percentage);
 
-  // Build recommended skills based on aptitude
+  // Build recommended skills based on aptitude: each category below
+  // 60% contributes its recommended_skills from aptitude_categories
   const recommendedSkills: string[] = [];
-  if (aptitudeBreakdown) {
-    if ((aptitudeBreakdown.numerical || 0) < 6) {
-      recommendedSkills.push('Quantitative Reasoning', 'Mathematics', 'Statistics');
-    }
-    if ((aptitudeBreakdown.verbal || 0) < 6) {
-      recommendedSkills.push('Communication Skills', 'Business Writing', 'Presentation Skills');
-    }
-    if ((aptitudeBreakdown.creative || 0) < 6) {
-      recommendedSkills.push('Creative Thinking', 'Problem Solving', 'Design Thinking');
+  if (aptitudeScores) {
+    for (const score of aptitudeScores) {
+      if (score.percentage >= 60) {
+        continue;
+      }
+
+      const definition = aptitudeCategories.find(category => category.slug === score.category);
+      for (const skill of definition?.recommendedSkills ?? []) {
+        if (!recommendedSkills.includes(skill)) {
+          recommendedSkills.push(skill);
+        }
+      }
     }
   }
 
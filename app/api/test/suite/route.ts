@@ -8,6 +8,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { fetchAptitudeCategories } from '@/lib/aptitudeCategories';
 
 interface TestResult {
   test: string;
@@ -46,11 +49,17 @@ export async function GET(request: NextRequest) {
     // TEST 2: Check Database Tables Exist
     results.push(await testDatabaseTables(supabase));
 
-    // TEST 3: Check Psychometric Questions
-    results.push(await testPsychometricQuestions(supabase));
+    // TEST 3: Check Psychometric Questions (service role: clients cannot read the table)
+    results.push(await testPsychometricQuestions(createAdminClient()));
 
-    // TEST 4: Check Aptitude Questions
-    results.push(await testAptitudeQuestions(supabase));
+    // TEST 4: Check Aptitude Questions (service role: clients cannot read the table)
+    results.push(await testAptitudeQuestions(createAdminClient()));
+
+    // TEST 4b: Check the aptitude answer key is hidden from clients
+    results.push(await testAnswerKeyHidden(supabase));
+
+    // TEST 4c: Check psychometric scoring metadata is hidden from clients
+    results.push(await testScoringMetadataHidden(supabase));
 
     // TEST 5: Check Profile
     results.push(await testProfile(supabase));
@@ -107,6 +116,7 @@ async function testDatabaseTables(supabase: any): Promise<TestResult> {
       'profiles',
       'psych_questions',
       'psych_results',
+      'test_forms',
       'aptitude_questions',
       'aptitude_submissions',
     ];
@@ -140,9 +150,28 @@ async function testDatabaseTables(supabase: any): Promise<TestResult> {
 
 async function testPsychometricQuestions(supabase: any): Promise<TestResult> {
   try {
+    // The default full-mode form defines how many questions are expected
+    const { data: form, error: formError } = await supabase
+      .from('test_forms')
+      .select('id, name, version, question_ids, required_count, blueprint')
+      .eq('mode', 'full')
+      .eq('is_default', true)
+      .maybeSingle();
+
+    if (formError || !form) {
+      return {
+        test: 'Psychometric Questions',
+        status: 'FAIL',
+        message: 'No default psychometric test form',
+        error: formError?.message,
+      };
+    }
+
     const { data, error } = await supabase
       .from('psych_questions')
       .select('id, trait, polarity')
+      .in('id', form.question_ids || [])
+      .is('deleted_at', null)
       .order('id');
 
     if (error) {
@@ -155,7 +184,7 @@ async function testPsychometricQuestions(supabase: any): Promise<TestResult> {
     }
 
     const count = data?.length || 0;
-    const expected = 50;
+    const expected = form.required_count;
 
     // Count questions per trait
     const traitCounts: Record<string, number> = {};
@@ -163,11 +192,15 @@ async function testPsychometricQuestions(supabase: any): Promise<TestResult> {
       traitCounts[q.trait] = (traitCounts[q.trait] || 0) + 1;
     });
 
+    const matchesBlueprint = Object.entries(form.blueprint || {}).every(
+      ([trait, n]) => traitCounts[trait] === n
+    );
+
     return {
       test: 'Psychometric Questions',
-      status: count === expected ? 'PASS' : 'FAIL',
-      message: `Found ${count}/${expected} questions`,
-      data: { total: count, byTrait: traitCounts },
+      status: count === expected && matchesBlueprint ? 'PASS' : 'FAIL',
+      message: `Found ${count}/${expected} questions for ${form.name} v${form.version}`,
+      data: { total: count, byTrait: traitCounts, blueprint: form.blueprint },
     };
   } catch (error) {
     return {
@@ -179,11 +212,64 @@ async function testPsychometricQuestions(supabase: any): Promise<TestResult> {
   }
 }
 
+async function testAnswerKeyHidden(supabase: SupabaseClient): Promise<TestResult> {
+  try {
+    const { data, error } = await supabase
+      .from('aptitude_questions')
+      .select('id, correct_answer')
+      .limit(1);
+
+    const hidden = Boolean(error) || (data?.length || 0) === 0;
+
+    return {
+      test: 'Aptitude Answer Key Hidden',
+      status: hidden ? 'PASS' : 'FAIL',
+      message: hidden
+        ? 'aptitude_questions is not readable with the user session'
+        : 'aptitude_questions (including correct_answer) is readable by clients',
+    };
+  } catch (error) {
+    return {
+      test: 'Aptitude Answer Key Hidden',
+      status: 'FAIL',
+      message: 'Error checking aptitude answer key access',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+async function testScoringMetadataHidden(supabase: SupabaseClient): Promise<TestResult> {
+  try {
+    const { data, error } = await supabase
+      .from('psych_questions')
+      .select('id, trait, polarity')
+      .limit(1);
+
+    const hidden = Boolean(error) || (data?.length || 0) === 0;
+
+    return {
+      test: 'Psychometric Scoring Metadata Hidden',
+      status: hidden ? 'PASS' : 'FAIL',
+      message: hidden
+        ? 'psych_questions is not readable with the user session'
+        : 'psych_questions (including trait and polarity) is readable by clients',
+    };
+  } catch (error) {
+    return {
+      test: 'Psychometric Scoring Metadata Hidden',
+      status: 'FAIL',
+      message: 'Error checking psychometric scoring metadata access',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
 async function testAptitudeQuestions(supabase: any): Promise<TestResult> {
   try {
     const { data, error } = await supabase
       .from('aptitude_questions')
       .select('id, category')
+      .eq('pool', 'official')
       .order('id');
 
     if (error) {
@@ -196,7 +282,6 @@ async function testAptitudeQuestions(supabase: any): Promise<TestResult> {
     }
 
     const count = data?.length || 0;
-    const expected = 30;
 
     // Count questions per category
     const categoryCounts: Record<string, number> = {};
@@ -204,11 +289,33 @@ async function testAptitudeQuestions(supabase: any): Promise<TestResult> {
       categoryCounts[q.category] = (categoryCounts[q.category] || 0) + 1;
     });
 
+    // The bank must fill one attempt's blueprint
+    const categoriesResult = await fetchAptitudeCategories(supabase);
+    if (!categoriesResult.success) {
+      return {
+        test: 'Aptitude Questions',
+        status: 'FAIL',
+        message: 'Failed to fetch aptitude categories',
+        error: categoriesResult.details || categoriesResult.error,
+      };
+    }
+
+    const blueprint: Record<string, number> = {};
+    for (const category of categoriesResult.categories) {
+      blueprint[category.slug] = category.itemsPerAttempt;
+    }
+
+    const short = categoriesResult.categories.filter(
+      (category) => (categoryCounts[category.slug] || 0) < category.itemsPerAttempt
+    );
+
     return {
       test: 'Aptitude Questions',
-      status: count === expected ? 'PASS' : 'FAIL',
-      message: `Found ${count}/${expected} questions`,
-      data: { total: count, byCategory: categoryCounts },
+      status: short.length === 0 ? 'PASS' : 'FAIL',
+      message: short.length === 0
+        ? `Found ${count} questions; blueprint can be filled`
+        : `Not enough questions for ${short.map((category) => category.slug).join(', ')}`,
+      data: { total: count, byCategory: categoryCounts, blueprint },
     };
   } catch (error) {
     return {
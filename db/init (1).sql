@@ -30,12 +30,11 @@ CREATE POLICY "profiles_update_own"
 -- RLS POLICIES: psych_questions
 -- =====================================================
 
-DROP POLICY IF EXISTS "psych_questions_select_authenticated" ON public.psych_questions;
+-- No client policies: rows hold trait, facet and polarity.
+-- Read only with the service role; clients get questions from
+-- GET /api/psychometric/questions (see migration 024).
 
-CREATE POLICY "psych_questions_select_authenticated"
-  ON public.psych_questions FOR SELECT
-  TO authenticated
-  USING (auth.uid() IS NOT NULL);
+DROP POLICY IF EXISTS "psych_questions_select_authenticated" ON public.psych_questions;
 
 
 -- =====================================================
@@ -60,18 +59,20 @@ CREATE POLICY "psych_results_insert_own"
 -- RLS POLICIES: aptitude_questions
 -- =====================================================
 
-DROP POLICY IF EXISTS "aptitude_questions_select_authenticated" ON public.aptitude_questions;
+-- No client policies: rows hold the answer key (correct_answer).
+-- Read only with the service role; clients get questions from
+-- GET /api/aptitude/questions (see migration 013).
 
-CREATE POLICY "aptitude_questions_select_authenticated"
-  ON public.aptitude_questions FOR SELECT
-  TO authenticated
-  USING (auth.uid() IS NOT NULL);
+DROP POLICY IF EXISTS "aptitude_questions_select_authenticated" ON public.aptitude_questions;
 
 
 -- =====================================================
 -- RLS POLICIES: aptitude_submissions
 -- =====================================================
 
+-- Read-only for users: results are scored and inserted server-side
+-- with the service role (see migration 012).
+
 DROP POLICY IF EXISTS "aptitude_submissions_select_own" ON public.aptitude_submissions;
 DROP POLICY IF EXISTS "aptitude_submissions_insert_own" ON public.aptitude_submissions;
 
@@ -80,11 +81,6 @@ CREATE POLICY "aptitude_submissions_select_own"
   TO authenticated
   USING (auth.uid() = user_id);
 
-CREATE POLICY "aptitude_submissions_insert_own"
-  ON public.aptitude_submissions FOR INSERT
-  TO authenticated
-  WITH CHECK (auth.uid() = user_id);
-
 
 -- =====================================================
 -- RLS POLICIES: orders
@@ -0,0 +1,115 @@
+-- =====================================================
+-- SOLVO Migration 001: Big Five facets
+-- =====================================================
+-- Adds an optional facet tag to psych_questions (IPIP-NEO,
+-- 6 facets per trait) and stores facet scores with results.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER seed_psych_questions.sql
+-- =====================================================
+
+ALTER TABLE public.psych_questions
+  ADD COLUMN IF NOT EXISTS facet TEXT;
+
+ALTER TABLE public.psych_questions
+  DROP CONSTRAINT IF EXISTS psych_questions_facet_check;
+
+ALTER TABLE public.psych_questions
+  ADD CONSTRAINT psych_questions_facet_check CHECK (
+    facet IS NULL OR facet IN (
+      -- openness
+      'imagination', 'artistic_interests', 'emotionality',
+      'adventurousness', 'intellect', 'liberalism',
+      -- conscientiousness
+      'self_efficacy', 'orderliness', 'dutifulness',
+      'achievement_striving', 'self_discipline', 'cautiousness',
+      -- extraversion
+      'friendliness', 'gregariousness', 'assertiveness',
+      'activity_level', 'excitement_seeking', 'cheerfulness',
+      -- agreeableness
+      'trust', 'morality', 'altruism',
+      'cooperation', 'modesty', 'sympathy',
+      -- neuroticism
+      'anxiety', 'anger', 'depression',
+      'self_consciousness', 'immoderation', 'vulnerability'
+    )
+  );
+
+ALTER TABLE public.psych_results
+  ADD COLUMN IF NOT EXISTS facet_scores JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- =====================================================
+-- Tag the seeded 50-question bank
+-- =====================================================
+
+UPDATE public.psych_questions AS q
+SET facet = v.facet
+FROM (VALUES
+  -- OPENNESS
+  ('I have a vivid imagination.',                                  'imagination'),
+  ('I am interested in abstract ideas.',                           'intellect'),
+  ('I enjoy experiencing new and different things.',               'adventurousness'),
+  ('I enjoy thinking about complex problems.',                     'intellect'),
+  ('I find beauty in things others might not notice.',             'artistic_interests'),
+  ('I enjoy reading challenging books and articles.',              'intellect'),
+  ('I do not enjoy going to art museums.',                         'artistic_interests'),
+  ('I tend to avoid philosophical discussions.',                   'intellect'),
+  ('I find it difficult to understand abstract ideas.',            'intellect'),
+  ('I prefer routine over trying new experiences.',                'adventurousness'),
+
+  -- CONSCIENTIOUSNESS
+  ('I am always prepared before starting a task.',                 'self_efficacy'),
+  ('I pay attention to details.',                                  'orderliness'),
+  ('I follow a schedule and stick to it.',                         'orderliness'),
+  ('I get chores done right away.',                                'self_discipline'),
+  ('I am careful to avoid making mistakes.',                       'cautiousness'),
+  ('I work hard to achieve my goals.',                             'achievement_striving'),
+  ('I often forget to put things back in their proper place.',     'orderliness'),
+  ('I find it difficult to stay organized.',                       'orderliness'),
+  ('I often leave tasks unfinished.',                              'self_discipline'),
+  ('I waste a lot of time before settling down to work.',          'self_discipline'),
+
+  -- EXTRAVERSION
+  ('I feel comfortable around people.',                            'friendliness'),
+  ('I start conversations easily.',                                'friendliness'),
+  ('I enjoy being the center of attention.',                       'assertiveness'),
+  ('I feel energized after spending time with a group of people.', 'gregariousness'),
+  ('I am talkative and expressive.',                               'assertiveness'),
+  ('I enjoy going to social events and parties.',                  'gregariousness'),
+  ('I prefer to spend time alone rather than with others.',        'gregariousness'),
+  ('I find it hard to approach and talk to strangers.',            'friendliness'),
+  ('I keep in the background in social situations.',               'assertiveness'),
+  ('I feel drained after social interactions.',                    'gregariousness'),
+
+  -- AGREEABLENESS
+  ('I am interested in people and their feelings.',                'sympathy'),
+  ('I sympathize with others feelings.',                           'sympathy'),
+  ('I take time out for others.',                                  'altruism'),
+  ('I feel others emotions as if they were my own.',               'sympathy'),
+  ('I make people feel at ease.',                                  'altruism'),
+  ('I am always willing to help others.',                          'altruism'),
+  ('I am not really interested in others problems.',               'sympathy'),
+  ('I insult people.',                                             'cooperation'),
+  ('I am indifferent to the feelings of others.',                  'sympathy'),
+  ('I believe people should look after themselves.',               'altruism'),
+
+  -- NEUROTICISM
+  ('I get stressed out easily.',                                   'vulnerability'),
+  ('I am easily disturbed by things around me.',                   'anxiety'),
+  ('I get upset easily when things do not go as planned.',         'anger'),
+  ('I worry about things more than I should.',                     'anxiety'),
+  ('I frequently feel sad or down.',                               'depression'),
+  ('I experience mood swings regularly.',                          'anger'),
+  ('I am relaxed and handle stress well.',                         'vulnerability'),
+  ('I rarely feel anxious or nervous.',                            'anxiety'),
+  ('I am emotionally stable and not easily upset.',                'vulnerability'),
+  ('I seldom feel blue or depressed.',                             'depression')
+) AS v(question_text, facet)
+WHERE q.question_text = v.question_text;
+
+-- =====================================================
+-- VERIFY: Should return 0 untagged questions
+-- =====================================================
+SELECT COUNT(*) AS untagged_questions
+FROM public.psych_questions
+WHERE facet IS NULL
+  AND deleted_at IS NULL;
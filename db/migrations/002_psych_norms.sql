@@ -0,0 +1,58 @@
+-- =====================================================
+-- SOLVO Migration 002: Big Five norm tables
+-- =====================================================
+-- psych_norms holds mean/SD per population + trait on the
+-- normalized 0-100 scale. Rebuilt from psych_results via
+-- POST /api/admin/psychometric/norms.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 001_psych_facets.sql
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.psych_norms (
+  population   TEXT        NOT NULL,
+  trait        TEXT        NOT NULL CHECK (trait IN (
+                 'openness', 'conscientiousness', 'extraversion',
+                 'agreeableness', 'neuroticism'
+               )),
+  mean         NUMERIC     NOT NULL,
+  sd           NUMERIC     NOT NULL CHECK (sd > 0),
+  sample_size  INTEGER     NOT NULL DEFAULT 0,
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (population, trait)
+);
+
+-- Population the result is normed against (e.g. 'general', 'age:18-24')
+ALTER TABLE public.psych_results
+  ADD COLUMN IF NOT EXISTS population TEXT NOT NULL DEFAULT 'general';
+
+CREATE INDEX IF NOT EXISTS psych_results_population_idx
+  ON public.psych_results (population);
+
+-- =====================================================
+-- RLS POLICIES: psych_norms
+-- =====================================================
+-- Read-only for signed-in users; writes go through the service role
+
+ALTER TABLE public.psych_norms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "psych_norms_select_authenticated" ON public.psych_norms;
+
+CREATE POLICY "psych_norms_select_authenticated"
+  ON public.psych_norms FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+-- =====================================================
+-- Bootstrap 'general' norms until enough results exist
+-- =====================================================
+-- Typical published item means/SDs on a 1-5 scale, converted
+-- to 0-100: mean = (m - 1) / 4 * 100, sd = s / 4 * 100.
+-- sample_size 0 marks them as literature defaults.
+
+INSERT INTO public.psych_norms (population, trait, mean, sd, sample_size) VALUES
+  ('general', 'openness',          72.5, 15.0, 0),
+  ('general', 'conscientiousness', 62.5, 17.5, 0),
+  ('general', 'extraversion',      55.0, 20.0, 0),
+  ('general', 'agreeableness',     70.0, 15.0, 0),
+  ('general', 'neuroticism',       47.5, 20.0, 0)
+ON CONFLICT (population, trait) DO NOTHING;
@@ -0,0 +1,16 @@
+-- =====================================================
+-- SOLVO Migration 003: Response quality screening
+-- =====================================================
+-- Stores the careless-responding report (longstring,
+-- inconsistency index, response time) with each result.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 002_psych_norms.sql
+-- =====================================================
+
+ALTER TABLE public.psych_results
+  ADD COLUMN IF NOT EXISTS response_quality JSONB;
+
+-- Fast lookup of flagged results for follow-up
+CREATE INDEX IF NOT EXISTS psych_results_quality_flagged_idx
+  ON public.psych_results ((response_quality ->> 'recommendRetake'))
+  WHERE response_quality IS NOT NULL;
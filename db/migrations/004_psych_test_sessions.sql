@@ -0,0 +1,48 @@
+-- =====================================================
+-- SOLVO Migration 004: Save-and-resume test sessions
+-- =====================================================
+-- One row per attempt at the psychometric test. Answers are
+-- saved incrementally and scored on finalize, which links the
+-- resulting psych_results row.
+--
+-- Session rows are written only by the service role (the session
+-- routes), so users can read their own sessions but never extend
+-- expires_at, reopen a finalized session or rewrite answered_at.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 003_psych_response_quality.sql
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.psych_test_sessions (
+  id            UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       UUID        NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  status        TEXT        NOT NULL DEFAULT 'in_progress' CHECK (status IN (
+                  'in_progress', 'finalizing', 'finalized', 'expired'
+                )),
+  answers       JSONB       NOT NULL DEFAULT '{}'::jsonb,
+  answered_at   JSONB       NOT NULL DEFAULT '{}'::jsonb,
+  population    TEXT        NOT NULL DEFAULT 'general',
+  expires_at    TIMESTAMPTZ NOT NULL,
+  finalized_at  TIMESTAMPTZ,
+  result_id     UUID        REFERENCES public.psych_results (id) ON DELETE SET NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS psych_test_sessions_user_status_idx
+  ON public.psych_test_sessions (user_id, status, created_at DESC);
+
+-- =====================================================
+-- RLS POLICIES: read-only for users
+-- =====================================================
+
+ALTER TABLE public.psych_test_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "psych_test_sessions_select_own" ON public.psych_test_sessions;
+
+CREATE POLICY "psych_test_sessions_select_own"
+  ON public.psych_test_sessions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Belt and braces: no write privileges for client roles either
+REVOKE INSERT, UPDATE, DELETE ON public.psych_test_sessions FROM anon, authenticated;
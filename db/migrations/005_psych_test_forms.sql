@@ -0,0 +1,97 @@
+-- =====================================================
+-- SOLVO Migration 005: Versioned psychometric test forms
+-- =====================================================
+-- A test form is a named, versioned list of psych_questions
+-- ids with its required count and per-trait blueprint.
+-- Results and sessions record the form that produced them.
+-- Revise items by inserting a new version, switching
+-- is_default, and setting is_active = false on the old one.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 004_psych_test_sessions.sql
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.test_forms (
+  id              UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name            TEXT        NOT NULL,
+  version         INTEGER     NOT NULL CHECK (version > 0),
+  question_ids    UUID[]      NOT NULL,
+  required_count  INTEGER     NOT NULL CHECK (required_count > 0),
+  -- { "openness": 10, "conscientiousness": 10, ... }
+  blueprint       JSONB       NOT NULL,
+  is_active       BOOLEAN     NOT NULL DEFAULT true,
+  is_default      BOOLEAN     NOT NULL DEFAULT false,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (name, version),
+  CHECK (cardinality(question_ids) = required_count),
+  CHECK (NOT is_default OR is_active)
+);
+
+-- At most one default form
+CREATE UNIQUE INDEX IF NOT EXISTS test_forms_single_default_idx
+  ON public.test_forms (is_default)
+  WHERE is_default;
+
+-- =====================================================
+-- RLS POLICIES: test_forms (read-only for users)
+-- =====================================================
+
+ALTER TABLE public.test_forms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "test_forms_select_authenticated" ON public.test_forms;
+
+CREATE POLICY "test_forms_select_authenticated"
+  ON public.test_forms FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+-- =====================================================
+-- Seed v1 from the current 50-item bank
+-- =====================================================
+
+INSERT INTO public.test_forms (name, version, question_ids, required_count, blueprint, is_default)
+SELECT
+  'solvo-big5',
+  1,
+  array_agg(id ORDER BY id),
+  COUNT(*)::INTEGER,
+  '{"openness": 10, "conscientiousness": 10, "extraversion": 10, "agreeableness": 10, "neuroticism": 10}'::jsonb,
+  true
+FROM public.psych_questions
+WHERE deleted_at IS NULL
+ON CONFLICT (name, version) DO NOTHING;
+
+-- =====================================================
+-- Link results and sessions to the form they used
+-- =====================================================
+
+ALTER TABLE public.psych_results
+  ADD COLUMN IF NOT EXISTS form_id UUID REFERENCES public.test_forms (id),
+  ADD COLUMN IF NOT EXISTS form_version INTEGER;
+
+UPDATE public.psych_results r
+SET form_id = f.id, form_version = f.version
+FROM public.test_forms f
+WHERE f.name = 'solvo-big5' AND f.version = 1
+  AND r.form_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS psych_results_form_idx
+  ON public.psych_results (form_id);
+
+ALTER TABLE public.psych_test_sessions
+  ADD COLUMN IF NOT EXISTS form_id UUID REFERENCES public.test_forms (id);
+
+UPDATE public.psych_test_sessions s
+SET form_id = f.id
+FROM public.test_forms f
+WHERE f.name = 'solvo-big5' AND f.version = 1
+  AND s.form_id IS NULL;
+
+ALTER TABLE public.psych_test_sessions
+  ALTER COLUMN form_id SET NOT NULL;
+
+-- =====================================================
+-- VERIFY: Should return 1 row with required_count = 50
+-- =====================================================
+SELECT name, version, required_count, is_default
+FROM public.test_forms
+WHERE is_default;
@@ -0,0 +1,129 @@
+-- =====================================================
+-- SOLVO Migration 006: Short-form psychometric mode
+-- =====================================================
+-- Adds a mode ('full' | 'short') and per-trait reliability to
+-- test_forms, one default form per mode, and two short forms
+-- drawn from the existing bank:
+--   solvo-big5-mini   20 items (Mini-IPIP style, 4 per trait)
+--   solvo-big5-bfi10  10 items (BFI-10 style, 2 per trait)
+-- Results record their mode and a per-trait standard error.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 005_psych_test_forms.sql
+-- =====================================================
+
+ALTER TABLE public.test_forms
+  ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'full'
+    CHECK (mode IN ('full', 'short')),
+  ADD COLUMN IF NOT EXISTS reliability JSONB;
+
+-- Full form: typical alphas of 10-item IPIP Big Five scales
+UPDATE public.test_forms
+SET reliability = '{"openness": 0.82, "conscientiousness": 0.85, "extraversion": 0.87, "agreeableness": 0.80, "neuroticism": 0.86}'::jsonb
+WHERE name = 'solvo-big5' AND reliability IS NULL;
+
+ALTER TABLE public.test_forms
+  ALTER COLUMN reliability SET NOT NULL;
+
+-- One default form per mode (replaces the single-default index)
+DROP INDEX IF EXISTS public.test_forms_single_default_idx;
+
+CREATE UNIQUE INDEX IF NOT EXISTS test_forms_default_per_mode_idx
+  ON public.test_forms (mode)
+  WHERE is_default;
+
+-- =====================================================
+-- Short forms
+-- =====================================================
+
+-- Mini-IPIP style: 2 positively + 2 negatively keyed items per trait.
+-- Reliabilities from Donnellan et al. (2006), Mini-IPIP alphas.
+INSERT INTO public.test_forms
+  (name, version, mode, question_ids, required_count, blueprint, reliability, is_default)
+SELECT
+  'solvo-big5-mini',
+  1,
+  'short',
+  array_agg(q.id ORDER BY q.id),
+  COUNT(*)::INTEGER,
+  '{"openness": 4, "conscientiousness": 4, "extraversion": 4, "agreeableness": 4, "neuroticism": 4}'::jsonb,
+  '{"openness": 0.70, "conscientiousness": 0.69, "extraversion": 0.77, "agreeableness": 0.70, "neuroticism": 0.68}'::jsonb,
+  true
+FROM public.psych_questions q
+WHERE q.deleted_at IS NULL
+  AND q.question_text IN (
+    -- OPENNESS
+    'I have a vivid imagination.',
+    'I am interested in abstract ideas.',
+    'I find it difficult to understand abstract ideas.',
+    'I prefer routine over trying new experiences.',
+    -- CONSCIENTIOUSNESS
+    'I get chores done right away.',
+    'I follow a schedule and stick to it.',
+    'I often forget to put things back in their proper place.',
+    'I find it difficult to stay organized.',
+    -- EXTRAVERSION
+    'I enjoy being the center of attention.',
+    'I am talkative and expressive.',
+    'I keep in the background in social situations.',
+    'I prefer to spend time alone rather than with others.',
+    -- AGREEABLENESS
+    'I sympathize with others feelings.',
+    'I feel others emotions as if they were my own.',
+    'I am not really interested in others problems.',
+    'I am indifferent to the feelings of others.',
+    -- NEUROTICISM
+    'I experience mood swings regularly.',
+    'I get upset easily when things do not go as planned.',
+    'I am relaxed and handle stress well.',
+    'I seldom feel blue or depressed.'
+  )
+ON CONFLICT (name, version) DO NOTHING;
+
+-- BFI-10 style: 1 positively + 1 negatively keyed item per trait.
+-- Two-item scales have no meaningful alpha; these are the BFI-10
+-- test-retest reliabilities (Rammstedt & John, 2007).
+INSERT INTO public.test_forms
+  (name, version, mode, question_ids, required_count, blueprint, reliability, is_default)
+SELECT
+  'solvo-big5-bfi10',
+  1,
+  'short',
+  array_agg(q.id ORDER BY q.id),
+  COUNT(*)::INTEGER,
+  '{"openness": 2, "conscientiousness": 2, "extraversion": 2, "agreeableness": 2, "neuroticism": 2}'::jsonb,
+  '{"openness": 0.58, "conscientiousness": 0.76, "extraversion": 0.84, "agreeableness": 0.58, "neuroticism": 0.74}'::jsonb,
+  false
+FROM public.psych_questions q
+WHERE q.deleted_at IS NULL
+  AND q.question_text IN (
+    'I have a vivid imagination.',
+    'I do not enjoy going to art museums.',
+    'I get chores done right away.',
+    'I waste a lot of time before settling down to work.',
+    'I am talkative and expressive.',
+    'I keep in the background in social situations.',
+    'I make people feel at ease.',
+    'I insult people.',
+    'I get stressed out easily.',
+    'I am relaxed and handle stress well.'
+  )
+ON CONFLICT (name, version) DO NOTHING;
+
+-- =====================================================
+-- Label results with their mode and uncertainty
+-- =====================================================
+
+ALTER TABLE public.psych_results
+  ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'full'
+    CHECK (mode IN ('full', 'short')),
+  ADD COLUMN IF NOT EXISTS uncertainty JSONB;
+
+CREATE INDEX IF NOT EXISTS psych_results_user_mode_idx
+  ON public.psych_results (user_id, mode, created_at DESC);
+
+-- =====================================================
+-- VERIFY: full = 50, mini = 20, bfi10 = 10
+-- =====================================================
+SELECT name, version, mode, required_count, cardinality(question_ids) AS items, is_default
+FROM public.test_forms
+ORDER BY mode, name;
@@ -0,0 +1,18 @@
+-- =====================================================
+-- SOLVO Migration 007: Retain raw psychometric answers
+-- =====================================================
+-- psych_results.answers keeps the submitted 1-5 answers
+-- ({ question_id: value }) so item statistics can be computed
+-- via GET /api/admin/psychometric/items. Results stored before
+-- this migration have NULL answers and are skipped.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 006_psych_short_forms.sql
+-- =====================================================
+
+ALTER TABLE public.psych_results
+  ADD COLUMN IF NOT EXISTS answers JSONB;
+
+-- Item statistics page through one form's results at a time
+CREATE INDEX IF NOT EXISTS psych_results_form_created_idx
+  ON public.psych_results (form_id, created_at)
+  WHERE answers IS NOT NULL;
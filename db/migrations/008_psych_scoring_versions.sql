@@ -0,0 +1,48 @@
+-- =====================================================
+-- SOLVO Migration 008: Scoring versions and rescoring
+-- =====================================================
+-- psych_results.scoring_version records which version of
+-- calculateBigFiveScore (SCORING_VERSION) produced its scores.
+-- POST /api/admin/psychometric/rescore replays stored answers
+-- through the current version and writes psych_result_scores
+-- rows; the original psych_results scores are never changed.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 007_psych_raw_answers.sql
+-- =====================================================
+
+-- Every result so far was scored by version 1
+ALTER TABLE public.psych_results
+  ADD COLUMN IF NOT EXISTS scoring_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS psych_results_scoring_version_idx
+  ON public.psych_results (scoring_version, created_at)
+  WHERE answers IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.psych_result_scores (
+  id               UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  result_id        UUID        NOT NULL REFERENCES public.psych_results (id) ON DELETE CASCADE,
+  user_id          UUID        NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  scoring_version  INTEGER     NOT NULL,
+  scores           JSONB       NOT NULL,
+  facet_scores     JSONB       NOT NULL DEFAULT '{}'::jsonb,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (result_id, scoring_version)
+);
+
+CREATE INDEX IF NOT EXISTS psych_result_scores_user_idx
+  ON public.psych_result_scores (user_id, scoring_version);
+
+-- =====================================================
+-- RLS POLICIES: psych_result_scores
+-- =====================================================
+-- Users read their own rescored rows; only the service role
+-- (rescoring job) writes.
+
+ALTER TABLE public.psych_result_scores ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "psych_result_scores_select_own" ON public.psych_result_scores;
+
+CREATE POLICY "psych_result_scores_select_own"
+  ON public.psych_result_scores FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,20 @@
+-- =====================================================
+-- SOLVO Migration 009: Configurable Likert scale width
+-- =====================================================
+-- test_forms.scale_points sets the number of response options
+-- (5 or 7) for the form's questions; psych_questions.scale_points
+-- overrides it for a single item. Reverse keying, normalization
+-- and answer validation all follow the resolved width.
+-- Existing forms and items stay 5-point.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 008_psych_scoring_versions.sql
+-- =====================================================
+
+ALTER TABLE public.test_forms
+  ADD COLUMN IF NOT EXISTS scale_points INTEGER NOT NULL DEFAULT 5
+    CHECK (scale_points IN (5, 7));
+
+-- NULL = use the form's scale_points
+ALTER TABLE public.psych_questions
+  ADD COLUMN IF NOT EXISTS scale_points INTEGER
+    CHECK (scale_points IS NULL OR scale_points IN (5, 7));
@@ -0,0 +1,134 @@
+-- =====================================================
+-- SOLVO Migration 010: Interpretive report content
+-- =====================================================
+-- Wording for GET /api/psychometric/report, one row per
+-- trait + band. Edit rows here (or in the Supabase table
+-- editor) to change the report; no code change or deploy
+-- is needed. Every trait must have all three bands.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 009_likert_scale_width.sql
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.psych_report_content (
+  trait       TEXT        NOT NULL CHECK (trait IN (
+                'openness', 'conscientiousness', 'extraversion',
+                'agreeableness', 'neuroticism'
+              )),
+  band        TEXT        NOT NULL CHECK (band IN ('low', 'average', 'high')),
+  summary     TEXT        NOT NULL,
+  strengths   TEXT        NOT NULL DEFAULT '',
+  watch_outs  TEXT        NOT NULL DEFAULT '',
+  work_style  TEXT[]      NOT NULL DEFAULT '{}',
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (trait, band)
+);
+
+-- =====================================================
+-- RLS POLICIES: psych_report_content (read-only for users)
+-- =====================================================
+
+ALTER TABLE public.psych_report_content ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "psych_report_content_select_authenticated" ON public.psych_report_content;
+
+CREATE POLICY "psych_report_content_select_authenticated"
+  ON public.psych_report_content FOR SELECT
+  TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+-- =====================================================
+-- Initial content
+-- =====================================================
+
+INSERT INTO public.psych_report_content (trait, band, summary, strengths, watch_outs, work_style) VALUES
+  -- OPENNESS
+  ('openness', 'low',
+   'You prefer the familiar and practical over the abstract.',
+   'You are grounded and realistic, and you value methods that are proven to work.',
+   'You may resist new tools or ideas before giving them a fair trial.',
+   ARRAY['Thrives with clear, established procedures', 'Prefers concrete, hands-on tasks']),
+  ('openness', 'average',
+   'You balance curiosity with a practical streak.',
+   'You can explore new ideas while keeping an eye on what is workable.',
+   'You may need a clear reason before investing effort in unfamiliar approaches.',
+   ARRAY['Comfortable mixing routine work with occasional new challenges']),
+  ('openness', 'high',
+   'You are curious, imaginative and drawn to new ideas.',
+   'You learn quickly, enjoy complex problems and bring fresh perspectives.',
+   'You may lose interest in routine work or chase too many ideas at once.',
+   ARRAY['Thrives in research, design or problem-solving roles', 'Needs variety and room to experiment']),
+
+  -- CONSCIENTIOUSNESS
+  ('conscientiousness', 'low',
+   'You are flexible and spontaneous rather than planned.',
+   'You adapt easily when plans change and are comfortable improvising.',
+   'Deadlines, details and follow-through may slip without outside structure.',
+   ARRAY['Benefits from checklists, reminders and short feedback loops', 'Suits fast-changing environments']),
+  ('conscientiousness', 'average',
+   'You are reasonably organised without being rigid.',
+   'You can plan ahead and still adjust when priorities shift.',
+   'Under heavy load, less important tasks may be left unfinished.',
+   ARRAY['Works well with moderate structure and clear priorities']),
+  ('conscientiousness', 'high',
+   'You are organised, dependable and goal-driven.',
+   'You plan carefully, meet commitments and pay attention to detail.',
+   'You may be hard on yourself or struggle when plans change suddenly.',
+   ARRAY['Trusted with ownership of deadlines and quality', 'Prefers clear goals and measurable progress']),
+
+  -- EXTRAVERSION
+  ('extraversion', 'low',
+   'You are reserved and recharge through time on your own.',
+   'You concentrate well, listen carefully and think before you speak.',
+   'Your ideas may go unheard in loud meetings; networking may feel draining.',
+   ARRAY['Thrives in focused, independent work', 'Prefers written or one-to-one communication']),
+  ('extraversion', 'average',
+   'You are comfortable both with people and on your own.',
+   'You can collaborate actively and also work independently when needed.',
+   'Long stretches of either constant meetings or isolation may wear you down.',
+   ARRAY['Suits roles that mix teamwork and solo work']),
+  ('extraversion', 'high',
+   'You are sociable, energetic and assertive.',
+   'You build relationships easily, speak up and energise a group.',
+   'You may find solitary, repetitive work draining or talk before listening.',
+   ARRAY['Thrives in client-facing, team or leadership roles', 'Energised by collaboration and visibility']),
+
+  -- AGREEABLENESS
+  ('agreeableness', 'low',
+   'You are direct, sceptical and competitive.',
+   'You challenge weak ideas, negotiate firmly and make tough calls.',
+   'Others may experience you as blunt; building trust may take deliberate effort.',
+   ARRAY['Suits roles that need critical review or negotiation', 'Prefers candid, results-focused teams']),
+  ('agreeableness', 'average',
+   'You balance cooperation with standing your ground.',
+   'You can support others while still voicing disagreement.',
+   'In conflict you may swing between giving in and pushing back.',
+   ARRAY['Works well in teams with shared but debated decisions']),
+  ('agreeableness', 'high',
+   'You are warm, cooperative and considerate.',
+   'You build trust, resolve conflict and help teams work together.',
+   'You may avoid necessary conflict or take on too much for others.',
+   ARRAY['Thrives in supportive, people-centred roles', 'Valued as a team connector']),
+
+  -- NEUROTICISM (high = more emotional reactivity)
+  ('neuroticism', 'low',
+   'You are calm and emotionally steady.',
+   'You stay composed under pressure and recover quickly from setbacks.',
+   'You may underestimate risks or how stressful a situation is for others.',
+   ARRAY['Suits high-pressure or crisis-handling roles']),
+  ('neuroticism', 'average',
+   'You experience a typical range of stress and emotion.',
+   'You notice problems early without being overwhelmed by them.',
+   'Sustained pressure may affect your mood and focus.',
+   ARRAY['Performs best with manageable workloads and some predictability']),
+  ('neuroticism', 'high',
+   'You feel stress and emotions intensely.',
+   'You are alert to risks and often sensitive to how others feel.',
+   'Pressure and criticism may affect you strongly; plan recovery time.',
+   ARRAY['Performs best in supportive, predictable environments', 'Benefits from clear expectations and regular feedback'])
+ON CONFLICT (trait, band) DO NOTHING;
+
+-- =====================================================
+-- VERIFY: Should return 15
+-- =====================================================
+SELECT COUNT(*) AS content_rows
+FROM public.psych_report_content;
@@ -0,0 +1,107 @@
+-- =====================================================
+-- SOLVO Migration 011: Adaptive aptitude testing (2PL IRT)
+-- =====================================================
+-- aptitude_questions gains 2PL item parameters (logistic
+-- metric). POST /api/aptitude/next-question runs one adaptive
+-- sub-test per category from aptitude_cat_sessions and saves
+-- the final theta per category on aptitude_submissions.theta.
+-- Fixed-form submissions (POST /api/aptitude/submit) keep
+-- mode = 'fixed' and theta = NULL.
+--
+-- Session rows are written only by the service role (the
+-- next-question route), so users can read their own adaptive
+-- sessions but never rewrite responses or estimates.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 010_psych_report_content.sql
+-- =====================================================
+
+ALTER TABLE public.aptitude_questions
+  ADD COLUMN IF NOT EXISTS irt_difficulty     NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS irt_discrimination NUMERIC NOT NULL DEFAULT 1;
+
+ALTER TABLE public.aptitude_questions
+  DROP CONSTRAINT IF EXISTS aptitude_questions_irt_discrimination_check;
+
+ALTER TABLE public.aptitude_questions
+  ADD CONSTRAINT aptitude_questions_irt_discrimination_check
+  CHECK (irt_discrimination > 0);
+
+-- Provisional difficulty from fixed-form proportion correct
+-- (b = ln((1 - p) / p) with a = 1), for items answered at least
+-- 30 times. Replace with a proper 2PL calibration when available.
+WITH item_p AS (
+  SELECT
+    q.id,
+    COUNT(s.id) AS n,
+    AVG(CASE WHEN s.answers ->> q.id::text = q.correct_answer THEN 1.0 ELSE 0.0 END) AS p
+  FROM public.aptitude_questions q
+  JOIN public.aptitude_submissions s
+    ON s.answers ? q.id::text
+  GROUP BY q.id
+)
+UPDATE public.aptitude_questions q
+SET irt_difficulty = ROUND(LN((1 - LEAST(GREATEST(item_p.p, 0.02), 0.98))
+                              / LEAST(GREATEST(item_p.p, 0.02), 0.98))::numeric, 3)
+FROM item_p
+WHERE item_p.id = q.id
+  AND item_p.n >= 30;
+
+-- =====================================================
+-- aptitude_submissions: mode and final abilities
+-- =====================================================
+
+ALTER TABLE public.aptitude_submissions
+  ADD COLUMN IF NOT EXISTS mode  TEXT  NOT NULL DEFAULT 'fixed'
+    CHECK (mode IN ('fixed', 'adaptive')),
+  -- { "numerical": { "theta", "standardError", "itemCount" }, ... }
+  ADD COLUMN IF NOT EXISTS theta JSONB;
+
+-- =====================================================
+-- aptitude_cat_sessions: one row per adaptive attempt
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.aptitude_cat_sessions (
+  id                   UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id              UUID        NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  status               TEXT        NOT NULL DEFAULT 'in_progress' CHECK (status IN (
+                         'in_progress', 'finalizing', 'finalized', 'expired'
+                       )),
+  current_question_id  UUID        REFERENCES public.aptitude_questions (id) ON DELETE SET NULL,
+  responses            JSONB       NOT NULL DEFAULT '[]'::jsonb,
+  estimates            JSONB       NOT NULL DEFAULT '{}'::jsonb,
+  submission_id        UUID        REFERENCES public.aptitude_submissions (id) ON DELETE SET NULL,
+  expires_at           TIMESTAMPTZ NOT NULL,
+  finalized_at         TIMESTAMPTZ,
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at           TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS aptitude_cat_sessions_user_status_idx
+  ON public.aptitude_cat_sessions (user_id, status, created_at DESC);
+
+-- =====================================================
+-- RLS POLICIES: read-only for users
+-- =====================================================
+
+ALTER TABLE public.aptitude_cat_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "aptitude_cat_sessions_select_own" ON public.aptitude_cat_sessions;
+
+CREATE POLICY "aptitude_cat_sessions_select_own"
+  ON public.aptitude_cat_sessions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Belt and braces: no write privileges for client roles either
+REVOKE INSERT, UPDATE, DELETE ON public.aptitude_cat_sessions FROM anon, authenticated;
+
+-- =====================================================
+-- VERIFY: item parameters per category
+-- =====================================================
+SELECT category,
+       COUNT(*)                          AS items,
+       ROUND(AVG(irt_difficulty), 2)     AS mean_difficulty,
+       ROUND(AVG(irt_discrimination), 2) AS mean_discrimination
+FROM public.aptitude_questions
+GROUP BY category
+ORDER BY category;
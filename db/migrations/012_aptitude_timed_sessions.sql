@@ -0,0 +1,87 @@
+-- =====================================================
+-- SOLVO Migration 012: Server-timed aptitude sessions
+-- =====================================================
+-- POST /api/aptitude/sessions issues a session with a server
+-- start time and deadline; answers are stamped with server time
+-- and /api/aptitude/submit requires a session. Adaptive sessions
+-- get the same deadline. Per-item response times (ms) are
+-- stored on aptitude_submissions.response_times.
+--
+-- Session rows and submissions are written only by the service
+-- role, so users can read their own sessions and results but never
+-- change timestamps or insert a result the server did not score.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 011_aptitude_irt.sql
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.aptitude_test_sessions (
+  id             UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id        UUID        NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  status         TEXT        NOT NULL DEFAULT 'in_progress' CHECK (status IN (
+                   'in_progress', 'finalizing', 'finalized', 'expired'
+                 )),
+  answers        JSONB       NOT NULL DEFAULT '{}'::jsonb,
+  -- { "<question id>": <server epoch ms> }
+  answered_at    JSONB       NOT NULL DEFAULT '{}'::jsonb,
+  started_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deadline_at    TIMESTAMPTZ NOT NULL,
+  expires_at     TIMESTAMPTZ NOT NULL,
+  submission_id  UUID        REFERENCES public.aptitude_submissions (id) ON DELETE SET NULL,
+  finalized_at   TIMESTAMPTZ,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS aptitude_test_sessions_user_status_idx
+  ON public.aptitude_test_sessions (user_id, status, created_at DESC);
+
+-- =====================================================
+-- Adaptive sessions: deadline and item serve time
+-- =====================================================
+-- Sessions started before this migration get a deadline equal to
+-- their expiry so they can still be finished.
+
+ALTER TABLE public.aptitude_cat_sessions
+  ADD COLUMN IF NOT EXISTS started_at        TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deadline_at       TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS current_served_at TIMESTAMPTZ;
+
+UPDATE public.aptitude_cat_sessions
+SET started_at  = COALESCE(started_at, created_at),
+    deadline_at = COALESCE(deadline_at, expires_at)
+WHERE started_at IS NULL OR deadline_at IS NULL;
+
+ALTER TABLE public.aptitude_cat_sessions
+  ALTER COLUMN started_at  SET DEFAULT now(),
+  ALTER COLUMN started_at  SET NOT NULL,
+  ALTER COLUMN deadline_at SET NOT NULL;
+
+-- =====================================================
+-- aptitude_submissions: timing
+-- =====================================================
+
+ALTER TABLE public.aptitude_submissions
+  ADD COLUMN IF NOT EXISTS session_id     UUID REFERENCES public.aptitude_test_sessions (id) ON DELETE SET NULL,
+  -- { "<question id>": <response time ms> }
+  ADD COLUMN IF NOT EXISTS response_times JSONB,
+  ADD COLUMN IF NOT EXISTS timed_out      BOOLEAN NOT NULL DEFAULT false;
+
+-- =====================================================
+-- RLS POLICIES: read-only for users
+-- =====================================================
+
+ALTER TABLE public.aptitude_test_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "aptitude_test_sessions_select_own" ON public.aptitude_test_sessions;
+
+CREATE POLICY "aptitude_test_sessions_select_own"
+  ON public.aptitude_test_sessions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Results are scored and inserted server-side only
+DROP POLICY IF EXISTS "aptitude_submissions_insert_own" ON public.aptitude_submissions;
+
+-- Belt and braces: no write privileges for client roles either
+REVOKE INSERT, UPDATE, DELETE ON public.aptitude_test_sessions FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.aptitude_submissions FROM anon, authenticated;
@@ -0,0 +1,27 @@
+-- =====================================================
+-- SOLVO Migration 013: Hide the aptitude answer key
+-- =====================================================
+-- aptitude_questions rows include correct_answer, and the old
+-- aptitude_questions_select_authenticated policy let any
+-- signed-in user read them with the anon key. The table is now
+-- service-role only: the submit, next-question and session routes
+-- read it server-side, and clients get text and options A-D from
+-- GET /api/aptitude/questions.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 012_aptitude_timed_sessions.sql
+-- =====================================================
+
+ALTER TABLE public.aptitude_questions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "aptitude_questions_select_authenticated" ON public.aptitude_questions;
+
+-- Belt and braces: no table privileges for client roles either
+REVOKE ALL ON public.aptitude_questions FROM anon, authenticated;
+
+-- =====================================================
+-- VERIFY: Should return no rows (no client policies left)
+-- =====================================================
+SELECT policyname
+FROM pg_policies
+WHERE schemaname = 'public'
+  AND tablename = 'aptitude_questions';
@@ -0,0 +1,53 @@
+-- =====================================================
+-- SOLVO Migration 014: Aptitude scoring policies
+-- =====================================================
+-- A timed session is scored under the policy chosen when it
+-- starts (lib/aptitudeScoring.ts):
+--   standard            1 point per correct answer
+--   difficulty_weighted aptitude_questions.score_weight per correct
+--   negative_marking    1 per correct, -1/3 per wrong
+-- An explicit 'SKIP' answer always scores zero.
+--
+-- aptitude_submissions keeps score_total / breakdown as the raw
+-- number correct under every policy; the policy's result is in
+-- weighted_score / weighted_breakdown. Adaptive submissions are
+-- scored by IRT and leave scoring_policy NULL.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 013_aptitude_answer_key.sql
+-- =====================================================
+
+ALTER TABLE public.aptitude_questions
+  ADD COLUMN IF NOT EXISTS score_weight NUMERIC NOT NULL DEFAULT 1;
+
+ALTER TABLE public.aptitude_questions
+  DROP CONSTRAINT IF EXISTS aptitude_questions_score_weight_check;
+
+ALTER TABLE public.aptitude_questions
+  ADD CONSTRAINT aptitude_questions_score_weight_check
+  CHECK (score_weight > 0);
+
+ALTER TABLE public.aptitude_test_sessions
+  ADD COLUMN IF NOT EXISTS scoring_policy TEXT NOT NULL DEFAULT 'standard'
+    CHECK (scoring_policy IN ('standard', 'difficulty_weighted', 'negative_marking'));
+
+ALTER TABLE public.aptitude_submissions
+  ADD COLUMN IF NOT EXISTS scoring_policy TEXT
+    CHECK (scoring_policy IN ('standard', 'difficulty_weighted', 'negative_marking')),
+  ADD COLUMN IF NOT EXISTS weighted_score     NUMERIC,
+  ADD COLUMN IF NOT EXISTS weighted_breakdown JSONB;
+
+-- Existing fixed-form submissions were all scored 1 point per correct
+UPDATE public.aptitude_submissions
+SET scoring_policy     = 'standard',
+    weighted_score     = score_total,
+    weighted_breakdown = breakdown
+WHERE mode = 'fixed'
+  AND scoring_policy IS NULL;
+
+-- =====================================================
+-- VERIFY: submissions per policy
+-- =====================================================
+SELECT mode, scoring_policy, COUNT(*) AS submissions
+FROM public.aptitude_submissions
+GROUP BY mode, scoring_policy
+ORDER BY mode, scoring_policy;
@@ -0,0 +1,55 @@
+-- =====================================================
+-- SOLVO Migration 015: Aptitude post-test review
+-- =====================================================
+-- GET /api/aptitude/review returns, per question, the user's
+-- answer, the correct option and aptitude_questions.explanation.
+--
+-- Who may review is configured in the single-row
+-- aptitude_review_settings table (no deploy needed):
+--   require_finalized  the submission's session must be finalized
+--   require_premium    only profiles.is_premium users
+--   delay_minutes      review opens this long after submitting
+-- Users can read the settings; only the service role changes them.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 014_aptitude_scoring_policies.sql
+-- =====================================================
+
+ALTER TABLE public.aptitude_questions
+  ADD COLUMN IF NOT EXISTS explanation TEXT;
+
+CREATE TABLE IF NOT EXISTS public.aptitude_review_settings (
+  id                 BOOLEAN     PRIMARY KEY DEFAULT true CHECK (id),
+  require_finalized  BOOLEAN     NOT NULL DEFAULT true,
+  require_premium    BOOLEAN     NOT NULL DEFAULT true,
+  delay_minutes      INTEGER     NOT NULL DEFAULT 0 CHECK (delay_minutes >= 0),
+  updated_at         TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.aptitude_review_settings (id)
+VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- RLS POLICIES: read-only for users
+-- =====================================================
+
+ALTER TABLE public.aptitude_review_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "aptitude_review_settings_select" ON public.aptitude_review_settings;
+
+CREATE POLICY "aptitude_review_settings_select"
+  ON public.aptitude_review_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- =====================================================
+-- VERIFY: current rules and explanation coverage
+-- =====================================================
+SELECT * FROM public.aptitude_review_settings;
+
+SELECT category,
+       COUNT(*)                                       AS questions,
+       COUNT(*) FILTER (WHERE explanation IS NOT NULL) AS with_explanation
+FROM public.aptitude_questions
+GROUP BY category
+ORDER BY category;
@@ -0,0 +1,58 @@
+-- =====================================================
+-- SOLVO Migration 016: Aptitude question types
+-- =====================================================
+-- aptitude_questions.question_type declares the answer format
+-- (lib/aptitudeQuestionTypes.ts). single_choice keeps its key in
+-- correct_answer; the other types keep it in answer_spec:
+--   numeric       {"value": 42, "tolerance": 0.5}
+--   multi_select  {"correct": ["A", "C"]}           (partial credit)
+--   ordering      {"order": ["C", "A", "D", "B"]}   (partial credit)
+--   short_text    {"accepted": ["photosynthesis"], "caseSensitive": false}
+-- multi_select and ordering use options A-D as their items; numeric
+-- and short_text questions have no options.
+--
+-- Submitted answers (sessions and submissions) are JSONB values of
+-- the matching shape: 'A', 42, ["A", "C"], ["C", "A", "D", "B"],
+-- "photosynthesis", or 'SKIP' for any type.
+--
+-- Adaptive testing serves single_choice questions only.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 015_aptitude_review.sql
+-- =====================================================
+
+ALTER TABLE public.aptitude_questions
+  ADD COLUMN IF NOT EXISTS question_type TEXT NOT NULL DEFAULT 'single_choice',
+  ADD COLUMN IF NOT EXISTS answer_spec   JSONB;
+
+ALTER TABLE public.aptitude_questions
+  DROP CONSTRAINT IF EXISTS aptitude_questions_question_type_check;
+
+ALTER TABLE public.aptitude_questions
+  ADD CONSTRAINT aptitude_questions_question_type_check
+  CHECK (question_type IN ('single_choice', 'numeric', 'multi_select', 'ordering', 'short_text'));
+
+-- Typed-answer questions have no options or letter key
+ALTER TABLE public.aptitude_questions
+  ALTER COLUMN option_a       DROP NOT NULL,
+  ALTER COLUMN option_b       DROP NOT NULL,
+  ALTER COLUMN option_c       DROP NOT NULL,
+  ALTER COLUMN option_d       DROP NOT NULL,
+  ALTER COLUMN correct_answer DROP NOT NULL;
+
+ALTER TABLE public.aptitude_questions
+  DROP CONSTRAINT IF EXISTS aptitude_questions_answer_key_check;
+
+ALTER TABLE public.aptitude_questions
+  ADD CONSTRAINT aptitude_questions_answer_key_check
+  CHECK (
+    (question_type = 'single_choice' AND correct_answer IN ('A', 'B', 'C', 'D'))
+    OR (question_type <> 'single_choice' AND jsonb_typeof(answer_spec) = 'object')
+  );
+
+-- =====================================================
+-- VERIFY: questions per type
+-- =====================================================
+SELECT category, question_type, COUNT(*) AS questions
+FROM public.aptitude_questions
+GROUP BY category, question_type
+ORDER BY category, question_type;
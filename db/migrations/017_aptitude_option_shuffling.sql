@@ -0,0 +1,39 @@
+-- =====================================================
+-- SOLVO Migration 017: Per-session option shuffling
+-- =====================================================
+-- Options are shown in a random order per session
+-- (lib/aptitudeOptionOrder.ts). An order lists the canonical
+-- options in display order: ["C", "A", "D", "B"] shows canonical C
+-- as A. Orders are generated by the server and not returned by the
+-- API; clients see and answer with displayed letters.
+--
+--   aptitude_test_sessions.option_orders        { "<question id>": [...] }
+--   aptitude_cat_sessions.current_option_order  order of the served item
+--
+-- answers stays canonical everywhere (scoring, review, IRT
+-- calibration); displayed_answers keeps the letters as submitted.
+-- Sessions and submissions from before this migration have no
+-- orders and were shown in canonical order.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 016_aptitude_question_types.sql
+-- =====================================================
+
+ALTER TABLE public.aptitude_test_sessions
+  ADD COLUMN IF NOT EXISTS option_orders     JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS displayed_answers JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.aptitude_cat_sessions
+  ADD COLUMN IF NOT EXISTS current_option_order JSONB;
+
+ALTER TABLE public.aptitude_submissions
+  ADD COLUMN IF NOT EXISTS displayed_answers JSONB;
+
+-- =====================================================
+-- VERIFY: sessions with shuffled options
+-- =====================================================
+SELECT status,
+       COUNT(*)                                    AS sessions,
+       COUNT(*) FILTER (WHERE option_orders <> '{}') AS shuffled
+FROM public.aptitude_test_sessions
+GROUP BY status
+ORDER BY status;
@@ -0,0 +1,120 @@
+-- =====================================================
+-- SOLVO Migration 018: Aptitude categories as data
+-- =====================================================
+-- Categories live in aptitude_categories instead of code
+-- (lib/aptitudeCategories.ts). items_per_attempt is the blueprint:
+-- each fixed-form session draws that many random questions from
+-- the category, so the bank can grow past one attempt. The sample
+-- is stored on aptitude_test_sessions.question_ids. Adaptive
+-- results are reported on the same per-category scale.
+--
+-- Breakdowns stay keyed by category slug; max_breakdown records
+-- the maximum per category so dashboards and the roadmap work on
+-- percentages whatever the blueprint was.
+--
+-- logical, spatial and abstract are added inactive: load at least
+-- items_per_attempt questions for a category, then set active.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 017_aptitude_option_shuffling.sql
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.aptitude_categories (
+  slug                TEXT        PRIMARY KEY CHECK (slug ~ '^[a-z][a-z0-9_]*$'),
+  label               TEXT        NOT NULL,
+  items_per_attempt   INTEGER     NOT NULL DEFAULT 10 CHECK (items_per_attempt > 0),
+  sort_order          INTEGER     NOT NULL DEFAULT 0,
+  active              BOOLEAN     NOT NULL DEFAULT true,
+  -- Suggested by the roadmap when the user scores below 60%
+  recommended_skills  TEXT[]      NOT NULL DEFAULT '{}',
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at          TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.aptitude_categories
+  (slug, label, items_per_attempt, sort_order, active, recommended_skills)
+VALUES
+  ('numerical', 'Numerical Reasoning', 10, 1, true,
+    ARRAY['Quantitative Reasoning', 'Mathematics', 'Statistics']),
+  ('verbal',    'Verbal Reasoning',    10, 2, true,
+    ARRAY['Communication Skills', 'Business Writing', 'Presentation Skills']),
+  ('creative',  'Creative Thinking',   10, 3, true,
+    ARRAY['Creative Thinking', 'Problem Solving', 'Design Thinking']),
+  ('logical',   'Logical Reasoning',   10, 4, false,
+    ARRAY['Critical Thinking', 'Formal Logic', 'Problem Decomposition']),
+  ('spatial',   'Spatial Reasoning',   10, 5, false,
+    ARRAY['Visualisation', 'Technical Drawing', '3D Modelling']),
+  ('abstract',  'Abstract Reasoning',  10, 6, false,
+    ARRAY['Pattern Recognition', 'Systems Thinking', 'Analytical Reasoning'])
+ON CONFLICT (slug) DO NOTHING;
+
+-- =====================================================
+-- aptitude_questions: category must be a known category
+-- =====================================================
+
+ALTER TABLE public.aptitude_questions
+  DROP CONSTRAINT IF EXISTS aptitude_questions_category_check;
+
+ALTER TABLE public.aptitude_questions
+  DROP CONSTRAINT IF EXISTS aptitude_questions_category_fkey;
+
+ALTER TABLE public.aptitude_questions
+  ADD CONSTRAINT aptitude_questions_category_fkey
+  FOREIGN KEY (category) REFERENCES public.aptitude_categories (slug)
+  ON UPDATE CASCADE;
+
+-- =====================================================
+-- Sessions: the sampled questions
+-- =====================================================
+-- Existing sessions were on the single 30-question form, which is
+-- the whole bank at this point.
+
+ALTER TABLE public.aptitude_test_sessions
+  ADD COLUMN IF NOT EXISTS question_ids JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE public.aptitude_test_sessions
+SET question_ids = (
+  SELECT COALESCE(jsonb_agg(q.id ORDER BY q.id), '[]'::jsonb)
+  FROM public.aptitude_questions q
+)
+WHERE question_ids = '[]'::jsonb;
+
+-- =====================================================
+-- Submissions: maximum per category
+-- =====================================================
+-- Existing submissions (fixed and adaptive) used 10 per category.
+
+ALTER TABLE public.aptitude_submissions
+  ADD COLUMN IF NOT EXISTS max_breakdown JSONB;
+
+UPDATE public.aptitude_submissions
+SET max_breakdown = (
+  SELECT jsonb_object_agg(key, 10)
+  FROM jsonb_object_keys(breakdown) AS key
+)
+WHERE max_breakdown IS NULL
+  AND breakdown IS NOT NULL;
+
+-- =====================================================
+-- RLS POLICIES: read-only for users
+-- =====================================================
+
+ALTER TABLE public.aptitude_categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "aptitude_categories_select" ON public.aptitude_categories;
+
+CREATE POLICY "aptitude_categories_select"
+  ON public.aptitude_categories FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- =====================================================
+-- VERIFY: blueprint against the bank
+-- =====================================================
+SELECT c.slug,
+       c.active,
+       c.items_per_attempt,
+       COUNT(q.id) AS questions_in_bank
+FROM public.aptitude_categories c
+LEFT JOIN public.aptitude_questions q ON q.category = c.slug
+GROUP BY c.slug, c.active, c.items_per_attempt, c.sort_order
+ORDER BY c.sort_order;
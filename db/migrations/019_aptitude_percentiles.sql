@@ -0,0 +1,190 @@
+-- =====================================================
+-- SOLVO Migration 019: Aptitude percentile ranks by cohort
+-- =====================================================
+-- aptitude_score_distributions counts submissions per cohort,
+-- metric and whole percentage (0-100). Dashboards turn the counts
+-- into percentile ranks (lib/aptitudePercentiles.ts).
+--
+-- Cohorts: 'all', 'education:<level>', 'institution:<name>'
+-- (institution lower-cased and trimmed). A submission is counted
+-- under the cohorts of its user's profile at the time it arrives.
+-- Metrics: 'total' and each category slug in the breakdown.
+--
+-- Counts are kept current by a trigger on aptitude_submissions
+-- insert, one increment per bucket. Profile changes are not picked
+-- up until rebuild_aptitude_score_distributions() recounts
+-- everything (e.g. after bulk profile corrections).
+-- Migration 026 replaces both functions so that each user counts
+-- once, with their latest submission.
+--
+-- Service role only: cohort keys include institution names and a
+-- small cohort's counts can reveal individual scores, so clients
+-- can neither read the distributions nor call the helper functions
+-- (which read any user's profile). lib/aptitudePercentiles.ts reads
+-- them server-side and applies the minimum cohort size.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 018_aptitude_categories.sql
+-- =====================================================
+
+-- =====================================================
+-- profiles: reference group fields
+-- =====================================================
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS education_level TEXT,
+  ADD COLUMN IF NOT EXISTS institution     TEXT;
+
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_education_level_check;
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_education_level_check CHECK (
+    education_level IS NULL OR education_level IN (
+      'secondary', 'diploma', 'undergraduate', 'postgraduate', 'doctorate', 'other'
+    )
+  );
+
+-- =====================================================
+-- aptitude_score_distributions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.aptitude_score_distributions (
+  cohort      TEXT        NOT NULL,
+  metric      TEXT        NOT NULL,
+  -- Whole percentage, rounded like the dashboards (half up)
+  bucket      INTEGER     NOT NULL CHECK (bucket BETWEEN 0 AND 100),
+  count       INTEGER     NOT NULL DEFAULT 0 CHECK (count >= 0),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (cohort, metric, bucket)
+);
+
+-- =====================================================
+-- Cohorts and buckets of one submission
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.aptitude_submission_cohorts(p_user_id UUID)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ARRAY['all']
+    || COALESCE(
+         (SELECT ARRAY['education:' || p.education_level]
+            FROM public.profiles p
+           WHERE p.id = p_user_id AND p.education_level IS NOT NULL),
+         ARRAY[]::TEXT[])
+    || COALESCE(
+         (SELECT ARRAY['institution:' || lower(trim(p.institution))]
+            FROM public.profiles p
+           WHERE p.id = p_user_id AND trim(COALESCE(p.institution, '')) <> ''),
+         ARRAY[]::TEXT[]);
+$$;
+
+-- max_breakdown falls back to the category's items_per_attempt,
+-- as in toCategoryScores()
+CREATE OR REPLACE FUNCTION public.aptitude_submission_buckets(
+  p_score_total   NUMERIC,
+  p_breakdown     JSONB,
+  p_max_breakdown JSONB
+)
+RETURNS TABLE (metric TEXT, bucket INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH categories AS (
+    SELECT b.key AS slug,
+           b.value::NUMERIC AS score,
+           COALESCE((p_max_breakdown ->> b.key)::NUMERIC, c.items_per_attempt, 0) AS max_score
+      FROM jsonb_each_text(COALESCE(p_breakdown, '{}'::JSONB)) b
+      LEFT JOIN public.aptitude_categories c ON c.slug = b.key
+  )
+  SELECT slug, LEAST(100, GREATEST(0, round(score / max_score * 100)))::INTEGER
+    FROM categories
+   WHERE max_score > 0
+  UNION ALL
+  SELECT 'total', LEAST(100, GREATEST(0, round(p_score_total / SUM(max_score) * 100)))::INTEGER
+    FROM categories
+  HAVING SUM(max_score) > 0;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.aptitude_submission_cohorts(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.aptitude_submission_buckets(NUMERIC, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- Incremental update on insert
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.count_aptitude_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.aptitude_score_distributions AS d (cohort, metric, bucket, count)
+  SELECT cohort, b.metric, b.bucket, 1
+    FROM unnest(public.aptitude_submission_cohorts(NEW.user_id)) AS cohort
+   CROSS JOIN public.aptitude_submission_buckets(NEW.score_total, NEW.breakdown, NEW.max_breakdown) b
+  ON CONFLICT (cohort, metric, bucket)
+  DO UPDATE SET count = d.count + 1, updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS aptitude_submissions_count_distribution ON public.aptitude_submissions;
+
+CREATE TRIGGER aptitude_submissions_count_distribution
+  AFTER INSERT ON public.aptitude_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.count_aptitude_submission();
+
+-- =====================================================
+-- Full recount (also backfills existing submissions)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.rebuild_aptitude_score_distributions()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.aptitude_score_distributions;
+
+  INSERT INTO public.aptitude_score_distributions (cohort, metric, bucket, count)
+  SELECT cohort, b.metric, b.bucket, COUNT(*)
+    FROM public.aptitude_submissions s
+   CROSS JOIN LATERAL unnest(public.aptitude_submission_cohorts(s.user_id)) AS cohort
+   CROSS JOIN LATERAL public.aptitude_submission_buckets(s.score_total, s.breakdown, s.max_breakdown) b
+   GROUP BY cohort, b.metric, b.bucket;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rebuild_aptitude_score_distributions() FROM PUBLIC, anon, authenticated;
+
+SELECT public.rebuild_aptitude_score_distributions();
+
+-- =====================================================
+-- RLS POLICIES: aptitude_score_distributions
+-- =====================================================
+-- No client policies: read by the dashboards with the service role;
+-- writes come from the trigger
+
+ALTER TABLE public.aptitude_score_distributions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "aptitude_score_distributions_select_authenticated"
+  ON public.aptitude_score_distributions;
+
+REVOKE ALL ON public.aptitude_score_distributions FROM anon, authenticated;
+
+-- =====================================================
+-- VERIFY
+-- =====================================================
+
+SELECT cohort, metric, SUM(count) AS submissions
+  FROM public.aptitude_score_distributions
+ GROUP BY cohort, metric
+ ORDER BY cohort, metric;
@@ -0,0 +1,95 @@
+-- =====================================================
+-- SOLVO Migration 020: Test integrity telemetry
+-- =====================================================
+-- test_integrity_events logs what the client reports while a
+-- session is open (POST /api/integrity/events): tab hidden, window
+-- blur, copy, paste, fullscreen exit, idle gaps. session_type
+-- names the session table:
+--   aptitude           -> aptitude_test_sessions
+--   aptitude_adaptive  -> aptitude_cat_sessions
+--   psychometric       -> psych_test_sessions
+--
+-- When a session is scored the events are summarized
+-- (lib/testIntegrity.ts) onto the result row: integrity_score
+-- (0-100) and integrity_summary (counts, hidden/idle time). Results
+-- scored without a session have NULL for both.
+--
+-- psych_results becomes read-only for users like
+-- aptitude_submissions (012): results, and with them the integrity
+-- score, are inserted only by the service role after scoring.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 019_aptitude_percentiles.sql
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.test_integrity_events (
+  id            UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       UUID        NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  session_type  TEXT        NOT NULL CHECK (session_type IN (
+                  'aptitude', 'aptitude_adaptive', 'psychometric'
+                )),
+  session_id    UUID        NOT NULL,
+  event_type    TEXT        NOT NULL CHECK (event_type IN (
+                  'visibility_hidden', 'window_blur', 'copy', 'paste',
+                  'fullscreen_exit', 'idle'
+                )),
+  -- Client clock; received_at is the server's
+  occurred_at   TIMESTAMPTZ NOT NULL,
+  duration_ms   INTEGER     CHECK (duration_ms IS NULL OR duration_ms >= 0),
+  received_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS test_integrity_events_session_idx
+  ON public.test_integrity_events (session_type, session_id);
+
+CREATE INDEX IF NOT EXISTS test_integrity_events_user_idx
+  ON public.test_integrity_events (user_id, received_at DESC);
+
+-- =====================================================
+-- Result rows: integrity score and summary
+-- =====================================================
+
+ALTER TABLE public.aptitude_submissions
+  ADD COLUMN IF NOT EXISTS integrity_score   NUMERIC CHECK (integrity_score BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS integrity_summary JSONB;
+
+ALTER TABLE public.psych_results
+  ADD COLUMN IF NOT EXISTS integrity_score   NUMERIC CHECK (integrity_score BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS integrity_summary JSONB;
+
+-- =====================================================
+-- RLS POLICIES: test_integrity_events
+-- =====================================================
+-- Users may read their own events; writes go through the service
+-- role so the log cannot be edited or cleared by the test taker
+
+ALTER TABLE public.test_integrity_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "test_integrity_events_select_own" ON public.test_integrity_events;
+
+CREATE POLICY "test_integrity_events_select_own"
+  ON public.test_integrity_events FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- =====================================================
+-- RLS POLICIES: psych_results read-only for users
+-- =====================================================
+
+DROP POLICY IF EXISTS "psych_results_insert_own" ON public.psych_results;
+
+-- Belt and braces: no write privileges for client roles either
+REVOKE INSERT, UPDATE, DELETE ON public.psych_results FROM anon, authenticated;
+
+-- =====================================================
+-- VERIFY
+-- =====================================================
+
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND (
+    table_name = 'test_integrity_events'
+    OR (table_name IN ('aptitude_submissions', 'psych_results')
+        AND column_name IN ('integrity_score', 'integrity_summary'))
+  )
+ORDER BY table_name, column_name;
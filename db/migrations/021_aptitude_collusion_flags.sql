@@ -0,0 +1,57 @@
+-- =====================================================
+-- SOLVO Migration 021: Answer-similarity review queue
+-- =====================================================
+-- POST /api/admin/aptitude/collusion compares wrong-answer overlap
+-- between pairs of aptitude_submissions made close together in
+-- time or by users of the same institution (lib/answerSimilarity.ts)
+-- and writes flagged pairs here; GET on the same route lists them.
+--
+-- A pair is stored once (submission_a_id < submission_b_id).
+-- Re-running the job refreshes the statistics but keeps the review
+-- status and notes.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 020_test_integrity.sql
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.aptitude_collusion_flags (
+  id                        UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_a_id           UUID        NOT NULL REFERENCES public.aptitude_submissions (id) ON DELETE CASCADE,
+  submission_b_id           UUID        NOT NULL REFERENCES public.aptitude_submissions (id) ON DELETE CASCADE,
+  user_a_id                 UUID        NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  user_b_id                 UUID        NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  -- Why the pair was compared: 'time_window' or 'cohort'
+  reason                    TEXT        NOT NULL CHECK (reason IN ('time_window', 'cohort')),
+  both_wrong                INTEGER     NOT NULL CHECK (both_wrong >= 0),
+  identical_wrong           INTEGER     NOT NULL CHECK (identical_wrong >= 0),
+  expected_identical_wrong  NUMERIC     NOT NULL,
+  collusion_index           NUMERIC,
+  p_value                   DOUBLE PRECISION NOT NULL CHECK (p_value BETWEEN 0 AND 1),
+  status                    TEXT        NOT NULL DEFAULT 'pending'
+                              CHECK (status IN ('pending', 'confirmed', 'dismissed')),
+  notes                     TEXT,
+  detected_at               TIMESTAMPTZ NOT NULL DEFAULT now(),
+  reviewed_at               TIMESTAMPTZ,
+  reviewed_by               UUID        REFERENCES auth.users (id) ON DELETE SET NULL,
+  CHECK (submission_a_id < submission_b_id),
+  UNIQUE (submission_a_id, submission_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS aptitude_collusion_flags_status_idx
+  ON public.aptitude_collusion_flags (status, p_value);
+
+-- =====================================================
+-- RLS POLICIES: aptitude_collusion_flags
+-- =====================================================
+-- No user policies: only the service role (admin routes) reads or
+-- writes the queue
+
+ALTER TABLE public.aptitude_collusion_flags ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- VERIFY
+-- =====================================================
+
+SELECT status, COUNT(*) AS pairs
+FROM public.aptitude_collusion_flags
+GROUP BY status
+ORDER BY status;
@@ -0,0 +1,50 @@
+-- =====================================================
+-- SOLVO Migration 022: Figures for aptitude questions
+-- =====================================================
+-- aptitude_questions.media references images or SVG for the stem
+-- and for each option (lib/aptitudeMedia.ts):
+--
+--   { "question": { "path": "...", "alt": "..." },
+--     "options":  { "A": { "path": "...", "alt": "..." }, ... } }
+--
+-- Files live in the private aptitude-media bucket. Clients never
+-- read the bucket directly: delivery signs time-limited URLs with
+-- the service role. POST /api/admin/aptitude/questions checks that
+-- every referenced file exists before importing.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 021_aptitude_collusion_flags.sql
+-- =====================================================
+
+ALTER TABLE public.aptitude_questions
+  ADD COLUMN IF NOT EXISTS media JSONB;
+
+ALTER TABLE public.aptitude_questions
+  DROP CONSTRAINT IF EXISTS aptitude_questions_media_check;
+
+ALTER TABLE public.aptitude_questions
+  ADD CONSTRAINT aptitude_questions_media_check
+  CHECK (media IS NULL OR jsonb_typeof(media) = 'object');
+
+-- =====================================================
+-- Storage bucket (private; no storage.objects policies, so only
+-- the service role can read or sign)
+-- =====================================================
+
+INSERT INTO storage.buckets (id, name, public, allowed_mime_types)
+VALUES (
+  'aptitude-media',
+  'aptitude-media',
+  false,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml']
+)
+ON CONFLICT (id) DO UPDATE
+  SET public = false,
+      allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- =====================================================
+-- VERIFY
+-- =====================================================
+
+SELECT COUNT(*) FILTER (WHERE media IS NOT NULL) AS questions_with_media,
+       COUNT(*) AS questions
+FROM public.aptitude_questions;
@@ -0,0 +1,63 @@
+-- =====================================================
+-- SOLVO Migration 023: Aptitude practice mode
+-- =====================================================
+-- aptitude_questions.pool splits the bank: 'official' questions
+-- are sampled for timed and adaptive tests, 'practice' questions
+-- are served only by /api/aptitude/practice/*. Existing questions
+-- stay official.
+--
+-- aptitude_practice_attempts stores one row per practice answer,
+-- with the feedback it was given. Practice never writes
+-- aptitude_submissions, so dashboards, percentiles and the roadmap
+-- (which read the latest submission) are unaffected.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 022_aptitude_question_media.sql
+-- =====================================================
+
+ALTER TABLE public.aptitude_questions
+  ADD COLUMN IF NOT EXISTS pool TEXT NOT NULL DEFAULT 'official'
+    CHECK (pool IN ('official', 'practice'));
+
+CREATE INDEX IF NOT EXISTS aptitude_questions_pool_category_idx
+  ON public.aptitude_questions (pool, category);
+
+CREATE TABLE IF NOT EXISTS public.aptitude_practice_attempts (
+  id             UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id        UUID        NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  question_id    UUID        NOT NULL REFERENCES public.aptitude_questions (id) ON DELETE CASCADE,
+  category       TEXT        NOT NULL,
+  -- Canonical answer (practice options are shown unshuffled)
+  answer         JSONB       NOT NULL,
+  skipped        BOOLEAN     NOT NULL DEFAULT false,
+  credit         NUMERIC     NOT NULL CHECK (credit BETWEEN 0 AND 1),
+  is_correct     BOOLEAN     NOT NULL,
+  time_taken_ms  INTEGER     CHECK (time_taken_ms IS NULL OR time_taken_ms >= 0),
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS aptitude_practice_attempts_user_idx
+  ON public.aptitude_practice_attempts (user_id, created_at DESC);
+
+-- =====================================================
+-- RLS POLICIES: aptitude_practice_attempts
+-- =====================================================
+-- Users may read their own attempts; writes go through the service
+-- role, which grades the answer against the (hidden) key
+
+ALTER TABLE public.aptitude_practice_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "aptitude_practice_attempts_select_own" ON public.aptitude_practice_attempts;
+
+CREATE POLICY "aptitude_practice_attempts_select_own"
+  ON public.aptitude_practice_attempts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- =====================================================
+-- VERIFY
+-- =====================================================
+
+SELECT pool, category, COUNT(*) AS questions
+FROM public.aptitude_questions
+GROUP BY pool, category
+ORDER BY pool, category;
@@ -0,0 +1,26 @@
+-- =====================================================
+-- SOLVO Migration 024: Hide psychometric scoring metadata
+-- =====================================================
+-- GET /api/psychometric/questions leaves out trait, facet and
+-- polarity, but the old psych_questions_select_authenticated
+-- policy let any signed-in user read them with the anon key. The
+-- table is now service-role only: the question, session and submit
+-- routes load the bank server-side (lib/psychQuestions.ts).
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 023_aptitude_practice.sql
+-- =====================================================
+
+ALTER TABLE public.psych_questions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "psych_questions_select_authenticated" ON public.psych_questions;
+
+-- Belt and braces: no table privileges for client roles either
+REVOKE ALL ON public.psych_questions FROM anon, authenticated;
+
+-- =====================================================
+-- VERIFY: Should return no rows (no client policies left)
+-- =====================================================
+SELECT policyname
+FROM pg_policies
+WHERE schemaname = 'public'
+  AND tablename = 'psych_questions';
@@ -0,0 +1,45 @@
+-- =====================================================
+-- SOLVO Migration 025: Admin membership table
+-- =====================================================
+-- requireAdmin used to trust profiles.role, which users can write
+-- on their own row (profiles_insert_own / profiles_update_own), so
+-- anyone could make themselves an admin. Admin membership now
+-- lives in admin_users, which only the service role can read or
+-- write; lib/requireAdmin.ts checks it with the service-role
+-- client. profiles.role is no longer used for access control.
+--
+-- Existing admins are NOT copied over: any profiles.role value may
+-- have been set by its own user. Review the VERIFY list below and
+-- grant each real admin explicitly:
+--
+--   INSERT INTO public.admin_users (user_id, note)
+--   VALUES ('<auth.users id>', 'why this person is an admin');
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 024_psych_question_bank.sql
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.admin_users (
+  user_id     UUID        PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  note        TEXT,
+  granted_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- =====================================================
+-- RLS POLICIES: admin_users
+-- =====================================================
+-- No client policies and no client privileges: only the service
+-- role (SQL Editor, requireAdmin) reads or writes membership
+
+ALTER TABLE public.admin_users ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.admin_users FROM anon, authenticated;
+
+-- =====================================================
+-- VERIFY: profiles that claim the admin role, and whether they
+-- have been granted membership
+-- =====================================================
+SELECT p.id, p.email, (a.user_id IS NOT NULL) AS is_admin
+FROM public.profiles p
+LEFT JOIN public.admin_users a ON a.user_id = p.id
+WHERE p.role = 'admin' OR a.user_id IS NOT NULL
+ORDER BY is_admin DESC, p.email;
@@ -0,0 +1,157 @@
+-- =====================================================
+-- SOLVO Migration 026: Percentiles count each user once
+-- =====================================================
+-- Migration 019 counted every submission, so a user who retook
+-- the test five times sat in the distribution five times and
+-- pulled everyone else's percentile ranks toward their own scores.
+-- Dashboards compare the user's latest result, so the reference
+-- group now holds each user's latest submission only.
+--
+-- aptitude_score_distribution_members records what is currently
+-- counted for each user (submission, cohorts, buckets). On insert
+-- the trigger subtracts the user's previous contribution, adds the
+-- new one and replaces the member row, so a resubmission moves the
+-- user between buckets instead of adding them twice.
+--
+-- Cohorts are still taken from the profile when the submission
+-- arrives; a later profile change only takes effect on the user's
+-- next submission. rebuild_aptitude_score_distributions() recounts
+-- from current profiles (run it after bulk profile corrections or
+-- after deleting submissions).
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 025_admin_users.sql
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.aptitude_score_distribution_members (
+  user_id        UUID        PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  submission_id  UUID        NOT NULL REFERENCES public.aptitude_submissions (id) ON DELETE CASCADE,
+  cohorts        TEXT[]      NOT NULL,
+  -- [{ "metric": "total", "bucket": 72 }, ...] as counted
+  buckets        JSONB       NOT NULL,
+  counted_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- =====================================================
+-- Incremental update on insert
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.count_aptitude_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous public.aptitude_score_distribution_members%ROWTYPE;
+  v_previous_created_at TIMESTAMPTZ;
+  v_cohorts TEXT[];
+  v_buckets JSONB;
+BEGIN
+  -- One user at a time, so concurrent submissions cannot both
+  -- subtract the same previous contribution
+  PERFORM pg_advisory_xact_lock(hashtext('aptitude_score_distribution:' || NEW.user_id::TEXT));
+
+  SELECT * INTO v_previous
+    FROM public.aptitude_score_distribution_members
+   WHERE user_id = NEW.user_id;
+
+  IF FOUND THEN
+    SELECT created_at INTO v_previous_created_at
+      FROM public.aptitude_submissions
+     WHERE id = v_previous.submission_id;
+
+    -- A late insert of an older result does not replace a newer one
+    IF v_previous_created_at > NEW.created_at THEN
+      RETURN NEW;
+    END IF;
+
+    UPDATE public.aptitude_score_distributions d
+       SET count = GREATEST(d.count - 1, 0), updated_at = now()
+      FROM unnest(v_previous.cohorts) AS c (cohort),
+           jsonb_to_recordset(v_previous.buckets) AS b (metric TEXT, bucket INTEGER)
+     WHERE d.cohort = c.cohort
+       AND d.metric = b.metric
+       AND d.bucket = b.bucket;
+  END IF;
+
+  v_cohorts := public.aptitude_submission_cohorts(NEW.user_id);
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('metric', b.metric, 'bucket', b.bucket)), '[]'::JSONB)
+    INTO v_buckets
+    FROM public.aptitude_submission_buckets(NEW.score_total, NEW.breakdown, NEW.max_breakdown) b;
+
+  INSERT INTO public.aptitude_score_distributions AS d (cohort, metric, bucket, count)
+  SELECT cohort, b.metric, b.bucket, 1
+    FROM unnest(v_cohorts) AS cohort
+   CROSS JOIN jsonb_to_recordset(v_buckets) AS b (metric TEXT, bucket INTEGER)
+  ON CONFLICT (cohort, metric, bucket)
+  DO UPDATE SET count = d.count + 1, updated_at = now();
+
+  INSERT INTO public.aptitude_score_distribution_members (user_id, submission_id, cohorts, buckets)
+  VALUES (NEW.user_id, NEW.id, v_cohorts, v_buckets)
+  ON CONFLICT (user_id)
+  DO UPDATE SET submission_id = EXCLUDED.submission_id,
+                cohorts       = EXCLUDED.cohorts,
+                buckets       = EXCLUDED.buckets,
+                counted_at    = now();
+
+  RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- Full recount: latest submission per user
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.rebuild_aptitude_score_distributions()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.aptitude_score_distributions;
+  DELETE FROM public.aptitude_score_distribution_members;
+
+  INSERT INTO public.aptitude_score_distribution_members (user_id, submission_id, cohorts, buckets)
+  SELECT s.user_id,
+         s.id,
+         public.aptitude_submission_cohorts(s.user_id),
+         (SELECT COALESCE(jsonb_agg(jsonb_build_object('metric', b.metric, 'bucket', b.bucket)), '[]'::JSONB)
+            FROM public.aptitude_submission_buckets(s.score_total, s.breakdown, s.max_breakdown) b)
+    FROM (
+      SELECT DISTINCT ON (user_id) *
+        FROM public.aptitude_submissions
+       ORDER BY user_id, created_at DESC, id DESC
+    ) s;
+
+  INSERT INTO public.aptitude_score_distributions (cohort, metric, bucket, count)
+  SELECT cohort, b.metric, b.bucket, COUNT(*)
+    FROM public.aptitude_score_distribution_members m
+   CROSS JOIN LATERAL unnest(m.cohorts) AS cohort
+   CROSS JOIN LATERAL jsonb_to_recordset(m.buckets) AS b (metric TEXT, bucket INTEGER)
+   GROUP BY cohort, b.metric, b.bucket;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rebuild_aptitude_score_distributions() FROM PUBLIC, anon, authenticated;
+
+SELECT public.rebuild_aptitude_score_distributions();
+
+-- =====================================================
+-- RLS POLICIES: aptitude_score_distribution_members
+-- =====================================================
+-- Per-user bookkeeping for the trigger: no policies, service role
+-- and the SECURITY DEFINER functions only
+
+ALTER TABLE public.aptitude_score_distribution_members ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.aptitude_score_distribution_members FROM anon, authenticated;
+
+-- =====================================================
+-- VERIFY: users per cohort should equal members in that cohort
+-- =====================================================
+
+SELECT d.cohort, SUM(d.count) AS users
+  FROM public.aptitude_score_distributions d
+ WHERE d.metric = 'total'
+ GROUP BY d.cohort
+ ORDER BY d.cohort;
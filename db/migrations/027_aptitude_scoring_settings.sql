@@ -0,0 +1,42 @@
+-- =====================================================
+-- SOLVO Migration 027: Admin-configured aptitude scoring policy
+-- =====================================================
+-- POST /api/aptitude/sessions used to take scoringPolicy from the
+-- request body, so each test taker could pick the policy that
+-- scored them best. New timed sessions now get the policy stored in
+-- the single-row aptitude_scoring_settings table (no deploy
+-- needed); sessions already started keep their policy.
+--
+-- negative_marking now deducts 1 / (k - 1) per wrong answer to a
+-- single-choice question with k options (a flat 1/3 assumed four
+-- options). Numeric, multi-select, ordering and short-text answers
+-- are never penalised.
+-- =====================================================
+-- Run this in Supabase SQL Editor AFTER 026_aptitude_percentile_latest.sql
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.aptitude_scoring_settings (
+  id              BOOLEAN     PRIMARY KEY DEFAULT true CHECK (id),
+  scoring_policy  TEXT        NOT NULL DEFAULT 'standard'
+                    CHECK (scoring_policy IN ('standard', 'difficulty_weighted', 'negative_marking')),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.aptitude_scoring_settings (id)
+VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- RLS POLICIES: aptitude_scoring_settings
+-- =====================================================
+-- No client policies and no client privileges: only the service
+-- role (SQL Editor, POST /api/aptitude/sessions) reads or writes it
+
+ALTER TABLE public.aptitude_scoring_settings ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.aptitude_scoring_settings FROM anon, authenticated;
+
+-- =====================================================
+-- VERIFY: current policy
+-- =====================================================
+SELECT * FROM public.aptitude_scoring_settings;
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareWrongAnswers,
+  detectCollusion,
+  poissonBinomialUpperTail,
+  sameWrongProbabilities,
+  wrongAnswersOf
+} from '@/lib/answerSimilarity';
+import type { SimilaritySubmission, SingleChoiceKey } from '@/lib/answerSimilarity';
+import type { AptitudeOption } from '@/lib/aptitudeCat';
+import type { AptitudeAnswer } from '@/lib/aptitudeQuestionTypes';
+
+const ITEM_COUNT = 12;
+const ITEMS = Array.from({ length: ITEM_COUNT }, (_, i) => `q${i}`);
+const KEY: SingleChoiceKey = new Map(ITEMS.map(id => [id, 'A' as AptitudeOption]));
+const DISTRACTORS: AptitudeOption[] = ['B', 'C', 'D'];
+
+const MINUTE = 60 * 1000;
+
+function submission(
+  id: string,
+  wrong: Record<string, AptitudeOption>,
+  overrides: Partial<SimilaritySubmission> = {}
+): SimilaritySubmission {
+  const answers: Record<string, AptitudeAnswer> = {};
+  for (const item of ITEMS) {
+    answers[item] = wrong[item] ?? 'A';
+  }
+
+  return { id, userId: `user-${id}`, createdAt: 0, cohort: null, answers, ...overrides };
+}
+
+describe('poissonBinomialUpperTail', () => {
+  it('reduces to the binomial tail for equal probabilities', () => {
+    // P(X >= 3), X ~ Bin(4, 0.5) = 5 / 16
+    expect(poissonBinomialUpperTail([0.5, 0.5, 0.5, 0.5], 3)).toBeCloseTo(0.3125, 12);
+  });
+
+  it('sums the exact distribution for unequal probabilities', () => {
+    // P(X >= 2) = 0.2*0.5*0.9 + 0.2*0.5*0.1 + 0.2*0.5*0.9 + 0.8*0.5*0.9
+    expect(poissonBinomialUpperTail([0.2, 0.5, 0.9], 2)).toBeCloseTo(0.55, 12);
+    expect(poissonBinomialUpperTail([0.2, 0.5, 0.9], 3)).toBeCloseTo(0.09, 12);
+  });
+
+  it('handles the edges', () => {
+    expect(poissonBinomialUpperTail([0.3, 0.3], 0)).toBe(1);
+    expect(poissonBinomialUpperTail([0.3, 0.3], 3)).toBe(0);
+    expect(poissonBinomialUpperTail([], 0)).toBe(1);
+    expect(poissonBinomialUpperTail([1, 1, 1], 3)).toBe(1);
+  });
+});
+
+describe('item probabilities', () => {
+  it('keeps wrong single-choice answers only', () => {
+    const key: SingleChoiceKey = new Map([['q0', 'A'], ['q1', 'B'], ['q2', 'C']]);
+    const wrong = wrongAnswersOf({ q0: 'B', q1: 'B', q2: 'SKIP', numeric: 4 }, key);
+
+    expect([...wrong]).toEqual([['q0', 'B']]);
+  });
+
+  it('computes the smoothed chance of matching distractors', () => {
+    const probabilities = sameWrongProbabilities([
+      new Map([['q0', 'B']]),
+      new Map([['q0', 'B']]),
+      new Map([['q0', 'C']])
+    ]);
+
+    // Smoothed shares B 3/6, C 2/6, D 1/6
+    expect(probabilities.get('q0')).toBeCloseTo(14 / 36, 12);
+  });
+
+  it('compares a pair over the items both got wrong', () => {
+    const probabilities = new Map([['q0', 0.5], ['q1', 0.5], ['q2', 0.5]]);
+    const statistic = compareWrongAnswers(
+      new Map<string, AptitudeOption>([['q0', 'B'], ['q1', 'C'], ['q2', 'D']]),
+      new Map<string, AptitudeOption>([['q0', 'B'], ['q1', 'D'], ['q3', 'B']]),
+      probabilities
+    );
+
+    expect(statistic).toEqual({
+      bothWrong: 2,
+      identicalWrong: 1,
+      expectedIdenticalWrong: 1,
+      collusionIndex: 0,
+      pValue: 0.75
+    });
+  });
+});
+
+describe('detectCollusion', () => {
+  // Honest takers each miss three items with varied distractors
+  const honest = Array.from({ length: 8 }, (_, k) =>
+    submission(`h${k}`, Object.fromEntries(
+      [0, 1, 2].map(offset => [ITEMS[(k + offset * 4) % ITEM_COUNT], DISTRACTORS[(k + offset) % 3]])
+    ))
+  );
+
+  // Two takers share the same wrong answer on every item
+  const shared = Object.fromEntries(ITEMS.map(item => [item, 'B' as AptitudeOption]));
+  const colluders = [submission('c1', shared), submission('c2', shared, { createdAt: 30 * MINUTE })];
+
+  it('flags only the pair sharing improbable wrong answers', () => {
+    const report = detectCollusion([...honest, ...colluders], KEY);
+
+    expect(report.submissions).toBe(10);
+    expect(report.flagged).toHaveLength(1);
+    expect(report.flagged[0]).toMatchObject({
+      submissionA: 'c1',
+      submissionB: 'c2',
+      reason: 'time_window',
+      bothWrong: ITEM_COUNT,
+      identicalWrong: ITEM_COUNT
+    });
+    expect(report.flagged[0].pValue).toBeLessThanOrEqual(report.threshold);
+    expect(report.threshold).toBeCloseTo(0.01 / report.pairsCompared, 12);
+  });
+
+  it('never flags fewer identical wrong answers than the minimum', () => {
+    const report = detectCollusion([...honest, ...colluders], KEY, { minIdenticalWrong: ITEM_COUNT + 1 });
+
+    expect(report.flagged).toEqual([]);
+  });
+
+  it('compares outside the time window only within a cohort, and never a user with themselves', () => {
+    const later = { createdAt: 3 * 60 * MINUTE };
+    const apart = [submission('c1', shared), submission('c2', shared, later)];
+    const sameCohort = [
+      submission('c1', shared, { cohort: 'institution:x' }),
+      submission('c2', shared, { ...later, cohort: 'institution:x' })
+    ];
+    const sameUser = [submission('c1', shared), submission('c2', shared, { userId: 'user-c1' })];
+
+    expect(detectCollusion(apart, KEY).pairsCompared).toBe(0);
+    expect(detectCollusion(sameCohort, KEY).flagged[0]?.reason).toBe('cohort');
+    expect(detectCollusion(sameUser, KEY).pairsCompared).toBe(0);
+  });
+});
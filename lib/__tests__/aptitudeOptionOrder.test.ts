@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildOptionOrders,
+  displayOptions,
+  shuffledOptionOrder,
+  toCanonicalAnswer,
+  toCanonicalAnswers
+} from '@/lib/aptitudeOptionOrder';
+import type { OptionOrder } from '@/lib/aptitudeOptionOrder';
+
+// Displays canonical C as A, canonical A as B, D as C and B as D
+const ORDER: OptionOrder = ['C', 'A', 'D', 'B'];
+
+const OPTIONS = { A: 'apple', B: 'banana', C: 'cherry', D: 'date' };
+
+describe('displayOptions', () => {
+  it('relabels options in display order', () => {
+    expect(displayOptions(OPTIONS, ORDER)).toEqual({ A: 'cherry', B: 'apple', C: 'date', D: 'banana' });
+  });
+
+  it('closes gaps left by options the question lacks', () => {
+    expect(displayOptions({ A: 'apple', B: 'banana', C: 'cherry' }, ['C', 'A', 'B']))
+      .toEqual({ A: 'cherry', B: 'apple', C: 'banana' });
+  });
+
+  it('shows options as stored without an order', () => {
+    expect(displayOptions(OPTIONS, null)).toBe(OPTIONS);
+  });
+});
+
+describe('toCanonicalAnswer', () => {
+  it('maps displayed letters back to canonical ones', () => {
+    expect(toCanonicalAnswer('A', ORDER)).toBe('C');
+    expect(toCanonicalAnswer('D', ORDER)).toBe('B');
+    expect(toCanonicalAnswer(['B', 'C'], ORDER)).toEqual(['A', 'D']);
+  });
+
+  it('round-trips every displayed option to its canonical text', () => {
+    const displayed = displayOptions(OPTIONS, ORDER);
+
+    for (const [letter, text] of Object.entries(displayed)) {
+      expect(OPTIONS[toCanonicalAnswer(letter, ORDER) as keyof typeof OPTIONS]).toBe(text);
+    }
+  });
+
+  it('leaves skips, numbers, free text and letters outside the order unchanged', () => {
+    expect(toCanonicalAnswer('SKIP', ORDER)).toBe('SKIP');
+    expect(toCanonicalAnswer(12.5, ORDER)).toBe(12.5);
+    expect(toCanonicalAnswer('Paris', ORDER)).toBe('Paris');
+    expect(toCanonicalAnswer('D', ['B', 'A', 'C'])).toBe('D');
+  });
+
+  it('returns answers unchanged without an order', () => {
+    expect(toCanonicalAnswer('A', undefined)).toBe('A');
+  });
+});
+
+describe('toCanonicalAnswers', () => {
+  it('maps each answer with its own question order', () => {
+    expect(toCanonicalAnswers({ q1: 'A', q2: 'A', q3: 7 }, { q1: ORDER, q2: ['B', 'A'] }))
+      .toEqual({ q1: 'C', q2: 'B', q3: 7 });
+  });
+});
+
+describe('order generation', () => {
+  it('shuffles into a permutation of the given options', () => {
+    expect([...shuffledOptionOrder(['A', 'B', 'C', 'D'])].sort()).toEqual(['A', 'B', 'C', 'D']);
+  });
+
+  it('orders only questions that show more than one option, over the options present', () => {
+    const orders = buildOptionOrders([
+      { id: 'choice', question_type: null, option_a: 'x', option_b: 'y', option_c: 'z', option_d: null },
+      { id: 'numeric', question_type: 'numeric', option_a: 'x', option_b: 'y', option_c: null, option_d: null },
+      { id: 'single', question_type: 'single_choice', option_a: 'x', option_b: null, option_c: null, option_d: null }
+    ]);
+
+    expect(Object.keys(orders)).toEqual(['choice']);
+    expect([...orders.choice].sort()).toEqual(['A', 'B', 'C']);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  answerKeyFor,
+  correctAnswerOf,
+  questionOptions,
+  scoreAnswer,
+  SHORT_TEXT_MAX_LENGTH,
+  SKIP_ANSWER,
+  validateAnswer
+} from '@/lib/aptitudeQuestionTypes';
+import type { AnswerKey } from '@/lib/aptitudeQuestionTypes';
+
+const FOUR_OPTIONS = { A: 'one', B: 'two', C: 'three', D: 'four' };
+const THREE_OPTIONS = { A: 'one', B: 'two', C: 'three' };
+
+describe('answerKeyFor', () => {
+  it('treats rows without a type as single choice', () => {
+    expect(answerKeyFor({ question_type: null, correct_answer: 'C', answer_spec: null }))
+      .toEqual({ type: 'single_choice', correct: 'C' });
+  });
+
+  it('builds typed keys from answer_spec', () => {
+    expect(answerKeyFor({ question_type: 'numeric', correct_answer: null, answer_spec: { value: '2.5' } }))
+      .toEqual({ type: 'numeric', value: 2.5, tolerance: 0 });
+    expect(answerKeyFor({ question_type: 'short_text', correct_answer: null, answer_spec: { accepted: ['Paris', ' ', 3] } }))
+      .toEqual({ type: 'short_text', accepted: ['Paris'], caseSensitive: false });
+  });
+
+  it('rejects malformed keys', () => {
+    expect(answerKeyFor({ question_type: 'single_choice', correct_answer: 'E', answer_spec: null })).toBeNull();
+    expect(answerKeyFor({ question_type: 'numeric', correct_answer: null, answer_spec: { value: 1, tolerance: -1 } })).toBeNull();
+    expect(answerKeyFor({ question_type: 'multi_select', correct_answer: null, answer_spec: { correct: ['A', 'A'] } })).toBeNull();
+    expect(answerKeyFor({ question_type: 'ordering', correct_answer: null, answer_spec: { order: ['A'] } })).toBeNull();
+    expect(answerKeyFor({ question_type: 'essay', correct_answer: null, answer_spec: {} })).toBeNull();
+  });
+});
+
+describe('scoreAnswer', () => {
+  it('single_choice: full credit for the keyed option only', () => {
+    const key: AnswerKey = { type: 'single_choice', correct: 'B' };
+
+    expect(scoreAnswer(key, 'B')).toBe(1);
+    expect(scoreAnswer(key, 'A')).toBe(0);
+  });
+
+  it('numeric: accepts answers within the tolerance despite float error', () => {
+    const key: AnswerKey = { type: 'numeric', value: 0.3, tolerance: 0.1 };
+
+    expect(scoreAnswer(key, 0.1 + 0.1)).toBe(1);
+    expect(scoreAnswer(key, 0.4)).toBe(1);
+    expect(scoreAnswer(key, 0.41)).toBe(0);
+    expect(scoreAnswer(key, '0.3')).toBe(0);
+  });
+
+  it('multi_select: correct minus wrong picks over the correct count, floored at 0', () => {
+    const key: AnswerKey = { type: 'multi_select', correct: ['A', 'C'] };
+
+    expect(scoreAnswer(key, ['A', 'C'])).toBe(1);
+    expect(scoreAnswer(key, ['A'])).toBe(0.5);
+    expect(scoreAnswer(key, ['A', 'B'])).toBe(0);
+    expect(scoreAnswer(key, ['A', 'B', 'C', 'D'])).toBe(0);
+    expect(scoreAnswer(key, ['B', 'D'])).toBe(0);
+  });
+
+  it('ordering: share of items in their correct position', () => {
+    const key: AnswerKey = { type: 'ordering', order: ['C', 'A', 'D', 'B'] };
+
+    expect(scoreAnswer(key, ['C', 'A', 'D', 'B'])).toBe(1);
+    expect(scoreAnswer(key, ['C', 'A', 'B', 'D'])).toBe(0.5);
+    expect(scoreAnswer(key, ['A', 'B', 'C', 'D'])).toBe(0);
+  });
+
+  it('short_text: ignores surrounding and repeated whitespace, and case unless required', () => {
+    const key: AnswerKey = { type: 'short_text', accepted: ['New  York', 'NYC'], caseSensitive: false };
+    const strict: AnswerKey = { ...key, caseSensitive: true };
+
+    expect(scoreAnswer(key, '  new york ')).toBe(1);
+    expect(scoreAnswer(key, 'nyc')).toBe(1);
+    expect(scoreAnswer(strict, 'nyc')).toBe(0);
+    expect(scoreAnswer(key, 'York')).toBe(0);
+  });
+
+  it('the key scored as an answer earns full credit', () => {
+    const keys: AnswerKey[] = [
+      { type: 'single_choice', correct: 'D' },
+      { type: 'numeric', value: 42, tolerance: 0 },
+      { type: 'multi_select', correct: ['B', 'D'] },
+      { type: 'ordering', order: ['B', 'A', 'C'] },
+      { type: 'short_text', accepted: ['Mercury'], caseSensitive: true }
+    ];
+
+    for (const key of keys) {
+      expect(scoreAnswer(key, correctAnswerOf(key))).toBe(1);
+    }
+  });
+});
+
+describe('validateAnswer', () => {
+  it('accepts a skip for every type', () => {
+    expect(validateAnswer({ type: 'numeric', value: 1, tolerance: 0 }, SKIP_ANSWER, {})).toBeNull();
+    expect(validateAnswer({ type: 'single_choice', correct: 'A' }, SKIP_ANSWER, THREE_OPTIONS)).toBeNull();
+  });
+
+  it('single_choice: only letters the question shows', () => {
+    const key: AnswerKey = { type: 'single_choice', correct: 'A' };
+
+    expect(validateAnswer(key, 'C', THREE_OPTIONS)).toBeNull();
+    expect(validateAnswer(key, 'D', THREE_OPTIONS)).toBe('must be one of A, B, C, or SKIP');
+    expect(validateAnswer(key, 'a', FOUR_OPTIONS)).not.toBeNull();
+  });
+
+  it('multi_select: a non-empty list of distinct shown letters', () => {
+    const key: AnswerKey = { type: 'multi_select', correct: ['A'] };
+
+    expect(validateAnswer(key, ['A', 'C'], THREE_OPTIONS)).toBeNull();
+    expect(validateAnswer(key, ['A', 'D'], THREE_OPTIONS)).not.toBeNull();
+    expect(validateAnswer(key, ['A', 'A'], THREE_OPTIONS)).not.toBeNull();
+    expect(validateAnswer(key, [], THREE_OPTIONS)).not.toBeNull();
+  });
+
+  it('ordering: every keyed item exactly once', () => {
+    const key: AnswerKey = { type: 'ordering', order: ['A', 'B', 'C'] };
+
+    expect(validateAnswer(key, ['C', 'A', 'B'], THREE_OPTIONS)).toBeNull();
+    expect(validateAnswer(key, ['C', 'A'], THREE_OPTIONS)).not.toBeNull();
+    expect(validateAnswer(key, ['C', 'A', 'D'], FOUR_OPTIONS)).not.toBeNull();
+  });
+
+  it('numeric and short_text: value shape and length', () => {
+    const numeric: AnswerKey = { type: 'numeric', value: 1, tolerance: 0 };
+    const text: AnswerKey = { type: 'short_text', accepted: ['x'], caseSensitive: false };
+
+    expect(validateAnswer(numeric, 3.5, {})).toBeNull();
+    expect(validateAnswer(numeric, Number.NaN, {})).not.toBeNull();
+    expect(validateAnswer(numeric, '3.5', {})).not.toBeNull();
+    expect(validateAnswer(text, 'x', {})).toBeNull();
+    expect(validateAnswer(text, '   ', {})).not.toBeNull();
+    expect(validateAnswer(text, 'x'.repeat(SHORT_TEXT_MAX_LENGTH + 1), {})).not.toBeNull();
+  });
+});
+
+describe('questionOptions', () => {
+  const columns = { option_a: 'one', option_b: 'two', option_c: '', option_d: null };
+
+  it('lists the non-empty option columns of choice-style questions', () => {
+    expect(questionOptions(null, columns)).toEqual({ A: 'one', B: 'two' });
+    expect(questionOptions('ordering', columns)).toEqual({ A: 'one', B: 'two' });
+  });
+
+  it('shows no options for typed answers', () => {
+    expect(questionOptions('numeric', columns)).toEqual({});
+    expect(questionOptions('short_text', columns)).toEqual({});
+  });
+});
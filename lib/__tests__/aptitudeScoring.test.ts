@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { guessingPenalty, scoreAptitudeAnswers } from '@/lib/aptitudeScoring';
+import type { ScorableQuestion } from '@/lib/aptitudeScoring';
+
+const FOUR_OPTIONS = { option_a: 'one', option_b: 'two', option_c: 'three', option_d: 'four' };
+const THREE_OPTIONS = { ...FOUR_OPTIONS, option_d: null };
+
+function question(id: string, overrides: Partial<ScorableQuestion> = {}): ScorableQuestion {
+  return {
+    id,
+    category: 'numerical',
+    question_type: 'single_choice',
+    correct_answer: 'A',
+    answer_spec: null,
+    score_weight: 1,
+    ...FOUR_OPTIONS,
+    ...overrides
+  };
+}
+
+describe('guessingPenalty', () => {
+  it('is 1 / (k - 1) for a single-choice question with k options', () => {
+    expect(guessingPenalty(question('q4'))).toBeCloseTo(1 / 3);
+    expect(guessingPenalty(question('q3', THREE_OPTIONS))).toBe(0.5);
+    expect(guessingPenalty(question('legacy', { question_type: null }))).toBeCloseTo(1 / 3);
+  });
+
+  it('is zero for types that cannot be blind-guessed among k options', () => {
+    expect(guessingPenalty(question('n', { question_type: 'numeric', answer_spec: { value: 1 } }))).toBe(0);
+    expect(guessingPenalty(question('m', { question_type: 'multi_select', answer_spec: { correct: ['A'] } }))).toBe(0);
+    expect(guessingPenalty(question('o', { question_type: 'ordering' }))).toBe(0);
+  });
+});
+
+describe('scoreAptitudeAnswers', () => {
+  const questions = [
+    question('four'),
+    question('three', THREE_OPTIONS),
+    question('numeric', { question_type: 'numeric', correct_answer: null, answer_spec: { value: 10 } }),
+    question('right')
+  ];
+  const answers = { four: 'B', three: 'C', numeric: 11, right: 'A' };
+
+  it('negative marking penalises wrong single-choice answers by their option count only', () => {
+    const score = scoreAptitudeAnswers(answers, questions, 'negative_marking');
+
+    expect(score.counts).toEqual({ correct: 1, partial: 0, wrong: 3, skipped: 0 });
+    // 1 - 1/3 - 1/2, with the wrong numeric answer unpenalised
+    expect(score.weighted.score).toBe(0.17);
+    expect(score.raw.total).toBe(1);
+  });
+
+  it('standard scoring never deducts', () => {
+    expect(scoreAptitudeAnswers(answers, questions, 'standard').weighted.score).toBe(1);
+  });
+});
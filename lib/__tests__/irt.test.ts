@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CAT_STOPPING_RULE,
+  estimateAbility,
+  itemInformation,
+  PRIOR_ESTIMATE,
+  probabilityCorrect,
+  selectMaxInformationItem,
+  shouldStopTesting
+} from '@/lib/irt';
+import type { ItemParameters } from '@/lib/irt';
+
+const AVERAGE: ItemParameters = { difficulty: 0, discrimination: 1 };
+
+describe('item response functions', () => {
+  it('gives P = 0.5 and information a^2 / 4 at the difficulty', () => {
+    const item = { difficulty: 1.2, discrimination: 1.5 };
+
+    expect(probabilityCorrect(1.2, item)).toBe(0.5);
+    expect(itemInformation(1.2, item)).toBeCloseTo(0.5625, 10);
+  });
+
+  it('is symmetric around the difficulty', () => {
+    expect(probabilityCorrect(1, AVERAGE) + probabilityCorrect(-1, AVERAGE)).toBeCloseTo(1, 12);
+    expect(probabilityCorrect(1, AVERAGE)).toBeCloseTo(1 / (1 + Math.exp(-1)), 12);
+  });
+});
+
+describe('estimateAbility (EAP)', () => {
+  it('returns the prior before any response', () => {
+    expect(estimateAbility([])).toEqual(PRIOR_ESTIMATE);
+  });
+
+  // Reference values: posterior mean and SD by fine numerical integration
+  it('matches the posterior for one correct answer', () => {
+    const estimate = estimateAbility([{ item: AVERAGE, correct: true }]);
+
+    expect(estimate.theta).toBeCloseTo(0.413, 2);
+    expect(estimate.standardError).toBeCloseTo(0.91, 2);
+  });
+
+  it('matches the posterior for a mixed pattern', () => {
+    const estimate = estimateAbility([
+      { item: { difficulty: -1, discrimination: 1.5 }, correct: true },
+      { item: { difficulty: 0, discrimination: 1.5 }, correct: true },
+      { item: { difficulty: 1, discrimination: 1.5 }, correct: false }
+    ]);
+
+    expect(estimate.theta).toBeCloseTo(0.355, 2);
+    expect(estimate.standardError).toBeCloseTo(0.691, 2);
+  });
+
+  it('mirrors theta when every answer is flipped', () => {
+    const right = estimateAbility([{ item: AVERAGE, correct: true }]);
+    const wrong = estimateAbility([{ item: AVERAGE, correct: false }]);
+
+    expect(wrong.theta).toBe(-right.theta);
+    expect(wrong.standardError).toBe(right.standardError);
+  });
+
+  it('stays finite for an all-correct pattern and shrinks the standard error', () => {
+    const estimate = estimateAbility(
+      Array.from({ length: 5 }, () => ({ item: { difficulty: 0, discrimination: 2 }, correct: true }))
+    );
+
+    expect(estimate.theta).toBeCloseTo(1.224, 2);
+    expect(estimate.standardError).toBeLessThan(PRIOR_ESTIMATE.standardError);
+  });
+});
+
+describe('selectMaxInformationItem', () => {
+  const candidates = [
+    { id: 'easy', difficulty: -2, discrimination: 1 },
+    { id: 'matched', difficulty: 0.5, discrimination: 1 },
+    { id: 'twin', difficulty: 0.5, discrimination: 1 },
+    { id: 'hard', difficulty: 2, discrimination: 1 }
+  ];
+
+  it('picks the item targeted at theta and keeps the earlier one on ties', () => {
+    expect(selectMaxInformationItem(0.4, candidates)?.id).toBe('matched');
+  });
+
+  it('prefers the more discriminating item at equal difficulty', () => {
+    const sharper = { id: 'sharper', difficulty: 0.5, discrimination: 2 };
+    expect(selectMaxInformationItem(0.5, [...candidates, sharper])?.id).toBe('sharper');
+  });
+
+  it('returns null without candidates', () => {
+    expect(selectMaxInformationItem(0, [])).toBeNull();
+  });
+});
+
+describe('shouldStopTesting', () => {
+  const precise = { theta: 0, standardError: CAT_STOPPING_RULE.TARGET_STANDARD_ERROR };
+  const imprecise = { theta: 0, standardError: 0.6 };
+
+  it('stops at the target standard error once the minimum items are given', () => {
+    expect(shouldStopTesting(precise, CAT_STOPPING_RULE.MIN_ITEMS, 10)).toBe(true);
+    expect(shouldStopTesting(precise, CAT_STOPPING_RULE.MIN_ITEMS - 1, 10)).toBe(false);
+    expect(shouldStopTesting(imprecise, CAT_STOPPING_RULE.MIN_ITEMS, 10)).toBe(false);
+  });
+
+  it('stops at the item limit or when the bank runs out', () => {
+    expect(shouldStopTesting(imprecise, CAT_STOPPING_RULE.MAX_ITEMS, 10)).toBe(true);
+    expect(shouldStopTesting(imprecise, 1, 0)).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeItems } from '@/lib/itemStatistics';
+import type { PsychQuestion, UserAnswers } from '@/lib/calculateBigFiveScore';
+
+function question(id: string, polarity: 1 | -1): PsychQuestion {
+  return { id, trait: 'openness', polarity, question_text: id };
+}
+
+const QUESTIONS = [question('o1', 1), question('o2', 1), question('o3', -1), question('o4', 1)];
+
+// Keyed scores [1,2,1,1] [2,2,3,2] [3,4,3,4] [4,4,5,4] [5,3,4,5]; o3 is stored raw (6 - keyed)
+const RESPONSES: UserAnswers[] = [
+  { o1: 1, o2: 2, o3: 5, o4: 1 },
+  { o1: 2, o2: 2, o3: 3, o4: 2 },
+  { o1: 3, o2: 4, o3: 3, o4: 4 },
+  { o1: 4, o2: 4, o3: 1, o4: 4 },
+  { o1: 5, o2: 3, o3: 2, o4: 5 }
+];
+
+describe('analyzeItems', () => {
+  it("computes Cronbach's alpha on keyed scores", () => {
+    const report = analyzeItems(RESPONSES, QUESTIONS);
+
+    expect(report.traits.openness).toEqual({ itemCount: 4, completeCases: 5, alpha: 0.93 });
+    expect(report.suspectKeying).toEqual([]);
+  });
+
+  it('computes corrected item-total correlations and raw item moments', () => {
+    const items = analyzeItems(RESPONSES, QUESTIONS).items;
+
+    expect(items.map(item => item.itemTotalCorrelation)).toEqual([0.92, 0.721, 0.842, 0.937]);
+    expect(items[2]).toMatchObject({ questionId: 'o3', n: 5, mean: 2.8, scalePoints: 5 });
+  });
+
+  it('uses complete cases for alpha but every answer for item moments', () => {
+    const report = analyzeItems([...RESPONSES, { o1: 5, o2: 5, o3: 1 }], QUESTIONS);
+
+    expect(report.traits.openness.completeCases).toBe(5);
+    expect(report.traits.openness.alpha).toBe(0.93);
+    expect(report.items[0].n).toBe(6);
+  });
+
+  it('flags an item whose polarity looks wrong', () => {
+    const miskeyed = [question('o1', 1), question('o2', 1), question('o3', 1), question('o4', 1)];
+    const report = analyzeItems(RESPONSES, miskeyed);
+
+    expect(report.suspectKeying).toEqual([
+      { questionId: 'o3', trait: 'openness', polarity: 1, itemTotalCorrelation: -0.842 }
+    ]);
+  });
+
+  it('returns null statistics for traits without enough items or responses', () => {
+    const report = analyzeItems(RESPONSES.slice(0, 1), QUESTIONS);
+
+    expect(report.traits.openness.alpha).toBeNull();
+    expect(report.items[0].itemTotalCorrelation).toBeNull();
+    expect(report.traits.neuroticism).toEqual({ itemCount: 0, completeCases: 1, alpha: null });
+    expect(report.sufficientSample).toBe(false);
+  });
+});
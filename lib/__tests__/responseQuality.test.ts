@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { assessResponseQuality, parseResponseTimings } from '@/lib/responseQuality';
+import type { PsychQuestion, UserAnswers } from '@/lib/calculateBigFiveScore';
+
+const QUESTIONS: PsychQuestion[] = Array.from({ length: 12 }, (_, i) => ({
+  id: `q${i}`,
+  trait: 'openness',
+  polarity: i % 2 === 0 ? 1 : -1,
+  question_text: `q${i}`
+}));
+
+// Alternating 4 and 2: consistent after reverse keying, no long runs
+const ANSWERS: UserAnswers = Object.fromEntries(QUESTIONS.map((q, i) => [q.id, i % 2 === 0 ? 4 : 2]));
+
+function stampsEvery(ms: number, count = QUESTIONS.length): Record<string, number> {
+  return Object.fromEntries(QUESTIONS.slice(0, count).map((q, i) => [q.id, 1_000_000 + (i + 1) * ms]));
+}
+
+describe('assessResponseQuality', () => {
+  it('passes an attentive, steadily paced submission', () => {
+    const report = assessResponseQuality(ANSWERS, QUESTIONS, {
+      startedAt: 1_000_000,
+      answeredAt: stampsEvery(5000)
+    });
+
+    expect(report.flags).toEqual([]);
+    expect(report.responseTime).toEqual({ medianMs: 5000, fastRatio: 0, flagged: false });
+  });
+
+  it('flags straight-lining and contradictory answers', () => {
+    const same = Object.fromEntries(QUESTIONS.map(q => [q.id, 5]));
+    const report = assessResponseQuality(same, QUESTIONS);
+
+    expect(report.longstring).toEqual({ maxRun: 12, flagged: true });
+    expect(report.inconsistency.index).toBe(4);
+    expect(report.flags).toEqual(['LONGSTRING', 'INCONSISTENT']);
+    expect(report.recommendRetake).toBe(true);
+  });
+
+  it('flags answers given faster than they can be read', () => {
+    const report = assessResponseQuality(ANSWERS, QUESTIONS, { answeredAt: stampsEvery(500) });
+
+    expect(report.responseTime).toEqual({ medianMs: 500, fastRatio: 1, flagged: true });
+    expect(report.flags).toEqual(['TOO_FAST']);
+  });
+
+  it('stays finite with partial timings and uses the timed items only', () => {
+    const report = assessResponseQuality(ANSWERS, QUESTIONS, { answeredAt: stampsEvery(5000, 8) });
+
+    expect(report.responseTime).toEqual({ medianMs: 5000, fastRatio: 0, flagged: false });
+    expect(report.longstring.maxRun).toBe(1);
+  });
+
+  it('skips the timing check when too few items are timed', () => {
+    const report = assessResponseQuality(ANSWERS, QUESTIONS, { answeredAt: stampsEvery(500, 5) });
+
+    expect(report.responseTime).toBeNull();
+    expect(report.flags).toEqual([]);
+  });
+
+  it('ignores a start time later than the first answer', () => {
+    const report = assessResponseQuality(ANSWERS, QUESTIONS, {
+      startedAt: 2_000_000,
+      answeredAt: stampsEvery(5000)
+    });
+
+    expect(report.responseTime?.medianMs).toBe(5000);
+  });
+});
+
+describe('parseResponseTimings', () => {
+  it('distinguishes absent from malformed timings', () => {
+    expect(parseResponseTimings(undefined)).toBeUndefined();
+    expect(parseResponseTimings({ answeredAt: { q0: 'soon' } })).toBe(false);
+    expect(parseResponseTimings({ startedAt: 1, answeredAt: [] })).toBe(false);
+    expect(parseResponseTimings({ answeredAt: { q0: 5 } })).toEqual({ startedAt: undefined, answeredAt: { q0: 5 } });
+  });
+});
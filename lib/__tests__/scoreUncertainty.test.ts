@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  confidenceBands,
+  estimateUncertainty,
+  isConfidentlyAbove,
+  LEGACY_FULL_FORM_RELIABILITY,
+  REFERENCE_TRAIT_SD
+} from '@/lib/scoreUncertainty';
+import type { BigFiveScoreResult } from '@/lib/calculateBigFiveScore';
+import type { FormReliability } from '@/lib/psychForms';
+
+const UNIFORM_RELIABILITY: FormReliability = {
+  openness: 0.75,
+  conscientiousness: 0.75,
+  extraversion: 0.75,
+  agreeableness: 0.75,
+  neuroticism: 0.75
+};
+
+const SCORES: BigFiveScoreResult = {
+  openness: 50,
+  conscientiousness: 2,
+  extraversion: 98,
+  agreeableness: 60,
+  neuroticism: 40
+};
+
+describe('estimateUncertainty', () => {
+  it('computes SEM = SD * sqrt(1 - reliability) per trait', () => {
+    const { mode, standardError } = estimateUncertainty('short', UNIFORM_RELIABILITY);
+
+    expect(mode).toBe('short');
+    // sqrt(1 - 0.75) = 0.5
+    expect(standardError).toEqual({
+      openness: REFERENCE_TRAIT_SD.openness / 2,
+      conscientiousness: 8.8,
+      extraversion: REFERENCE_TRAIT_SD.extraversion / 2,
+      agreeableness: REFERENCE_TRAIT_SD.agreeableness / 2,
+      neuroticism: REFERENCE_TRAIT_SD.neuroticism / 2
+    });
+  });
+
+  it('gives lower reliability a wider standard error', () => {
+    const full = estimateUncertainty('full', LEGACY_FULL_FORM_RELIABILITY);
+    const short = estimateUncertainty('short', UNIFORM_RELIABILITY);
+
+    expect(short.standardError.openness).toBeGreaterThan(full.standardError.openness);
+  });
+
+  it.each([0, 1, -0.2, Number.NaN])('rejects reliability %s', value => {
+    expect(() =>
+      estimateUncertainty('short', { ...UNIFORM_RELIABILITY, agreeableness: value })
+    ).toThrow('Invalid reliability for agreeableness');
+  });
+});
+
+describe('confidenceBands', () => {
+  it('puts a 90% interval of 1.645 SE around each score', () => {
+    const bands = confidenceBands(SCORES, estimateUncertainty('short', UNIFORM_RELIABILITY));
+
+    // openness SE 7.5: 50 +/- 12.3375
+    expect(bands.openness).toEqual({ score: 50, standardError: 7.5, lower: 37.7, upper: 62.3 });
+  });
+
+  it('clamps intervals to 0-100', () => {
+    const bands = confidenceBands(SCORES, estimateUncertainty('short', UNIFORM_RELIABILITY));
+
+    expect(bands.conscientiousness.lower).toBe(0);
+    expect(bands.extraversion.upper).toBe(100);
+  });
+
+  it('falls back to the legacy full-form reliability without stored uncertainty', () => {
+    const legacy = estimateUncertainty('full', LEGACY_FULL_FORM_RELIABILITY);
+
+    expect(confidenceBands(SCORES, null)).toEqual(confidenceBands(SCORES, legacy));
+  });
+});
+
+describe('isConfidentlyAbove', () => {
+  it('requires the whole interval above the threshold', () => {
+    const band = { score: 70, standardError: 5, lower: 61.8, upper: 78.2 };
+
+    expect(isConfidentlyAbove(band, 60)).toBe(true);
+    expect(isConfidentlyAbove(band, 65)).toBe(false);
+  });
+});
@@ -0,0 +1,321 @@
+// =====================================================
+// Aptitude Answer-Similarity Analysis
+// =====================================================
+// Pure mathematical utility: finds pairs of submissions whose wrong
+// answers agree more often than independent test takers would.
+// Correct answers say little (able students agree on them); the
+// evidence is in identical INCORRECT options.
+//
+// For each item the chance that two independent wrong answers pick
+// the same distractor is p_i = sum_k f_ik^2, where f_ik is the
+// share of all wrong answers to item i that chose option k
+// (Laplace-smoothed). Over the items both members of a pair got
+// wrong, the number of identical wrong answers M then follows a
+// Poisson-binomial distribution with those p_i. The collusion index
+// is the standardized excess (M - E[M]) / SD[M]; a pair is flagged
+// when the exact upper-tail probability P(X >= M) is below
+// alpha / pairs compared (Bonferroni) and M is large enough to act
+// on.
+//
+// Only single-choice items are compared, on canonical letters, so
+// per-session option shuffling does not hide shared answers.
+// =====================================================
+
+import { APTITUDE_OPTIONS, isAptitudeOption } from '@/lib/aptitudeCat';
+import type { AptitudeOption } from '@/lib/aptitudeCat';
+import type { AptitudeAnswer } from '@/lib/aptitudeQuestionTypes';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+/**
+ * Family-wise false-alarm rate across all pairs compared in a run
+ */
+export const DEFAULT_COLLUSION_ALPHA = 0.01;
+
+/**
+ * Fewer identical wrong answers than this are never flagged,
+ * however unlikely
+ */
+export const MIN_IDENTICAL_WRONG = 4;
+
+/**
+ * Submissions this close together are compared
+ */
+export const DEFAULT_WINDOW_MINUTES = 120;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * cohort: e.g. 'institution:<name>'; submissions in the same cohort
+ *   are compared whatever their time apart
+ * answers: canonical answers keyed by question id
+ */
+export interface SimilaritySubmission {
+  id: string;
+  userId: string;
+  createdAt: number;
+  cohort: string | null;
+  answers: Record<string, AptitudeAnswer>;
+}
+
+/**
+ * Correct option per single-choice question id
+ */
+export type SingleChoiceKey = Map<string, AptitudeOption>;
+
+export type PairReason = 'time_window' | 'cohort';
+
+/**
+ * submissionA / submissionB: ordered by id so a pair has one identity
+ * collusionIndex: null when every shared wrong item is certain to
+ *   match or to differ (no variance)
+ */
+export interface SimilarityPair {
+  submissionA: string;
+  submissionB: string;
+  userA: string;
+  userB: string;
+  reason: PairReason;
+  bothWrong: number;
+  identicalWrong: number;
+  expectedIdenticalWrong: number;
+  collusionIndex: number | null;
+  pValue: number;
+}
+
+export interface CollusionOptions {
+  windowMinutes?: number;
+  alpha?: number;
+  minIdenticalWrong?: number;
+}
+
+export interface CollusionReport {
+  submissions: number;
+  pairsCompared: number;
+  threshold: number;
+  flagged: SimilarityPair[];
+}
+
+// =====================================================
+// ITEM PROBABILITIES
+// =====================================================
+
+/**
+ * Wrong single-choice answers of a submission (skips and other
+ * answer types are left out)
+ */
+export function wrongAnswersOf(
+  answers: Record<string, AptitudeAnswer>,
+  key: SingleChoiceKey
+): Map<string, AptitudeOption> {
+  const wrong = new Map<string, AptitudeOption>();
+
+  for (const [questionId, answer] of Object.entries(answers)) {
+    const correct = key.get(questionId);
+    if (correct && isAptitudeOption(answer) && answer !== correct) {
+      wrong.set(questionId, answer);
+    }
+  }
+
+  return wrong;
+}
+
+/**
+ * Per item, the chance two independent wrong answers are identical
+ *
+ * Counts get one pseudo-response per distractor, so rarely missed
+ * items do not produce extreme probabilities.
+ */
+export function sameWrongProbabilities(
+  wrongSets: Map<string, AptitudeOption>[]
+): Map<string, number> {
+  const counts = new Map<string, Map<AptitudeOption, number>>();
+
+  for (const wrong of wrongSets) {
+    for (const [questionId, option] of wrong) {
+      const itemCounts = counts.get(questionId) || new Map<AptitudeOption, number>();
+      itemCounts.set(option, (itemCounts.get(option) ?? 0) + 1);
+      counts.set(questionId, itemCounts);
+    }
+  }
+
+  const distractors = APTITUDE_OPTIONS.length - 1;
+  const probabilities = new Map<string, number>();
+
+  for (const [questionId, itemCounts] of counts) {
+    const total = [...itemCounts.values()].reduce((sum, count) => sum + count, 0) + distractors;
+    const observed = [...itemCounts.values()].map(count => (count + 1) / total);
+    // Distractors nobody chose still carry their pseudo-response
+    const unseen = Math.max(0, distractors - itemCounts.size);
+    const shares = [...observed, ...new Array<number>(unseen).fill(1 / total)];
+
+    probabilities.set(
+      questionId,
+      Math.min(1, shares.reduce((sum, share) => sum + share * share, 0))
+    );
+  }
+
+  return probabilities;
+}
+
+// =====================================================
+// PAIR STATISTIC
+// =====================================================
+
+/**
+ * Identical-wrong statistic for one pair of wrong-answer sets
+ */
+export function compareWrongAnswers(
+  a: Map<string, AptitudeOption>,
+  b: Map<string, AptitudeOption>,
+  probabilities: Map<string, number>
+): Pick<SimilarityPair, 'bothWrong' | 'identicalWrong' | 'expectedIdenticalWrong' | 'collusionIndex' | 'pValue'> {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  const itemProbabilities: number[] = [];
+  let identicalWrong = 0;
+
+  for (const [questionId, option] of smaller) {
+    const other = larger.get(questionId);
+    if (other === undefined) {
+      continue;
+    }
+
+    itemProbabilities.push(probabilities.get(questionId) ?? 1 / (APTITUDE_OPTIONS.length - 1));
+    if (other === option) {
+      identicalWrong++;
+    }
+  }
+
+  const expected = itemProbabilities.reduce((sum, p) => sum + p, 0);
+  const variance = itemProbabilities.reduce((sum, p) => sum + p * (1 - p), 0);
+
+  return {
+    bothWrong: itemProbabilities.length,
+    identicalWrong,
+    expectedIdenticalWrong: round(expected, 3),
+    collusionIndex: variance > 0 ? round((identicalWrong - expected) / Math.sqrt(variance), 3) : null,
+    pValue: poissonBinomialUpperTail(itemProbabilities, identicalWrong)
+  };
+}
+
+/**
+ * P(X >= k) for X the number of successes in independent trials
+ * with the given probabilities (exact, by dynamic programming)
+ */
+export function poissonBinomialUpperTail(probabilities: number[], k: number): number {
+  if (k <= 0) {
+    return 1;
+  }
+
+  if (k > probabilities.length) {
+    return 0;
+  }
+
+  // distribution[j] = P(j successes so far)
+  let distribution = [1];
+  for (const p of probabilities) {
+    const next = new Array<number>(distribution.length + 1).fill(0);
+    distribution.forEach((probability, successes) => {
+      next[successes] += probability * (1 - p);
+      next[successes + 1] += probability * p;
+    });
+    distribution = next;
+  }
+
+  return Math.min(1, distribution.slice(k).reduce((sum, probability) => sum + probability, 0));
+}
+
+// =====================================================
+// RUN
+// =====================================================
+
+/**
+ * Compare every pair of submissions by different users that were
+ * made within the time window of each other or share a cohort, and
+ * return the pairs that pass the flagging rule, most extreme first
+ */
+export function detectCollusion(
+  submissions: SimilaritySubmission[],
+  key: SingleChoiceKey,
+  options: CollusionOptions = {}
+): CollusionReport {
+  const windowMs = (options.windowMinutes ?? DEFAULT_WINDOW_MINUTES) * 60 * 1000;
+  const alpha = options.alpha ?? DEFAULT_COLLUSION_ALPHA;
+  const minIdenticalWrong = options.minIdenticalWrong ?? MIN_IDENTICAL_WRONG;
+
+  const wrongSets = submissions.map(submission => wrongAnswersOf(submission.answers, key));
+  const probabilities = sameWrongProbabilities(wrongSets);
+
+  const candidates: SimilarityPair[] = [];
+
+  for (let i = 0; i < submissions.length; i++) {
+    for (let j = i + 1; j < submissions.length; j++) {
+      const a = submissions[i];
+      const b = submissions[j];
+      if (a.userId === b.userId) {
+        continue;
+      }
+
+      const reason = pairReason(a, b, windowMs);
+      if (!reason || wrongSets[i].size === 0 || wrongSets[j].size === 0) {
+        continue;
+      }
+
+      const statistic = compareWrongAnswers(wrongSets[i], wrongSets[j], probabilities);
+      if (statistic.bothWrong === 0) {
+        continue;
+      }
+
+      const [first, second] = a.id < b.id ? [a, b] : [b, a];
+      candidates.push({
+        submissionA: first.id,
+        submissionB: second.id,
+        userA: first.userId,
+        userB: second.userId,
+        reason,
+        ...statistic
+      });
+    }
+  }
+
+  const threshold = candidates.length > 0 ? alpha / candidates.length : alpha;
+  const flagged = candidates
+    .filter(pair => pair.identicalWrong >= minIdenticalWrong && pair.pValue <= threshold)
+    .sort((x, y) => x.pValue - y.pValue);
+
+  return {
+    submissions: submissions.length,
+    pairsCompared: candidates.length,
+    threshold,
+    flagged
+  };
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+function pairReason(
+  a: SimilaritySubmission,
+  b: SimilaritySubmission,
+  windowMs: number
+): PairReason | null {
+  if (Math.abs(a.createdAt - b.createdAt) <= windowMs) {
+    return 'time_window';
+  }
+
+  if (a.cohort !== null && a.cohort === b.cohort) {
+    return 'cohort';
+  }
+
+  return null;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
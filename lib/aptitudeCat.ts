@@ -0,0 +1,560 @@
+// =====================================================
+// Adaptive Aptitude Test Sessions (CAT)
+// =====================================================
+// Shared by /api/aptitude/next-question: item bank access, session
+// lookup with ownership and expiry, per-category ability estimates
+// and next-item selection. Each active category (aptitude_categories)
+// is a separate adaptive sub-test with its own theta, administered
+// in category order. Sessions are timed
+// (lib/aptitudeTiming.ts) and written only with the service-role
+// client so users cannot alter responses or timestamps. IRT math
+// lives in lib/irt.ts.
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { secondsRemaining } from '@/lib/aptitudeTiming';
+import {
+  estimateAbility,
+  expectedProportionCorrect,
+  selectMaxInformationItem,
+  shouldStopTesting
+} from '@/lib/irt';
+import type { ItemParameters } from '@/lib/irt';
+import { fetchAptitudeCategories } from '@/lib/aptitudeCategories';
+import type { AptitudeCategoryDefinition, CategoryBreakdown } from '@/lib/aptitudeCategories';
+import type { OptionOrder } from '@/lib/aptitudeOptionOrder';
+import { questionOptions } from '@/lib/aptitudeQuestionTypes';
+import type { DeliveredQuestionMedia, QuestionMedia } from '@/lib/aptitudeMedia';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+/**
+ * Category slug from aptitude_categories (lib/aptitudeCategories.ts)
+ */
+export type AptitudeCategory = string;
+
+export const APTITUDE_OPTIONS = ['A', 'B', 'C', 'D'] as const;
+export type AptitudeOption = typeof APTITUDE_OPTIONS[number];
+
+/**
+ * Adaptive sessions expire 24 hours after creation
+ */
+export const CAT_SESSION_TTL_HOURS = 24;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const CAT_SESSION_COLUMNS =
+  'id, user_id, status, current_question_id, current_served_at, current_option_order, responses, estimates, submission_id, started_at, deadline_at, expires_at, finalized_at, created_at, updated_at';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface CatBankItem extends ItemParameters {
+  id: string;
+  category: AptitudeCategory;
+  questionText: string;
+  // Non-empty option columns only; an item may have fewer than four
+  options: Partial<Record<AptitudeOption, string>>;
+  media: QuestionMedia | null;
+  correctAnswer: AptitudeOption;
+}
+
+/**
+ * categories: active categories in administration order
+ */
+export interface CatItemBank {
+  categories: AptitudeCategoryDefinition[];
+  items: Record<AptitudeCategory, CatBankItem[]>;
+}
+
+/**
+ * One scored answer, in the order administered
+ * answer: canonical letter; displayedAnswer: the letter the user
+ *   picked (absent on responses recorded before option shuffling)
+ * responseTimeMs: server time from serving the item to the answer
+ */
+export interface CatResponse {
+  questionId: string;
+  category: AptitudeCategory;
+  answer: AptitudeOption;
+  displayedAnswer?: AptitudeOption;
+  correct: boolean;
+  answeredAt: string;
+  responseTimeMs: number;
+}
+
+/**
+ * Current state of one category's sub-test
+ */
+export interface CategoryEstimate {
+  theta: number;
+  standardError: number;
+  itemCount: number;
+  correctCount: number;
+  complete: boolean;
+}
+
+export type CatEstimates = Record<AptitudeCategory, CategoryEstimate>;
+
+/**
+ * Final ability per category, stored on aptitude_submissions.theta
+ */
+export type AbilityProfile = Record<AptitudeCategory, {
+  theta: number;
+  standardError: number;
+  itemCount: number;
+}>;
+
+/**
+ * in_progress -> finalizing -> finalized
+ * in_progress -> expired (lazily, on first access after expires_at)
+ */
+export type CatSessionStatus = 'in_progress' | 'finalizing' | 'finalized' | 'expired';
+
+export interface CatSession {
+  id: string;
+  user_id: string;
+  status: CatSessionStatus;
+  current_question_id: string | null;
+  current_served_at: string | null;
+  current_option_order: OptionOrder | null;
+  responses: CatResponse[];
+  estimates: CatEstimates;
+  submission_id: string | null;
+  started_at: string;
+  deadline_at: string;
+  expires_at: string;
+  finalized_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Question as delivered to the client (no answer key or IRT
+ * parameters); options are relabelled with the session's order
+ */
+export interface CatQuestion {
+  id: string;
+  category: AptitudeCategory;
+  questionText: string;
+  options: Partial<Record<AptitudeOption, string>>;
+  media: DeliveredQuestionMedia | null;
+}
+
+export interface CatProgress {
+  sessionId: string;
+  status: CatSessionStatus;
+  itemsAnswered: number;
+  categories: Record<AptitudeCategory, { itemCount: number; complete: boolean }>;
+  deadlineAt: string;
+  secondsRemaining: number;
+  expiresAt: string;
+  submissionId: string | null;
+}
+
+interface DatabaseAptitudeItem {
+  id: string;
+  category: string;
+  question_text: string;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  media: QuestionMedia | null;
+  correct_answer: string;
+  irt_difficulty: number | string | null;
+  irt_discrimination: number | string | null;
+}
+
+export type FetchItemBankResult =
+  | { success: true; bank: CatItemBank }
+  | { success: false; error: string; code: string; details?: string; status: number };
+
+export type CatSessionLookupResult =
+  | { success: true; session: CatSession }
+  | { success: false; error: string; code: string; status: number };
+
+// =====================================================
+// ITEM BANK
+// =====================================================
+
+/**
+ * Fetch the calibrated item bank, grouped by active category
+ *
+ * Every category needs at least one item; rows with an inactive
+ * category, an answer key that is not one of the item's options or a
+ * non-positive discrimination are skipped.
+ * Only single_choice questions are used (the IRT model is binary).
+ *
+ * @param admin - Service-role client; aptitude_questions (which holds
+ *   the answer key) is not readable by users
+ */
+export async function fetchCatItemBank(
+  admin: SupabaseClient
+): Promise<FetchItemBankResult> {
+  const categoriesResult = await fetchAptitudeCategories(admin);
+  if (!categoriesResult.success) {
+    return categoriesResult;
+  }
+
+  const { categories } = categoriesResult;
+
+  const { data, error } = await admin
+    .from('aptitude_questions')
+    .select('id, category, question_text, option_a, option_b, option_c, option_d, media, correct_answer, irt_difficulty, irt_discrimination')
+    .eq('question_type', 'single_choice')
+    .eq('pool', 'official') // practice questions are never test items
+    .order('id');
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'aptitude_questions',
+      error: error.message
+    });
+
+    return {
+      success: false,
+      error: 'Failed to fetch questions',
+      code: 'DB_FETCH_FAILED',
+      status: 500
+    };
+  }
+
+  const items: CatItemBank['items'] = {};
+  for (const category of categories) {
+    items[category.slug] = [];
+  }
+
+  for (const row of (data || []) as DatabaseAptitudeItem[]) {
+    const difficulty = Number(row.irt_difficulty ?? 0);
+    const discrimination = Number(row.irt_discrimination ?? 1);
+    const options = questionOptions('single_choice', row);
+
+    if (
+      !items[row.category] ||
+      !isAptitudeOption(row.correct_answer) ||
+      !options[row.correct_answer] ||
+      !Number.isFinite(difficulty) ||
+      !Number.isFinite(discrimination) ||
+      discrimination <= 0
+    ) {
+      continue;
+    }
+
+    items[row.category].push({
+      id: row.id,
+      category: row.category,
+      questionText: row.question_text,
+      options,
+      media: row.media,
+      correctAnswer: row.correct_answer,
+      difficulty,
+      discrimination
+    });
+  }
+
+  const empty = categories
+    .map(category => category.slug)
+    .filter(slug => items[slug].length === 0);
+  if (empty.length > 0) {
+    console.error('[CAT_BANK_INCOMPLETE]', {
+      timestamp: new Date().toISOString(),
+      emptyCategories: empty
+    });
+
+    return {
+      success: false,
+      error: 'Question database integrity error',
+      code: 'CAT_BANK_INCOMPLETE',
+      details: `No usable questions for ${empty.join(', ')}`,
+      status: 503
+    };
+  }
+
+  return { success: true, bank: { categories, items } };
+}
+
+export function findBankItem(bank: CatItemBank, questionId: string): CatBankItem | null {
+  for (const category of bank.categories) {
+    const item = bank.items[category.slug].find(candidate => candidate.id === questionId);
+    if (item) {
+      return item;
+    }
+  }
+
+  return null;
+}
+
+// =====================================================
+// ESTIMATION AND SELECTION
+// =====================================================
+
+/**
+ * Re-estimate every category from the responses so far
+ *
+ * Responses whose question has left the bank keep counting toward the
+ * item count but no longer contribute to theta.
+ */
+export function estimateCategories(responses: CatResponse[], bank: CatItemBank): CatEstimates {
+  const estimates: CatEstimates = {};
+
+  for (const { slug: category } of bank.categories) {
+    const answered = responses.filter(response => response.category === category);
+    const answeredIds = new Set(answered.map(response => response.questionId));
+
+    const scored = answered.flatMap(response => {
+      const item = bank.items[category].find(candidate => candidate.id === response.questionId);
+      return item ? [{ item, correct: response.correct }] : [];
+    });
+
+    const estimate = estimateAbility(scored);
+    const remaining = bank.items[category].filter(item => !answeredIds.has(item.id)).length;
+
+    estimates[category] = {
+      theta: estimate.theta,
+      standardError: estimate.standardError,
+      itemCount: answered.length,
+      correctCount: answered.filter(response => response.correct).length,
+      complete: shouldStopTesting(estimate, answered.length, remaining)
+    };
+  }
+
+  return estimates;
+}
+
+/**
+ * Next item: maximum information at the current theta of the first
+ * category that has not met the stopping rule
+ *
+ * @returns null when every category is complete
+ */
+export function selectNextItem(
+  responses: CatResponse[],
+  estimates: CatEstimates,
+  bank: CatItemBank
+): CatBankItem | null {
+  const answeredIds = new Set(responses.map(response => response.questionId));
+
+  for (const { slug: category } of bank.categories) {
+    if (estimates[category]?.complete ?? true) {
+      continue;
+    }
+
+    const candidates = bank.items[category].filter(item => !answeredIds.has(item.id));
+    const next = selectMaxInformationItem(estimates[category].theta, candidates);
+    if (next) {
+      return next;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Expected number correct per category on the fixed-form scale
+ * (0 to the category's itemsPerAttempt), from theta and the
+ * category's item bank. A category with no answered items (time ran
+ * out before it started) scores 0 rather than the prior's
+ * expectation.
+ */
+export function expectedBreakdown(
+  estimates: CatEstimates,
+  bank: CatItemBank
+): CategoryBreakdown {
+  const breakdown: CategoryBreakdown = {};
+
+  for (const { slug: category, itemsPerAttempt } of bank.categories) {
+    const estimate = estimates[category];
+    if (!estimate || estimate.itemCount === 0) {
+      breakdown[category] = 0;
+      continue;
+    }
+
+    const proportion = expectedProportionCorrect(estimate.theta, bank.items[category]);
+    breakdown[category] = Math.round(proportion * itemsPerAttempt);
+  }
+
+  return breakdown;
+}
+
+/**
+ * The fixed-form scale adaptive results are reported on
+ */
+export function maxBreakdown(bank: CatItemBank): CategoryBreakdown {
+  const breakdown: CategoryBreakdown = {};
+
+  for (const { slug, itemsPerAttempt } of bank.categories) {
+    breakdown[slug] = itemsPerAttempt;
+  }
+
+  return breakdown;
+}
+
+export function toAbilityProfile(estimates: CatEstimates): AbilityProfile {
+  const profile: AbilityProfile = {};
+
+  for (const [category, { theta, standardError, itemCount }] of Object.entries(estimates)) {
+    profile[category] = { theta, standardError, itemCount };
+  }
+
+  return profile;
+}
+
+// =====================================================
+// SESSIONS
+// =====================================================
+
+/**
+ * Fetch an adaptive session owned by the user
+ *
+ * OWNERSHIP: the service-role client bypasses RLS, so ownership is
+ * enforced here by filtering on user_id; other users' sessions answer
+ * "not found" so ids cannot be probed.
+ * EXPIRY: an in-progress session past expires_at is marked expired.
+ *
+ * @param admin - Service-role client (createAdminClient)
+ */
+export async function fetchOwnedCatSession(
+  admin: SupabaseClient,
+  sessionId: string,
+  userId: string
+): Promise<CatSessionLookupResult> {
+  if (!UUID_PATTERN.test(sessionId)) {
+    return {
+      success: false,
+      error: 'Session not found',
+      code: 'SESSION_NOT_FOUND',
+      status: 404
+    };
+  }
+
+  const { data, error } = await admin
+    .from('aptitude_cat_sessions')
+    .select(CAT_SESSION_COLUMNS)
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'aptitude_cat_sessions',
+      sessionId,
+      error: error.message
+    });
+
+    return {
+      success: false,
+      error: 'Failed to fetch session',
+      code: 'DB_FETCH_FAILED',
+      status: 500
+    };
+  }
+
+  if (!data) {
+    return {
+      success: false,
+      error: 'Session not found',
+      code: 'SESSION_NOT_FOUND',
+      status: 404
+    };
+  }
+
+  const session = data as CatSession;
+
+  if (session.status === 'in_progress' && new Date(session.expires_at).getTime() <= Date.now()) {
+    await admin
+      .from('aptitude_cat_sessions')
+      .update({ status: 'expired', updated_at: new Date().toISOString() })
+      .eq('id', session.id)
+      .eq('status', 'in_progress');
+
+    session.status = 'expired';
+  }
+
+  return { success: true, session };
+}
+
+/**
+ * Guard for answers: only unexpired in-progress sessions accept them
+ */
+export function requireOpenCatSession(
+  session: CatSession
+): { success: true } | { success: false; error: string; code: string; status: number } {
+  switch (session.status) {
+    case 'in_progress':
+      return { success: true };
+    case 'expired':
+      return {
+        success: false,
+        error: 'Session expired',
+        code: 'SESSION_EXPIRED',
+        status: 410
+      };
+    case 'finalizing':
+      return {
+        success: false,
+        error: 'Session is being finalized',
+        code: 'SESSION_FINALIZING',
+        status: 409
+      };
+    case 'finalized':
+      return {
+        success: false,
+        error: 'Session already finalized',
+        code: 'SESSION_FINALIZED',
+        status: 409
+      };
+  }
+}
+
+export function catSessionExpiryFromNow(): string {
+  return new Date(Date.now() + CAT_SESSION_TTL_HOURS * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * @param media - Signed media (lib/aptitudeMedia.ts); the bank only
+ *   holds storage paths
+ */
+export function toCatQuestion(
+  item: CatBankItem,
+  media: DeliveredQuestionMedia | null = null
+): CatQuestion {
+  return {
+    id: item.id,
+    category: item.category,
+    questionText: item.questionText,
+    options: item.options,
+    media
+  };
+}
+
+export function toCatProgress(session: CatSession): CatProgress {
+  const categories: CatProgress['categories'] = {};
+
+  for (const [category, estimate] of Object.entries(session.estimates || {})) {
+    categories[category] = {
+      itemCount: estimate.itemCount,
+      complete: estimate.complete
+    };
+  }
+
+  return {
+    sessionId: session.id,
+    status: session.status,
+    itemsAnswered: (session.responses || []).length,
+    categories,
+    deadlineAt: session.deadline_at,
+    secondsRemaining: secondsRemaining(session.deadline_at),
+    expiresAt: session.expires_at,
+    submissionId: session.submission_id
+  };
+}
+
+export function isAptitudeOption(value: unknown): value is AptitudeOption {
+  return typeof value === 'string' && (APTITUDE_OPTIONS as readonly string[]).includes(value);
+}
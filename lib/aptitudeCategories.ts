@@ -0,0 +1,222 @@
+// =====================================================
+// Aptitude Categories and Blueprint
+// =====================================================
+// Categories are data (aptitude_categories), not code: each active
+// category has a label, its place in the test and how many items an
+// attempt draws from it (the blueprint). The question bank can be
+// larger than one attempt; each fixed-form session stores its own
+// random sample (aptitude_test_sessions.question_ids). Breakdowns
+// are keyed by category slug, and every submission stores the
+// maximum per category (max_breakdown) so scores from different
+// blueprints can be compared as percentages.
+// =====================================================
+
+import { randomInt } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * itemsPerAttempt: fixed-form items drawn per attempt; also the
+ *   scale adaptive results are reported on
+ * recommendedSkills: suggested by the roadmap when the user scores
+ *   low in this category
+ */
+export interface AptitudeCategoryDefinition {
+  slug: string;
+  label: string;
+  itemsPerAttempt: number;
+  recommendedSkills: string[];
+}
+
+/**
+ * Score per category slug
+ */
+export type CategoryBreakdown = Record<string, number>;
+
+export interface CategoryScore {
+  category: string;
+  label: string;
+  score: number;
+  maxScore: number;
+  percentage: number;
+}
+
+export interface BlueprintQuestion {
+  id: string;
+  category: string;
+}
+
+export type FetchCategoriesResult =
+  | { success: true; categories: AptitudeCategoryDefinition[] }
+  | { success: false; error: string; code: string; details?: string; status: number };
+
+export type SampleBlueprintResult =
+  | { success: true; questionIds: string[] }
+  | { success: false; error: string; code: string; details?: string; status: number };
+
+interface DatabaseCategory {
+  slug: string;
+  label: string;
+  items_per_attempt: number;
+  recommended_skills: string[] | null;
+}
+
+// =====================================================
+// CATEGORIES
+// =====================================================
+
+/**
+ * Active categories in test order
+ *
+ * @param supabase - Any client; aptitude_categories is readable by
+ *   authenticated users
+ */
+export async function fetchAptitudeCategories(
+  supabase: SupabaseClient
+): Promise<FetchCategoriesResult> {
+  const { data, error } = await supabase
+    .from('aptitude_categories')
+    .select('slug, label, items_per_attempt, recommended_skills')
+    .eq('active', true)
+    .order('sort_order')
+    .order('slug');
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'aptitude_categories',
+      error: error.message
+    });
+
+    return {
+      success: false,
+      error: 'Failed to fetch aptitude categories',
+      code: 'DB_FETCH_FAILED',
+      status: 500
+    };
+  }
+
+  if (!data || data.length === 0) {
+    return {
+      success: false,
+      error: 'Question database integrity error',
+      code: 'NO_APTITUDE_CATEGORIES',
+      details: 'No active aptitude categories',
+      status: 503
+    };
+  }
+
+  return {
+    success: true,
+    categories: (data as DatabaseCategory[]).map(row => ({
+      slug: row.slug,
+      label: row.label,
+      itemsPerAttempt: row.items_per_attempt,
+      recommendedSkills: row.recommended_skills || []
+    }))
+  };
+}
+
+// =====================================================
+// BLUEPRINT SAMPLING
+// =====================================================
+
+/**
+ * Draw itemsPerAttempt random questions from each category, in
+ * category order (random order within a category)
+ */
+export function sampleBlueprint(
+  questions: BlueprintQuestion[],
+  categories: AptitudeCategoryDefinition[]
+): SampleBlueprintResult {
+  const questionIds: string[] = [];
+  const short: string[] = [];
+
+  for (const category of categories) {
+    const pool = questions
+      .filter(question => question.category === category.slug)
+      .map(question => question.id);
+
+    if (pool.length < category.itemsPerAttempt) {
+      short.push(`${category.slug} (${pool.length}/${category.itemsPerAttempt})`);
+      continue;
+    }
+
+    questionIds.push(...shuffled(pool).slice(0, category.itemsPerAttempt));
+  }
+
+  if (short.length > 0) {
+    console.error('[BLUEPRINT_UNFILLED]', {
+      timestamp: new Date().toISOString(),
+      categories: short
+    });
+
+    return {
+      success: false,
+      error: 'Question database integrity error',
+      code: 'BLUEPRINT_UNFILLED',
+      details: `Not enough questions for ${short.join(', ')}`,
+      status: 503
+    };
+  }
+
+  return { success: true, questionIds };
+}
+
+// =====================================================
+// BREAKDOWNS
+// =====================================================
+
+/**
+ * Per-category scores with percentages, in category order; slugs in
+ * the breakdown that are no longer active follow, labelled by slug
+ *
+ * @param maxBreakdown - Stored maximum per category; falls back to
+ *   the category's itemsPerAttempt (null on old rows)
+ */
+export function toCategoryScores(
+  breakdown: CategoryBreakdown,
+  maxBreakdown: CategoryBreakdown | null,
+  categories: AptitudeCategoryDefinition[]
+): CategoryScore[] {
+  const definitions = new Map(categories.map(category => [category.slug, category]));
+  const slugs = [
+    ...categories.map(category => category.slug).filter(slug => slug in breakdown),
+    ...Object.keys(breakdown).filter(slug => !definitions.has(slug))
+  ];
+
+  return slugs.map(slug => {
+    const score = breakdown[slug] ?? 0;
+    const maxScore = maxBreakdown?.[slug] ?? definitions.get(slug)?.itemsPerAttempt ?? 0;
+
+    return {
+      category: slug,
+      label: definitions.get(slug)?.label ?? slug,
+      score,
+      maxScore,
+      percentage: maxScore > 0 ? Math.round((score / maxScore) * 100) : 0
+    };
+  });
+}
+
+export function sumBreakdown(breakdown: CategoryBreakdown): number {
+  return Object.values(breakdown).reduce((sum, value) => sum + value, 0);
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+function shuffled<T>(values: T[]): T[] {
+  const copy = [...values];
+
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+
+  return copy;
+}
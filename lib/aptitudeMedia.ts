@@ -0,0 +1,315 @@
+// =====================================================
+// Aptitude Question Media
+// =====================================================
+// Figures for spatial and figural items. A question can carry an
+// image (PNG, JPEG, GIF, WebP) or SVG for its stem and for each
+// option, stored in the private aptitude-media bucket and referenced
+// from aptitude_questions.media by path with alt text:
+//
+//   { "question": { "path": "spatial/q12/stem.svg", "alt": "..." },
+//     "options":  { "A": { "path": "spatial/q12/a.svg", "alt": "..." } } }
+//
+// Options with a figure still need option text (it decides which
+// options a question has); keep it short and neutral.
+// Delivery signs time-limited URLs with the service-role client;
+// option media follow the session's option order like option text.
+// The admin import checks that every referenced file exists.
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { APTITUDE_OPTIONS, isAptitudeOption } from '@/lib/aptitudeCat';
+import type { AptitudeOption } from '@/lib/aptitudeCat';
+import { displayOptions } from '@/lib/aptitudeOptionOrder';
+import type { OptionOrder } from '@/lib/aptitudeOptionOrder';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+export const APTITUDE_MEDIA_BUCKET = 'aptitude-media';
+
+/**
+ * Signed URLs stay valid long enough for a timed attempt; clients
+ * get fresh ones whenever they fetch the question again
+ */
+export const MEDIA_URL_TTL_SECONDS = 60 * 60;
+
+export const MEDIA_ALT_MAX_LENGTH = 300;
+
+const MEDIA_KINDS: Record<string, MediaKind> = {
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  gif: 'image',
+  webp: 'image',
+  svg: 'svg'
+};
+
+/**
+ * Relative path inside the bucket: segments of letters, digits,
+ * '-', '_' and '.', no leading slash, no '..'
+ */
+const MEDIA_PATH_PATTERN = /^(?!.*\.\.)[A-Za-z0-9_-][A-Za-z0-9._-]*(\/[A-Za-z0-9_-][A-Za-z0-9._-]*)*$/;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type MediaKind = 'image' | 'svg';
+
+export interface MediaRef {
+  path: string;
+  alt: string;
+}
+
+/**
+ * Stored in aptitude_questions.media
+ */
+export interface QuestionMedia {
+  question?: MediaRef;
+  options?: Partial<Record<AptitudeOption, MediaRef>>;
+}
+
+export interface DeliveredMedia {
+  url: string;
+  alt: string;
+  kind: MediaKind;
+}
+
+export interface DeliveredQuestionMedia {
+  question?: DeliveredMedia;
+  options?: Partial<Record<AptitudeOption, DeliveredMedia>>;
+}
+
+export type ParseMediaResult =
+  | { success: true; media: QuestionMedia | null }
+  | { success: false; details: string };
+
+/**
+ * Signed URL per media path
+ */
+export type SignedMediaUrls = Map<string, string>;
+
+// =====================================================
+// VALIDATION
+// =====================================================
+
+export function mediaKindOf(path: string): MediaKind | null {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  return MEDIA_KINDS[extension] ?? null;
+}
+
+/**
+ * Validate a media value (null / undefined: no media)
+ */
+export function parseQuestionMedia(value: unknown): ParseMediaResult {
+  if (value === null || value === undefined) {
+    return { success: true, media: null };
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { success: false, details: 'media must be an object' };
+  }
+
+  const { question, options, ...rest } = value as Record<string, unknown>;
+  const unknownKeys = Object.keys(rest);
+  if (unknownKeys.length > 0) {
+    return { success: false, details: `media has unknown keys: ${unknownKeys.join(', ')}` };
+  }
+
+  const media: QuestionMedia = {};
+
+  if (question !== undefined) {
+    const ref = parseMediaRef(question);
+    if (typeof ref === 'string') {
+      return { success: false, details: `media.question: ${ref}` };
+    }
+    media.question = ref;
+  }
+
+  if (options !== undefined) {
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+      return { success: false, details: 'media.options must be an object keyed by option letter' };
+    }
+
+    media.options = {};
+    for (const [letter, raw] of Object.entries(options)) {
+      if (!isAptitudeOption(letter)) {
+        return { success: false, details: `media.options: ${letter} is not one of ${APTITUDE_OPTIONS.join(', ')}` };
+      }
+
+      const ref = parseMediaRef(raw);
+      if (typeof ref === 'string') {
+        return { success: false, details: `media.options.${letter}: ${ref}` };
+      }
+      media.options[letter] = ref;
+    }
+  }
+
+  return { success: true, media: media.question || media.options ? media : null };
+}
+
+/**
+ * Every path a question's media references
+ */
+export function mediaPaths(media: QuestionMedia | null | undefined): string[] {
+  if (!media) {
+    return [];
+  }
+
+  return [
+    ...(media.question ? [media.question.path] : []),
+    ...Object.values(media.options || {}).map(ref => ref.path)
+  ];
+}
+
+// =====================================================
+// STORAGE
+// =====================================================
+
+/**
+ * Paths that do not exist in the bucket
+ *
+ * @param admin - Service-role client (the bucket is private)
+ */
+export async function findMissingMedia(
+  admin: SupabaseClient,
+  paths: string[]
+): Promise<string[]> {
+  const bucket = admin.storage.from(APTITUDE_MEDIA_BUCKET);
+  const missing: string[] = [];
+
+  for (const path of [...new Set(paths)]) {
+    const { data } = await bucket.exists(path);
+    if (!data) {
+      missing.push(path);
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Sign every path in one request
+ *
+ * Paths that cannot be signed (e.g. deleted files) are left out and
+ * logged, so the question is still delivered without that figure.
+ *
+ * @param admin - Service-role client
+ */
+export async function signMediaUrls(
+  admin: SupabaseClient,
+  paths: string[]
+): Promise<SignedMediaUrls> {
+  const urls: SignedMediaUrls = new Map();
+  const unique = [...new Set(paths)];
+
+  if (unique.length === 0) {
+    return urls;
+  }
+
+  const { data, error } = await admin.storage
+    .from(APTITUDE_MEDIA_BUCKET)
+    .createSignedUrls(unique, MEDIA_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('[MEDIA_SIGN_ERROR]', {
+      timestamp: new Date().toISOString(),
+      bucket: APTITUDE_MEDIA_BUCKET,
+      paths: unique.length,
+      error: error.message
+    });
+    return urls;
+  }
+
+  for (const entry of data) {
+    if (entry.path && entry.signedUrl && !entry.error) {
+      urls.set(entry.path, entry.signedUrl);
+    } else {
+      console.error('[MEDIA_SIGN_ERROR]', {
+        timestamp: new Date().toISOString(),
+        bucket: APTITUDE_MEDIA_BUCKET,
+        path: entry.path,
+        error: entry.error
+      });
+    }
+  }
+
+  return urls;
+}
+
+// =====================================================
+// DELIVERY
+// =====================================================
+
+/**
+ * Client view of a question's media: signed URLs, alt text, and
+ * option media relabelled by the display order. Null without media.
+ */
+export function toDeliveredMedia(
+  media: QuestionMedia | null | undefined,
+  urls: SignedMediaUrls,
+  order: OptionOrder | null | undefined
+): DeliveredQuestionMedia | null {
+  if (!media) {
+    return null;
+  }
+
+  const delivered: DeliveredQuestionMedia = {};
+
+  const question = media.question && deliver(media.question, urls);
+  if (question) {
+    delivered.question = question;
+  }
+
+  if (media.options) {
+    const options: Partial<Record<AptitudeOption, DeliveredMedia>> = {};
+    for (const [letter, ref] of Object.entries(media.options) as [AptitudeOption, MediaRef][]) {
+      const option = deliver(ref, urls);
+      if (option) {
+        options[letter] = option;
+      }
+    }
+    delivered.options = displayOptions(options, order);
+  }
+
+  return delivered;
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * A valid reference, or why it is not
+ */
+function parseMediaRef(value: unknown): MediaRef | string {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'must be an object { path, alt }';
+  }
+
+  const { path, alt } = value as Record<string, unknown>;
+
+  if (typeof path !== 'string' || !MEDIA_PATH_PATTERN.test(path)) {
+    return 'path must be a relative path inside the bucket';
+  }
+
+  if (!mediaKindOf(path)) {
+    return `path must end in one of: ${Object.keys(MEDIA_KINDS).map(ext => `.${ext}`).join(', ')}`;
+  }
+
+  if (typeof alt !== 'string' || alt.trim().length === 0 || alt.length > MEDIA_ALT_MAX_LENGTH) {
+    return `alt text is required (at most ${MEDIA_ALT_MAX_LENGTH} characters)`;
+  }
+
+  return { path, alt: alt.trim() };
+}
+
+function deliver(ref: MediaRef, urls: SignedMediaUrls): DeliveredMedia | null {
+  const url = urls.get(ref.path);
+  if (!url) {
+    return null;
+  }
+
+  return { url, alt: ref.alt, kind: mediaKindOf(ref.path) ?? 'image' };
+}
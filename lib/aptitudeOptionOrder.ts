@@ -0,0 +1,148 @@
+// =====================================================
+// Aptitude Option Shuffling
+// =====================================================
+// Options are shown in a per-session random order so answer
+// letters cannot be shared between users. An order lists the
+// canonical options in display order: ['C', 'A', 'D', 'B'] shows
+// canonical C as A, canonical A as B, and so on. Orders are
+// generated and stored on the server (session rows); clients only
+// ever see and send displayed letters. Scoring, review and stored
+// answers use canonical letters.
+// =====================================================
+
+import { randomInt } from 'crypto';
+import { APTITUDE_OPTIONS, isAptitudeOption } from '@/lib/aptitudeCat';
+import type { AptitudeOption } from '@/lib/aptitudeCat';
+import { questionOptions } from '@/lib/aptitudeQuestionTypes';
+import type { AptitudeAnswer, OptionColumns } from '@/lib/aptitudeQuestionTypes';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * Canonical options in the order they are displayed
+ */
+export type OptionOrder = AptitudeOption[];
+
+/**
+ * { "<question id>": OptionOrder }; questions without options
+ * (numeric, short text) have no entry
+ */
+export type OptionOrders = Record<string, OptionOrder>;
+
+export interface ShuffleableQuestion extends OptionColumns {
+  id: string;
+  question_type: string | null;
+}
+
+// =====================================================
+// GENERATION
+// =====================================================
+
+/**
+ * Fisher-Yates shuffle of the given options (crypto randomness)
+ */
+export function shuffledOptionOrder(options: readonly AptitudeOption[]): OptionOrder {
+  const order = [...options];
+
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  return order;
+}
+
+/**
+ * One order per question that shows options, over the options the
+ * question actually has
+ */
+export function buildOptionOrders(questions: ShuffleableQuestion[]): OptionOrders {
+  const orders: OptionOrders = {};
+
+  for (const question of questions) {
+    const present = Object.keys(questionOptions(question.question_type, question)) as AptitudeOption[];
+    if (present.length > 1) {
+      orders[question.id] = shuffledOptionOrder(present);
+    }
+  }
+
+  return orders;
+}
+
+// =====================================================
+// MAPPING
+// =====================================================
+
+/**
+ * Relabel options (text, or anything else keyed by option such as
+ * media) for display: displayed A is order[0], and so on.
+ * No order (sessions started before shuffling) shows them as stored.
+ */
+export function displayOptions<T = string>(
+  options: Partial<Record<AptitudeOption, T>>,
+  order: OptionOrder | null | undefined
+): Partial<Record<AptitudeOption, T>> {
+  if (!order) {
+    return options;
+  }
+
+  const displayed: Partial<Record<AptitudeOption, T>> = {};
+  order.forEach((canonical, index) => {
+    const text = options[canonical];
+    if (text !== undefined) {
+      displayed[APTITUDE_OPTIONS[index]] = text;
+    }
+  });
+
+  return displayed;
+}
+
+/**
+ * Map a displayed answer back to canonical letters. Letters outside
+ * the order and non-letter answers are returned unchanged, so type
+ * validation still sees (and rejects) them.
+ */
+export function toCanonicalAnswer(
+  answer: AptitudeAnswer,
+  order: OptionOrder | null | undefined
+): AptitudeAnswer {
+  if (!order) {
+    return answer;
+  }
+
+  if (Array.isArray(answer)) {
+    return answer.map(letter => canonicalLetter(letter, order));
+  }
+
+  return typeof answer === 'string' ? canonicalLetter(answer, order) : answer;
+}
+
+/**
+ * Map every answer in a set (keyed by question id) to canonical letters
+ */
+export function toCanonicalAnswers(
+  answers: Record<string, AptitudeAnswer>,
+  orders: OptionOrders | null | undefined
+): Record<string, AptitudeAnswer> {
+  const canonical: Record<string, AptitudeAnswer> = {};
+
+  for (const [questionId, answer] of Object.entries(answers)) {
+    canonical[questionId] = toCanonicalAnswer(answer, orders?.[questionId]);
+  }
+
+  return canonical;
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+function canonicalLetter(letter: string, order: OptionOrder): string {
+  if (!isAptitudeOption(letter)) {
+    return letter;
+  }
+
+  return order[APTITUDE_OPTIONS.indexOf(letter)] ?? letter;
+}
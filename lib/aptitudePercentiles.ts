@@ -0,0 +1,270 @@
+// =====================================================
+// Aptitude Percentile Ranks
+// =====================================================
+// Percentages say how much of a test the user got right;
+// percentile ranks say how that compares with a reference group.
+// aptitude_score_distributions counts users per cohort, metric
+// ('total' or a category slug) and whole percentage, each by their
+// latest submission; a trigger on aptitude_submissions keeps it
+// current (migrations 019 and 026).
+//
+// Reference groups map to cohorts through the user's profile:
+//   all          -> 'all'
+//   education    -> 'education:<education_level>'
+//   institution  -> 'institution:<institution, lower-cased, trimmed>'
+// A cohort smaller than MIN_COHORT_SAMPLE (or a profile without
+// the field) falls back to 'all'. The distributions are read with
+// the service role only: users cannot list cohorts (institution
+// names) or read a small cohort's counts.
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CategoryScore } from '@/lib/aptitudeCategories';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+export const REFERENCE_GROUPS = ['all', 'education', 'institution'] as const;
+
+export const DEFAULT_REFERENCE_GROUP: ReferenceGroup = 'all';
+
+export const EDUCATION_LEVELS = [
+  'secondary',
+  'diploma',
+  'undergraduate',
+  'postgraduate',
+  'doctorate',
+  'other'
+] as const;
+
+/**
+ * Users a cohort needs before its percentiles are used
+ */
+export const MIN_COHORT_SAMPLE = 30;
+
+export const TOTAL_METRIC = 'total';
+
+const ALL_COHORT = 'all';
+const BUCKET_COUNT = 101;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type ReferenceGroup = typeof REFERENCE_GROUPS[number];
+
+export type EducationLevel = typeof EDUCATION_LEVELS[number];
+
+/**
+ * Percentile ranks (0-100) of one result
+ *
+ * cohort: the cohort actually used; differs from the requested
+ *   reference group when fallback is true
+ * sampleSize: users in that cohort (including the user)
+ * categories: keyed by category slug; null when the cohort has no
+ *   data for the category
+ */
+export interface AptitudePercentiles {
+  referenceGroup: ReferenceGroup;
+  cohort: string;
+  fallback: boolean;
+  sampleSize: number;
+  total: number | null;
+  categories: Record<string, number | null>;
+}
+
+/**
+ * Counts per whole percentage (index 0-100)
+ */
+export type ScoreDistribution = number[];
+
+interface DatabaseDistributionRow {
+  metric: string;
+  bucket: number;
+  count: number;
+}
+
+interface CohortProfile {
+  education_level: string | null;
+  institution: string | null;
+}
+
+// =====================================================
+// VALIDATION
+// =====================================================
+
+export function isReferenceGroup(value: unknown): value is ReferenceGroup {
+  return typeof value === 'string' && (REFERENCE_GROUPS as readonly string[]).includes(value);
+}
+
+// =====================================================
+// COHORTS
+// =====================================================
+
+/**
+ * Cohort key for a reference group, or null when the profile does
+ * not say which cohort the user belongs to
+ */
+export function cohortKey(group: ReferenceGroup, profile: CohortProfile | null): string | null {
+  if (group === 'all') {
+    return ALL_COHORT;
+  }
+
+  if (group === 'education') {
+    return profile?.education_level ? `education:${profile.education_level}` : null;
+  }
+
+  const institution = profile?.institution?.trim().toLowerCase();
+  return institution ? `institution:${institution}` : null;
+}
+
+// =====================================================
+// MATH
+// =====================================================
+
+/**
+ * Percentile rank of a percentage within a distribution: the share
+ * scoring below it plus half the share scoring the same, 0-100.
+ * Null for an empty distribution.
+ */
+export function percentileRank(distribution: ScoreDistribution, percentage: number): number | null {
+  const bucket = Math.min(BUCKET_COUNT - 1, Math.max(0, Math.round(percentage)));
+  let below = 0;
+  let total = 0;
+
+  distribution.forEach((count, index) => {
+    total += count;
+    if (index < bucket) {
+      below += count;
+    }
+  });
+
+  if (total === 0) {
+    return null;
+  }
+
+  const equal = distribution[bucket] ?? 0;
+  return Math.round(((below + equal / 2) / total) * 100);
+}
+
+function distributionSize(distribution: ScoreDistribution | undefined): number {
+  return (distribution || []).reduce((sum, count) => sum + count, 0);
+}
+
+// =====================================================
+// READ
+// =====================================================
+
+/**
+ * Percentile ranks of a result's total and category percentages
+ *
+ * Returns null (never throws) when no distribution is available, so
+ * dashboards can still show the percentages.
+ *
+ * @param supabase - User-scoped client (reads the user's own profile)
+ * @param admin - Service-role client for the distributions
+ */
+export async function fetchAptitudePercentiles(
+  supabase: SupabaseClient,
+  admin: SupabaseClient,
+  userId: string,
+  referenceGroup: ReferenceGroup,
+  result: { percentage: number; categories: CategoryScore[] }
+): Promise<AptitudePercentiles | null> {
+  let cohort: string | null = ALL_COHORT;
+
+  if (referenceGroup !== 'all') {
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('education_level, institution')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        table: 'profiles',
+        userId,
+        error: profileError.message
+      });
+      return null;
+    }
+
+    cohort = cohortKey(referenceGroup, profile as CohortProfile | null);
+  }
+
+  let distributions = cohort
+    ? await fetchDistributions(admin, cohort)
+    : new Map<string, ScoreDistribution>();
+  if (!distributions) {
+    return null;
+  }
+
+  let fallback = false;
+  if (cohort !== ALL_COHORT && distributionSize(distributions.get(TOTAL_METRIC)) < MIN_COHORT_SAMPLE) {
+    cohort = ALL_COHORT;
+    fallback = true;
+    distributions = await fetchDistributions(admin, ALL_COHORT);
+    if (!distributions) {
+      return null;
+    }
+  }
+
+  const sampleSize = distributionSize(distributions.get(TOTAL_METRIC));
+  if (sampleSize === 0) {
+    return null;
+  }
+
+  const categories: Record<string, number | null> = {};
+  for (const category of result.categories) {
+    const distribution = distributions.get(category.category);
+    categories[category.category] = distribution
+      ? percentileRank(distribution, category.percentage)
+      : null;
+  }
+
+  return {
+    referenceGroup,
+    cohort: cohort as string,
+    fallback,
+    sampleSize,
+    total: percentileRank(distributions.get(TOTAL_METRIC) as ScoreDistribution, result.percentage),
+    categories
+  };
+}
+
+/**
+ * One cohort's distributions keyed by metric, or null on error
+ */
+async function fetchDistributions(
+  admin: SupabaseClient,
+  cohort: string
+): Promise<Map<string, ScoreDistribution> | null> {
+  const { data, error } = await admin
+    .from('aptitude_score_distributions')
+    .select('metric, bucket, count')
+    .eq('cohort', cohort);
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'aptitude_score_distributions',
+      cohort,
+      error: error.message
+    });
+    return null;
+  }
+
+  const distributions = new Map<string, ScoreDistribution>();
+  for (const row of (data as DatabaseDistributionRow[]) || []) {
+    let distribution = distributions.get(row.metric);
+    if (!distribution) {
+      distribution = new Array<number>(BUCKET_COUNT).fill(0);
+      distributions.set(row.metric, distribution);
+    }
+    distribution[row.bucket] = row.count;
+  }
+
+  return distributions;
+}
@@ -0,0 +1,152 @@
+// =====================================================
+// Aptitude Practice Mode
+// =====================================================
+// Shared by /api/aptitude/practice. Practice questions live in
+// aptitude_questions with pool = 'practice' and are never sampled
+// for timed or adaptive tests (those read pool = 'official').
+// Each answer is graded on the spot and stored in
+// aptitude_practice_attempts, never in aptitude_submissions, so
+// practice does not change official results, percentiles or the
+// roadmap. Feedback is a review item (lib/aptitudeReview.ts).
+// =====================================================
+
+import { randomInt } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AptitudeOption } from '@/lib/aptitudeCat';
+import { questionOptions, SKIP_ANSWER } from '@/lib/aptitudeQuestionTypes';
+import type { AptitudeAnswer, OptionColumns, QuestionType } from '@/lib/aptitudeQuestionTypes';
+import { toDeliveredMedia } from '@/lib/aptitudeMedia';
+import type { DeliveredQuestionMedia, QuestionMedia, SignedMediaUrls } from '@/lib/aptitudeMedia';
+import type { ReviewItem } from '@/lib/aptitudeReview';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+export const QUESTION_POOLS = ['official', 'practice'] as const;
+export type QuestionPool = typeof QUESTION_POOLS[number];
+
+export const OFFICIAL_POOL: QuestionPool = 'official';
+export const PRACTICE_POOL: QuestionPool = 'practice';
+
+export const PRACTICE_SET_DEFAULT_SIZE = 10;
+export const PRACTICE_SET_MAX_SIZE = 30;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface PracticeBankQuestion extends OptionColumns {
+  id: string;
+  category: string;
+  question_type: QuestionType | null;
+  question_text: string;
+  media: QuestionMedia | null;
+}
+
+/**
+ * Options are shown in canonical order (practice is not shuffled)
+ */
+export interface PracticeQuestion {
+  id: string;
+  category: string;
+  question_type: QuestionType;
+  question_text: string;
+  options: Partial<Record<AptitudeOption, string>>;
+  media: DeliveredQuestionMedia | null;
+}
+
+export type RecordPracticeAttemptResult =
+  | { success: true; attemptId: string }
+  | { success: false; error: string; code: string; status: number };
+
+// =====================================================
+// QUESTIONS
+// =====================================================
+
+export function isQuestionPool(value: unknown): value is QuestionPool {
+  return typeof value === 'string' && (QUESTION_POOLS as readonly string[]).includes(value);
+}
+
+/**
+ * Up to count questions in random order
+ */
+export function drawPracticeSet<T>(questions: T[], count: number): T[] {
+  const pool = [...questions];
+  const size = Math.min(count, pool.length);
+
+  for (let i = 0; i < size; i++) {
+    const j = i + randomInt(pool.length - i);
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+
+  return pool.slice(0, size);
+}
+
+/**
+ * Whitelist the fields a client may see
+ */
+export function toPracticeQuestion(
+  question: PracticeBankQuestion,
+  urls: SignedMediaUrls
+): PracticeQuestion {
+  return {
+    id: question.id,
+    category: question.category,
+    question_type: question.question_type ?? 'single_choice',
+    question_text: question.question_text,
+    options: questionOptions(question.question_type, question),
+    media: toDeliveredMedia(question.media, urls, null)
+  };
+}
+
+// =====================================================
+// ATTEMPTS
+// =====================================================
+
+/**
+ * Store one graded practice answer
+ *
+ * @param admin - Service-role client (users can only read attempts)
+ * @param answer - Canonical answer as submitted (SKIP_ANSWER allowed)
+ */
+export async function recordPracticeAttempt(
+  admin: SupabaseClient,
+  userId: string,
+  answer: AptitudeAnswer,
+  feedback: ReviewItem,
+  timeTakenMs: number | null
+): Promise<RecordPracticeAttemptResult> {
+  const { data, error } = await admin
+    .from('aptitude_practice_attempts')
+    .insert({
+      user_id: userId,
+      question_id: feedback.questionId,
+      category: feedback.category,
+      answer,
+      skipped: answer === SKIP_ANSWER,
+      credit: feedback.credit,
+      is_correct: feedback.correct,
+      time_taken_ms: timeTakenMs
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('[DB_INSERT_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId,
+      table: 'aptitude_practice_attempts',
+      error: error?.message
+    });
+
+    return {
+      success: false,
+      error: 'Failed to save practice attempt',
+      code: 'DB_INSERT_FAILED',
+      status: 500
+    };
+  }
+
+  return { success: true, attemptId: data.id };
+}
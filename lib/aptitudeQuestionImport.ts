@@ -0,0 +1,193 @@
+// =====================================================
+// Aptitude Question Import Validation
+// =====================================================
+// Used by POST /api/admin/aptitude/questions: turns one imported
+// question into an aptitude_questions row, or says what is wrong
+// with it. Checks what the database cannot: the answer key fits the
+// question type and options, category exists, and media references
+// are well formed (their files are checked in the bucket by the
+// route, in one pass for the whole import).
+// =====================================================
+
+import { isAptitudeOption } from '@/lib/aptitudeCat';
+import {
+  answerKeyFor,
+  correctAnswerOf,
+  isQuestionType,
+  questionOptions
+} from '@/lib/aptitudeQuestionTypes';
+import type { QuestionType } from '@/lib/aptitudeQuestionTypes';
+import { parseQuestionMedia } from '@/lib/aptitudeMedia';
+import type { QuestionMedia } from '@/lib/aptitudeMedia';
+import { isQuestionPool, OFFICIAL_POOL, QUESTION_POOLS } from '@/lib/aptitudePractice';
+import type { QuestionPool } from '@/lib/aptitudePractice';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const OPTION_COLUMNS = ['option_a', 'option_b', 'option_c', 'option_d'] as const;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * id: present to update an existing question, absent to add one
+ */
+export interface ImportedQuestionRow {
+  id?: string;
+  category: string;
+  question_type: QuestionType;
+  question_text: string;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  correct_answer: string | null;
+  answer_spec: Record<string, unknown> | null;
+  explanation: string | null;
+  score_weight: number;
+  irt_difficulty: number;
+  irt_discrimination: number;
+  media: QuestionMedia | null;
+  pool: QuestionPool;
+}
+
+export type ImportValidationResult =
+  | { success: true; row: ImportedQuestionRow }
+  | { success: false; error: string };
+
+// =====================================================
+// VALIDATION
+// =====================================================
+
+/**
+ * @param categories - Known category slugs (active or not)
+ */
+export function validateImportQuestion(
+  value: unknown,
+  categories: Set<string>
+): ImportValidationResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { success: false, error: 'must be an object' };
+  }
+
+  const raw = value as Record<string, unknown>;
+
+  if (raw.id !== undefined && (typeof raw.id !== 'string' || !UUID_PATTERN.test(raw.id))) {
+    return { success: false, error: 'id must be a UUID' };
+  }
+
+  if (typeof raw.category !== 'string' || !categories.has(raw.category)) {
+    return { success: false, error: `unknown category ${String(raw.category)}` };
+  }
+
+  const questionType = raw.question_type ?? 'single_choice';
+  if (!isQuestionType(questionType)) {
+    return { success: false, error: `unknown question_type ${String(questionType)}` };
+  }
+
+  const pool = raw.pool ?? OFFICIAL_POOL;
+  if (!isQuestionPool(pool)) {
+    return { success: false, error: `pool must be one of ${QUESTION_POOLS.join(', ')}` };
+  }
+
+  if (typeof raw.question_text !== 'string' || raw.question_text.trim() === '') {
+    return { success: false, error: 'question_text is required' };
+  }
+
+  for (const column of OPTION_COLUMNS) {
+    if (raw[column] !== undefined && raw[column] !== null && typeof raw[column] !== 'string') {
+      return { success: false, error: `${column} must be a string` };
+    }
+  }
+
+  if (raw.answer_spec !== undefined && raw.answer_spec !== null &&
+      (typeof raw.answer_spec !== 'object' || Array.isArray(raw.answer_spec))) {
+    return { success: false, error: 'answer_spec must be an object' };
+  }
+
+  if (raw.explanation !== undefined && raw.explanation !== null && typeof raw.explanation !== 'string') {
+    return { success: false, error: 'explanation must be a string' };
+  }
+
+  const scoreWeight = numberOr(raw.score_weight, 1);
+  const difficulty = numberOr(raw.irt_difficulty, 0);
+  const discrimination = numberOr(raw.irt_discrimination, 1);
+
+  if (scoreWeight === null || difficulty === null || discrimination === null) {
+    return { success: false, error: 'score_weight, irt_difficulty and irt_discrimination must be numbers' };
+  }
+
+  if (scoreWeight <= 0 || discrimination <= 0) {
+    return { success: false, error: 'score_weight and irt_discrimination must be positive' };
+  }
+
+  const row: ImportedQuestionRow = {
+    ...(raw.id !== undefined ? { id: raw.id as string } : {}),
+    category: raw.category,
+    question_type: questionType,
+    question_text: raw.question_text.trim(),
+    option_a: (raw.option_a as string | undefined) ?? null,
+    option_b: (raw.option_b as string | undefined) ?? null,
+    option_c: (raw.option_c as string | undefined) ?? null,
+    option_d: (raw.option_d as string | undefined) ?? null,
+    correct_answer: questionType === 'single_choice' ? (raw.correct_answer as string | null) ?? null : null,
+    answer_spec: questionType === 'single_choice' ? null : (raw.answer_spec as Record<string, unknown> | null) ?? null,
+    explanation: (raw.explanation as string | undefined) ?? null,
+    score_weight: scoreWeight,
+    irt_difficulty: difficulty,
+    irt_discrimination: discrimination,
+    media: null,
+    pool
+  };
+
+  // Answer key must be complete and refer only to options shown
+  const key = answerKeyFor(row);
+  if (!key) {
+    return { success: false, error: `incomplete answer key for ${questionType}` };
+  }
+
+  const options = questionOptions(questionType, row);
+  const keyLetters = key.type === 'numeric' || key.type === 'short_text'
+    ? []
+    : [correctAnswerOf(key)].flat().filter(isAptitudeOption);
+  const missingOptions = keyLetters.filter(letter => !(letter in options));
+  if (missingOptions.length > 0) {
+    return { success: false, error: `answer key refers to options without text: ${missingOptions.join(', ')}` };
+  }
+
+  if (key.type === 'single_choice' && Object.keys(options).length < 2) {
+    return { success: false, error: 'single_choice needs at least two options' };
+  }
+
+  // Media: well formed, and option media only for options shown
+  const media = parseQuestionMedia(raw.media);
+  if (!media.success) {
+    return { success: false, error: media.details };
+  }
+
+  const orphanMedia = Object.keys(media.media?.options || {}).filter(letter => !(letter in options));
+  if (orphanMedia.length > 0) {
+    return { success: false, error: `media for options without text: ${orphanMedia.join(', ')}` };
+  }
+
+  row.media = media.media;
+
+  return { success: true, row };
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+function numberOr(value: unknown, fallback: number): number | null {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
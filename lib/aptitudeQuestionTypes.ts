@@ -0,0 +1,315 @@
+// =====================================================
+// Aptitude Question Types
+// =====================================================
+// Pure utility: one validator and one scorer per question format.
+// aptitude_questions.question_type declares the format; the answer
+// key is correct_answer for single_choice and answer_spec (JSONB)
+// for the others:
+//   single_choice  answer 'A'..'D'           key correct_answer
+//   numeric        answer number             key { value, tolerance }
+//   multi_select   answer ['A', 'C', ...]    key { correct: [...] }
+//   ordering       answer ['C', 'A', ...]    key { order: [...] }
+//   short_text     answer string             key { accepted: [...], caseSensitive? }
+// Scorers return credit from 0 to 1; multi_select and ordering
+// give partial credit. Adaptive testing uses single_choice only.
+// =====================================================
+
+import { APTITUDE_OPTIONS, isAptitudeOption } from '@/lib/aptitudeCat';
+import type { AptitudeOption } from '@/lib/aptitudeCat';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export const QUESTION_TYPES = [
+  'single_choice',
+  'numeric',
+  'multi_select',
+  'ordering',
+  'short_text'
+] as const;
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+/**
+ * Stored and submitted answer value; shape depends on the question type
+ */
+export type AptitudeAnswer = string | number | string[];
+
+export type AnswerKey =
+  | { type: 'single_choice'; correct: AptitudeOption }
+  | { type: 'numeric'; value: number; tolerance: number }
+  | { type: 'multi_select'; correct: AptitudeOption[] }
+  | { type: 'ordering'; order: AptitudeOption[] }
+  | { type: 'short_text'; accepted: string[]; caseSensitive: boolean };
+
+/**
+ * Columns needed to build an answer key. question_type is null on
+ * rows written before migration 016 (treated as single_choice).
+ */
+export interface TypedQuestion {
+  question_type: string | null;
+  correct_answer: string | null;
+  answer_spec: unknown;
+}
+
+export interface OptionColumns {
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+/**
+ * Answer value for an explicit skip, accepted for every type
+ */
+export const SKIP_ANSWER = 'SKIP';
+
+export const SHORT_TEXT_MAX_LENGTH = 200;
+
+/**
+ * Types whose options A-D are shown to the user
+ */
+const TYPES_WITH_OPTIONS: readonly QuestionType[] = ['single_choice', 'multi_select', 'ordering'];
+
+// =====================================================
+// ANSWER KEYS
+// =====================================================
+
+/**
+ * Build the answer key for a question; null when the row's key is
+ * missing or malformed
+ */
+export function answerKeyFor(question: TypedQuestion): AnswerKey | null {
+  const type = question.question_type ?? 'single_choice';
+  const spec = isRecord(question.answer_spec) ? question.answer_spec : {};
+
+  switch (type) {
+    case 'single_choice':
+      return isAptitudeOption(question.correct_answer)
+        ? { type, correct: question.correct_answer }
+        : null;
+
+    case 'numeric': {
+      const value = Number(spec.value);
+      const tolerance = Number(spec.tolerance ?? 0);
+      return Number.isFinite(value) && Number.isFinite(tolerance) && tolerance >= 0
+        ? { type, value, tolerance }
+        : null;
+    }
+
+    case 'multi_select':
+      return isOptionList(spec.correct) && spec.correct.length > 0
+        ? { type, correct: spec.correct }
+        : null;
+
+    case 'ordering':
+      return isOptionList(spec.order) && spec.order.length > 1
+        ? { type, order: spec.order }
+        : null;
+
+    case 'short_text': {
+      const accepted = Array.isArray(spec.accepted)
+        ? spec.accepted.filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+        : [];
+      return accepted.length > 0
+        ? { type, accepted, caseSensitive: spec.caseSensitive === true }
+        : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * The answer key as an answer value (for review screens)
+ */
+export function correctAnswerOf(key: AnswerKey): AptitudeAnswer {
+  switch (key.type) {
+    case 'single_choice':
+      return key.correct;
+    case 'numeric':
+      return key.value;
+    case 'multi_select':
+      return key.correct;
+    case 'ordering':
+      return key.order;
+    case 'short_text':
+      return key.accepted[0];
+  }
+}
+
+// =====================================================
+// VALIDATION
+// =====================================================
+
+/**
+ * Check an answer has the shape the question type expects
+ *
+ * @param options - The options the question shows (questionOptions);
+ *   choice letters must name one of them, so a letter for an empty
+ *   option column is rejected rather than graded as wrong
+ * @returns null when valid, otherwise a message for the client
+ *   (never reveals the answer key)
+ */
+export function validateAnswer(
+  key: AnswerKey,
+  answer: unknown,
+  options: Partial<Record<AptitudeOption, string>>
+): string | null {
+  if (answer === SKIP_ANSWER) {
+    return null;
+  }
+
+  const offered = APTITUDE_OPTIONS.filter(option => option in options);
+
+  switch (key.type) {
+    case 'single_choice':
+      return isAptitudeOption(answer) && offered.includes(answer)
+        ? null
+        : `must be one of ${offered.join(', ')}, or ${SKIP_ANSWER}`;
+
+    case 'numeric':
+      return typeof answer === 'number' && Number.isFinite(answer)
+        ? null
+        : `must be a number or ${SKIP_ANSWER}`;
+
+    case 'multi_select':
+      return isOptionList(answer) &&
+        answer.length > 0 &&
+        answer.every(option => offered.includes(option))
+        ? null
+        : `must be a non-empty list of distinct options from ${offered.join(', ')}, or ${SKIP_ANSWER}`;
+
+    case 'ordering':
+      return isOptionList(answer) &&
+        answer.length === key.order.length &&
+        answer.every(option => key.order.includes(option))
+        ? null
+        : `must list every item exactly once, or ${SKIP_ANSWER}`;
+
+    case 'short_text':
+      return typeof answer === 'string' &&
+        answer.trim() !== '' &&
+        answer.length <= SHORT_TEXT_MAX_LENGTH
+        ? null
+        : `must be a non-empty string of at most ${SHORT_TEXT_MAX_LENGTH} characters, or ${SKIP_ANSWER}`;
+  }
+}
+
+// =====================================================
+// SCORING
+// =====================================================
+
+/**
+ * Credit from 0 to 1 for a (validated, non-skip) answer
+ *
+ * multi_select: (correct picks - wrong picks) / number of correct
+ *   options, floored at 0, so selecting everything earns nothing
+ * ordering: share of items in their correct position
+ */
+export function scoreAnswer(key: AnswerKey, answer: AptitudeAnswer): number {
+  switch (key.type) {
+    case 'single_choice':
+      return answer === key.correct ? 1 : 0;
+
+    case 'numeric':
+      // Small epsilon so a tolerance of 0.1 accepts 0.1 off despite float error
+      return typeof answer === 'number' &&
+        Math.abs(answer - key.value) <= key.tolerance + 1e-9
+        ? 1
+        : 0;
+
+    case 'multi_select': {
+      if (!Array.isArray(answer)) {
+        return 0;
+      }
+      const hits = answer.filter(option => key.correct.includes(option as AptitudeOption)).length;
+      const misses = answer.length - hits;
+      return Math.max(0, (hits - misses) / key.correct.length);
+    }
+
+    case 'ordering': {
+      if (!Array.isArray(answer)) {
+        return 0;
+      }
+      const inPlace = key.order.filter((option, index) => answer[index] === option).length;
+      return inPlace / key.order.length;
+    }
+
+    case 'short_text': {
+      if (typeof answer !== 'string') {
+        return 0;
+      }
+      const given = normalizeText(answer, key.caseSensitive);
+      return key.accepted.some(accepted => normalizeText(accepted, key.caseSensitive) === given)
+        ? 1
+        : 0;
+    }
+  }
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * Options shown for a question: non-empty A-D columns for choice,
+ * multi-select and ordering questions; none for typed answers
+ */
+export function questionOptions(
+  type: string | null,
+  columns: OptionColumns
+): Partial<Record<AptitudeOption, string>> {
+  const options: Partial<Record<AptitudeOption, string>> = {};
+
+  if (!TYPES_WITH_OPTIONS.includes((type ?? 'single_choice') as QuestionType)) {
+    return options;
+  }
+
+  const values: Record<AptitudeOption, string | null> = {
+    A: columns.option_a,
+    B: columns.option_b,
+    C: columns.option_c,
+    D: columns.option_d
+  };
+
+  for (const option of APTITUDE_OPTIONS) {
+    const value = values[option];
+    if (value) {
+      options[option] = value;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Structural equality for answer values (lists compare element-wise)
+ */
+export function sameAnswer(a: AptitudeAnswer | undefined, b: AptitudeAnswer | undefined): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function isQuestionType(value: unknown): value is QuestionType {
+  return typeof value === 'string' && (QUESTION_TYPES as readonly string[]).includes(value);
+}
+
+function isOptionList(value: unknown): value is AptitudeOption[] {
+  return Array.isArray(value) &&
+    value.every(isAptitudeOption) &&
+    new Set(value).size === value.length;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function normalizeText(value: string, caseSensitive: boolean): string {
+  const collapsed = value.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+}
@@ -0,0 +1,222 @@
+// =====================================================
+// Aptitude Post-Test Review
+// =====================================================
+// Shared by GET /api/aptitude/review: access rules (stored in
+// aptitude_review_settings so they can change without a deploy)
+// and the per-question review items. Review items contain the
+// answer key, so questions must be read with the service-role
+// client.
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AptitudeCategory, AptitudeOption } from '@/lib/aptitudeCat';
+import {
+  answerKeyFor,
+  correctAnswerOf,
+  questionOptions,
+  scoreAnswer,
+  SKIP_ANSWER
+} from '@/lib/aptitudeQuestionTypes';
+import type {
+  AptitudeAnswer,
+  OptionColumns,
+  QuestionType,
+  TypedQuestion
+} from '@/lib/aptitudeQuestionTypes';
+import { toDeliveredMedia } from '@/lib/aptitudeMedia';
+import type { DeliveredQuestionMedia, QuestionMedia, SignedMediaUrls } from '@/lib/aptitudeMedia';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * requireFinalized: the submission's session must be finalized
+ * requirePremium: only premium users may review
+ * delayMinutes: review opens this long after the submission
+ */
+export interface ReviewAccessRules {
+  requireFinalized: boolean;
+  requirePremium: boolean;
+  delayMinutes: number;
+}
+
+export interface ReviewAccessContext {
+  finalized: boolean;
+  isPremium: boolean;
+  submittedAt: string;
+}
+
+export type ReviewAccessDecision =
+  | { allowed: true }
+  | { allowed: false; error: string; code: string; details?: string; status: number };
+
+export interface ReviewQuestion extends TypedQuestion, OptionColumns {
+  id: string;
+  category: string;
+  question_text: string;
+  media: QuestionMedia | null;
+  explanation: string | null;
+}
+
+/**
+ * userAnswer: null when the question was not answered or skipped
+ * correctAnswer: for short_text, the first accepted answer
+ * credit: 0 to 1 (partial credit for multi_select and ordering)
+ */
+export interface ReviewItem {
+  questionId: string;
+  category: AptitudeCategory;
+  questionType: QuestionType;
+  questionText: string;
+  options: Partial<Record<AptitudeOption, string>>;
+  media: DeliveredQuestionMedia | null;
+  userAnswer: AptitudeAnswer | null;
+  correctAnswer: AptitudeAnswer;
+  credit: number;
+  correct: boolean;
+  explanation: string | null;
+}
+
+interface DatabaseReviewSettings {
+  require_finalized: boolean | null;
+  require_premium: boolean | null;
+  delay_minutes: number | null;
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+/**
+ * Used when aptitude_review_settings has no row
+ */
+export const DEFAULT_REVIEW_ACCESS: ReviewAccessRules = {
+  requireFinalized: true,
+  requirePremium: true,
+  delayMinutes: 0
+};
+
+// =====================================================
+// ACCESS RULES
+// =====================================================
+
+/**
+ * Load the access rules; falls back to DEFAULT_REVIEW_ACCESS when
+ * the settings row is missing or unreadable
+ */
+export async function fetchReviewAccessRules(
+  supabase: SupabaseClient
+): Promise<ReviewAccessRules> {
+  const { data, error } = await supabase
+    .from('aptitude_review_settings')
+    .select('require_finalized, require_premium, delay_minutes')
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) {
+      console.error('[DB_FETCH_ERROR]', {
+        timestamp: new Date().toISOString(),
+        table: 'aptitude_review_settings',
+        error: error.message
+      });
+    }
+
+    return { ...DEFAULT_REVIEW_ACCESS };
+  }
+
+  const row = data as DatabaseReviewSettings;
+
+  return {
+    requireFinalized: row.require_finalized ?? DEFAULT_REVIEW_ACCESS.requireFinalized,
+    requirePremium: row.require_premium ?? DEFAULT_REVIEW_ACCESS.requirePremium,
+    delayMinutes: Math.max(0, row.delay_minutes ?? DEFAULT_REVIEW_ACCESS.delayMinutes)
+  };
+}
+
+/**
+ * Apply the access rules to one submission
+ */
+export function checkReviewAccess(
+  rules: ReviewAccessRules,
+  context: ReviewAccessContext
+): ReviewAccessDecision {
+  if (rules.requirePremium && !context.isPremium) {
+    return {
+      allowed: false,
+      error: 'Premium subscription required',
+      code: 'PREMIUM_REQUIRED',
+      details: 'Upgrade to premium to review your answers',
+      status: 403
+    };
+  }
+
+  if (rules.requireFinalized && !context.finalized) {
+    return {
+      allowed: false,
+      error: 'Submission is not finalized',
+      code: 'SUBMISSION_NOT_FINALIZED',
+      status: 409
+    };
+  }
+
+  const opensAt = new Date(context.submittedAt).getTime() + rules.delayMinutes * 60 * 1000;
+  if (Date.now() < opensAt) {
+    return {
+      allowed: false,
+      error: 'Review is not available yet',
+      code: 'REVIEW_NOT_OPEN',
+      details: `Review opens at ${new Date(opensAt).toISOString()}`,
+      status: 403
+    };
+  }
+
+  return { allowed: true };
+}
+
+// =====================================================
+// REVIEW ITEMS
+// =====================================================
+
+/**
+ * One review item per question, in the order given; questions with
+ * a malformed answer key are left out
+ *
+ * @param urls - Signed media URLs (lib/aptitudeMedia.ts); options
+ *   and their media are shown in canonical order
+ */
+export function buildReviewItems(
+  answers: Record<string, AptitudeAnswer>,
+  questions: ReviewQuestion[],
+  urls: SignedMediaUrls
+): ReviewItem[] {
+  const items: ReviewItem[] = [];
+
+  for (const question of questions) {
+    const key = answerKeyFor(question);
+    if (!key) {
+      continue;
+    }
+
+    const answer = answers[question.id];
+    const userAnswer = answer === undefined || answer === SKIP_ANSWER ? null : answer;
+    const credit = userAnswer === null ? 0 : scoreAnswer(key, userAnswer);
+
+    items.push({
+      questionId: question.id,
+      category: question.category,
+      questionType: key.type,
+      questionText: question.question_text,
+      options: questionOptions(key.type, question),
+      media: toDeliveredMedia(question.media, urls, null),
+      userAnswer,
+      correctAnswer: correctAnswerOf(key),
+      credit: Math.round(credit * 100) / 100,
+      correct: credit >= 1,
+      explanation: question.explanation
+    });
+  }
+
+  return items;
+}
@@ -0,0 +1,224 @@
+// =====================================================
+// Aptitude Scoring Policies (fixed form)
+// =====================================================
+// Pure utility: scores fixed-form answers under a selectable
+// policy. Raw score (credit earned; the number correct when no
+// partial credit applies) is always reported alongside the policy's
+// weighted score, so dashboards that read raw counts keep working
+// whatever policy a submission used. Per-answer credit comes from
+// the question type (lib/aptitudeQuestionTypes.ts). Adaptive
+// submissions are scored by IRT instead (lib/irt.ts).
+// =====================================================
+
+import type { AptitudeCategory } from '@/lib/aptitudeCat';
+import { sumBreakdown } from '@/lib/aptitudeCategories';
+import type { CategoryBreakdown } from '@/lib/aptitudeCategories';
+import { answerKeyFor, questionOptions, scoreAnswer, SKIP_ANSWER } from '@/lib/aptitudeQuestionTypes';
+import type { AptitudeAnswer, OptionColumns, TypedQuestion } from '@/lib/aptitudeQuestionTypes';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export const SCORING_POLICY_IDS = ['standard', 'difficulty_weighted', 'negative_marking'] as const;
+export type ScoringPolicyId = typeof SCORING_POLICY_IDS[number];
+
+/**
+ * useDifficultyWeights: a correct answer earns the question's
+ *   score_weight instead of 1 (and a wrong one loses penalty x weight)
+ * negativeMarking: a wrong single-choice answer loses the guessing
+ *   penalty (see guessingPenalty); other types and answers with
+ *   partial credit are not penalised
+ */
+export interface ScoringPolicy {
+  id: ScoringPolicyId;
+  useDifficultyWeights: boolean;
+  negativeMarking: boolean;
+}
+
+export interface ScorableQuestion extends TypedQuestion, OptionColumns {
+  id: string;
+  category: string;
+  score_weight: number | string | null;
+}
+
+export interface AptitudeScore {
+  policy: ScoringPolicyId;
+  /**
+   * maxBreakdown: the most each category could score (one point per
+   * question), keyed like breakdown
+   */
+  raw: {
+    total: number;
+    breakdown: CategoryBreakdown;
+    maxBreakdown: CategoryBreakdown;
+  };
+  /**
+   * score can be negative under negative marking; percentage is
+   * clamped to 0-100 of maxScore
+   */
+  weighted: {
+    score: number;
+    maxScore: number;
+    breakdown: CategoryBreakdown;
+    percentage: number;
+  };
+  /**
+   * partial: earned some but not full credit
+   */
+  counts: {
+    correct: number;
+    partial: number;
+    wrong: number;
+    skipped: number;
+  };
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+export const SCORING_POLICIES: Record<ScoringPolicyId, ScoringPolicy> = {
+  standard: {
+    id: 'standard',
+    useDifficultyWeights: false,
+    negativeMarking: false
+  },
+  difficulty_weighted: {
+    id: 'difficulty_weighted',
+    useDifficultyWeights: true,
+    negativeMarking: false
+  },
+  negative_marking: {
+    id: 'negative_marking',
+    useDifficultyWeights: false,
+    negativeMarking: true
+  }
+};
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicyId = 'standard';
+
+// =====================================================
+// SCORING
+// =====================================================
+
+/**
+ * Score answers under a policy
+ *
+ * A question with no answer (possible only on a late, partially
+ * scored submission) is treated as skipped, never as wrong. An
+ * explicit SKIP_ANSWER scores zero under every policy.
+ */
+export function scoreAptitudeAnswers(
+  answers: Record<string, AptitudeAnswer>,
+  questions: ScorableQuestion[],
+  policyId: ScoringPolicyId
+): AptitudeScore {
+  const policy = SCORING_POLICIES[policyId];
+
+  // Keys: every category on the form, so unanswered categories score 0
+  const rawBreakdown = emptyBreakdown(questions);
+  const weightedBreakdown = emptyBreakdown(questions);
+  const rawMaxBreakdown = emptyBreakdown(questions);
+  const counts = { correct: 0, partial: 0, wrong: 0, skipped: 0 };
+  let maxScore = 0;
+
+  for (const question of questions) {
+    const category: AptitudeCategory = question.category;
+    const weight = policy.useDifficultyWeights ? questionWeight(question) : 1;
+    const answer = answers[question.id];
+
+    maxScore += weight;
+    rawMaxBreakdown[category]++;
+
+    if (answer === undefined || answer === SKIP_ANSWER) {
+      counts.skipped++;
+      continue;
+    }
+
+    const key = answerKeyFor(question);
+    const credit = key ? scoreAnswer(key, answer) : 0;
+
+    if (credit >= 1) {
+      counts.correct++;
+    } else if (credit > 0) {
+      counts.partial++;
+    } else {
+      counts.wrong++;
+      if (policy.negativeMarking) {
+        weightedBreakdown[category] -= guessingPenalty(question) * weight;
+      }
+    }
+
+    rawBreakdown[category] += credit;
+    weightedBreakdown[category] += credit * weight;
+  }
+
+  for (const category of Object.keys(rawBreakdown)) {
+    rawBreakdown[category] = round2(rawBreakdown[category]);
+    weightedBreakdown[category] = round2(weightedBreakdown[category]);
+  }
+
+  const score = round2(sumBreakdown(weightedBreakdown));
+
+  return {
+    policy: policy.id,
+    raw: {
+      total: round2(sumBreakdown(rawBreakdown)),
+      breakdown: rawBreakdown,
+      maxBreakdown: rawMaxBreakdown
+    },
+    weighted: {
+      score,
+      maxScore: round2(maxScore),
+      breakdown: weightedBreakdown,
+      percentage: maxScore > 0
+        ? Math.round((Math.max(0, score) / maxScore) * 100)
+        : 0
+    },
+    counts
+  };
+}
+
+/**
+ * Classic correction for guessing: 1 / (k - 1) for a single-choice
+ * question with k options, so blind guessing has an expected score
+ * of zero. Other types cannot be answered by a blind guess at one
+ * of k options, so they carry no penalty.
+ */
+export function guessingPenalty(question: ScorableQuestion): number {
+  if ((question.question_type ?? 'single_choice') !== 'single_choice') {
+    return 0;
+  }
+
+  const optionCount = Object.keys(questionOptions(question.question_type, question)).length;
+  return optionCount > 1 ? 1 / (optionCount - 1) : 0;
+}
+
+export function isScoringPolicyId(value: unknown): value is ScoringPolicyId {
+  return typeof value === 'string' && (SCORING_POLICY_IDS as readonly string[]).includes(value);
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * Stored weight, or 1 when missing or not positive
+ */
+function questionWeight(question: ScorableQuestion): number {
+  const weight = Number(question.score_weight ?? 1);
+  return Number.isFinite(weight) && weight > 0 ? weight : 1;
+}
+
+function emptyBreakdown(questions: ScorableQuestion[]): CategoryBreakdown {
+  const breakdown: CategoryBreakdown = {};
+  for (const question of questions) {
+    breakdown[question.category] = 0;
+  }
+  return breakdown;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
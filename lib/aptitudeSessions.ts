@@ -0,0 +1,276 @@
+// =====================================================
+// Timed Aptitude Test Sessions (fixed form)
+// =====================================================
+// Shared by /api/aptitude/sessions and /api/aptitude/submit:
+// session lookup with ownership check, expiry, status handling,
+// the server-recorded answer timestamps and the scoring policy for
+// new sessions (aptitude_scoring_settings, so admins can change it
+// without a deploy). Session rows are written only with the
+// service-role client so users cannot alter start times or answer
+// timestamps. Timing math lives in lib/aptitudeTiming.ts;
+// per-session option orders in lib/aptitudeOptionOrder.ts.
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isPastDeadline, secondsRemaining } from '@/lib/aptitudeTiming';
+import type { AptitudeAnswer } from '@/lib/aptitudeQuestionTypes';
+import type { OptionOrders } from '@/lib/aptitudeOptionOrder';
+import { DEFAULT_SCORING_POLICY, isScoringPolicyId } from '@/lib/aptitudeScoring';
+import type { ScoringPolicyId } from '@/lib/aptitudeScoring';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+/**
+ * Unsubmitted sessions expire 24 hours after creation
+ */
+export const APTITUDE_SESSION_TTL_HOURS = 24;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const APTITUDE_SESSION_COLUMNS =
+  'id, user_id, status, scoring_policy, question_ids, option_orders, answers, displayed_answers, answered_at, started_at, deadline_at, expires_at, submission_id, finalized_at, created_at, updated_at';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * in_progress -> finalizing -> finalized
+ * in_progress -> expired (lazily, on first access after expires_at)
+ */
+export type AptitudeSessionStatus = 'in_progress' | 'finalizing' | 'finalized' | 'expired';
+
+export interface AptitudeTestSession {
+  id: string;
+  user_id: string;
+  status: AptitudeSessionStatus;
+  scoring_policy: ScoringPolicyId;
+  // Blueprint sample for this attempt, in delivery order
+  question_ids: string[];
+  option_orders: OptionOrders;
+  // Canonical letters (scored); displayed_answers: as the user sent them
+  answers: Record<string, AptitudeAnswer>;
+  displayed_answers: Record<string, AptitudeAnswer>;
+  answered_at: Record<string, number>;
+  started_at: string;
+  deadline_at: string;
+  expires_at: string;
+  submission_id: string | null;
+  finalized_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Client-facing view of a session (answers are the user's own, as
+ * displayed to them)
+ */
+export interface AptitudeSessionProgress {
+  sessionId: string;
+  status: AptitudeSessionStatus;
+  scoringPolicy: ScoringPolicyId;
+  questionCount: number;
+  answeredCount: number;
+  answers: Record<string, AptitudeAnswer>;
+  startedAt: string;
+  deadlineAt: string;
+  secondsRemaining: number;
+  pastDeadline: boolean;
+  submissionId: string | null;
+}
+
+export type AptitudeSessionLookupResult =
+  | { success: true; session: AptitudeTestSession }
+  | { success: false; error: string; code: string; status: number };
+
+// =====================================================
+// LOOKUP
+// =====================================================
+
+/**
+ * Fetch a session owned by the user
+ *
+ * OWNERSHIP: the service-role client bypasses RLS, so ownership is
+ * enforced here by filtering on user_id; other users' sessions answer
+ * "not found" so ids cannot be probed.
+ * EXPIRY: an in-progress session past expires_at is marked expired.
+ *
+ * @param admin - Service-role client (createAdminClient)
+ */
+export async function fetchOwnedAptitudeSession(
+  admin: SupabaseClient,
+  sessionId: string,
+  userId: string
+): Promise<AptitudeSessionLookupResult> {
+  if (!UUID_PATTERN.test(sessionId)) {
+    return {
+      success: false,
+      error: 'Session not found',
+      code: 'SESSION_NOT_FOUND',
+      status: 404
+    };
+  }
+
+  const { data, error } = await admin
+    .from('aptitude_test_sessions')
+    .select(APTITUDE_SESSION_COLUMNS)
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'aptitude_test_sessions',
+      sessionId,
+      error: error.message
+    });
+
+    return {
+      success: false,
+      error: 'Failed to fetch session',
+      code: 'DB_FETCH_FAILED',
+      status: 500
+    };
+  }
+
+  if (!data) {
+    return {
+      success: false,
+      error: 'Session not found',
+      code: 'SESSION_NOT_FOUND',
+      status: 404
+    };
+  }
+
+  const session = data as AptitudeTestSession;
+
+  if (session.status === 'in_progress' && new Date(session.expires_at).getTime() <= Date.now()) {
+    await admin
+      .from('aptitude_test_sessions')
+      .update({ status: 'expired', updated_at: new Date().toISOString() })
+      .eq('id', session.id)
+      .eq('status', 'in_progress');
+
+    session.status = 'expired';
+  }
+
+  return { success: true, session };
+}
+
+/**
+ * Guard for mutations: only unexpired in-progress sessions may change
+ */
+export function requireOpenAptitudeSession(
+  session: AptitudeTestSession
+): { success: true } | { success: false; error: string; code: string; status: number } {
+  switch (session.status) {
+    case 'in_progress':
+      return { success: true };
+    case 'expired':
+      return {
+        success: false,
+        error: 'Session expired',
+        code: 'SESSION_EXPIRED',
+        status: 410
+      };
+    case 'finalizing':
+      return {
+        success: false,
+        error: 'Session is being submitted',
+        code: 'SESSION_FINALIZING',
+        status: 409
+      };
+    case 'finalized':
+      return {
+        success: false,
+        error: 'Session already submitted',
+        code: 'SESSION_FINALIZED',
+        status: 409
+      };
+  }
+}
+
+/**
+ * Conditional status transition; true if this call made the change
+ */
+export async function setAptitudeSessionStatus(
+  admin: SupabaseClient,
+  sessionId: string,
+  from: AptitudeSessionStatus,
+  to: AptitudeSessionStatus
+): Promise<boolean> {
+  const { data, error } = await admin
+    .from('aptitude_test_sessions')
+    .update({ status: to, updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('status', from)
+    .select('id');
+
+  if (error) {
+    console.error('[DB_UPDATE_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'aptitude_test_sessions',
+      sessionId,
+      error: error.message
+    });
+    return false;
+  }
+
+  return (data || []).length > 0;
+}
+
+// =====================================================
+// SCORING POLICY
+// =====================================================
+
+/**
+ * Policy new timed sessions are scored under; falls back to
+ * DEFAULT_SCORING_POLICY when the settings row is missing or
+ * unreadable
+ */
+export async function fetchConfiguredScoringPolicy(
+  supabase: SupabaseClient
+): Promise<ScoringPolicyId> {
+  const { data, error } = await supabase
+    .from('aptitude_scoring_settings')
+    .select('scoring_policy')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'aptitude_scoring_settings',
+      error: error.message
+    });
+  }
+
+  const policy = data?.scoring_policy;
+  return isScoringPolicyId(policy) ? policy : DEFAULT_SCORING_POLICY;
+}
+
+export function aptitudeSessionExpiryFromNow(): string {
+  return new Date(Date.now() + APTITUDE_SESSION_TTL_HOURS * 60 * 60 * 1000).toISOString();
+}
+
+export function toAptitudeSessionProgress(session: AptitudeTestSession): AptitudeSessionProgress {
+  // Sessions started before option shuffling only have canonical answers
+  const answers = { ...(session.answers || {}), ...(session.displayed_answers || {}) };
+
+  return {
+    sessionId: session.id,
+    status: session.status,
+    scoringPolicy: session.scoring_policy,
+    questionCount: (session.question_ids || []).length,
+    answeredCount: Object.keys(answers).length,
+    answers,
+    startedAt: session.started_at,
+    deadlineAt: session.deadline_at,
+    secondsRemaining: secondsRemaining(session.deadline_at),
+    pastDeadline: isPastDeadline(session.deadline_at),
+    submissionId: session.submission_id
+  };
+}
@@ -0,0 +1,70 @@
+// =====================================================
+// Aptitude Test Timing
+// =====================================================
+// Pure utility: the time limit for an aptitude attempt, deadline
+// checks against server time and per-item response times. All
+// timestamps come from the server; client clocks are never used.
+// =====================================================
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+/**
+ * Time allowed from session start to the last accepted answer
+ * (30 fixed-form items at 90 seconds each)
+ */
+export const APTITUDE_TIME_LIMIT_MINUTES = 45;
+
+/**
+ * Allowance for request latency when checking the deadline
+ */
+export const DEADLINE_GRACE_SECONDS = 5;
+
+// =====================================================
+// DEADLINE
+// =====================================================
+
+export function deadlineFrom(startedAt: Date): Date {
+  return new Date(startedAt.getTime() + APTITUDE_TIME_LIMIT_MINUTES * 60 * 1000);
+}
+
+/**
+ * True when `at` (default: now) is past the deadline plus grace
+ */
+export function isPastDeadline(deadlineAt: string, at: number = Date.now()): boolean {
+  return at > new Date(deadlineAt).getTime() + DEADLINE_GRACE_SECONDS * 1000;
+}
+
+export function secondsRemaining(deadlineAt: string, at: number = Date.now()): number {
+  return Math.max(0, Math.floor((new Date(deadlineAt).getTime() - at) / 1000));
+}
+
+// =====================================================
+// RESPONSE TIMES
+// =====================================================
+
+/**
+ * Response time per item (ms) from server answer timestamps
+ *
+ * Items are ordered by the time they were answered; each item's time
+ * is measured from the previous answer, the first from session start.
+ *
+ * @param startedAt - Session start (epoch ms)
+ * @param answeredAt - Server timestamp (epoch ms) per question id
+ */
+export function responseTimesFromTimestamps(
+  startedAt: number,
+  answeredAt: Record<string, number>
+): Record<string, number> {
+  const ordered = Object.entries(answeredAt).sort(([, a], [, b]) => a - b);
+  const times: Record<string, number> = {};
+
+  let previous = startedAt;
+  for (const [questionId, timestamp] of ordered) {
+    times[questionId] = Math.max(0, timestamp - previous);
+    previous = timestamp;
+  }
+
+  return times;
+}
@@ -0,0 +1,201 @@
+// =====================================================
+// Big Five Norm-Referenced Scoring
+// =====================================================
+// Pure mathematical utility: converts normalized trait scores
+// (0-100, see calculateBigFiveScore) into percentiles and
+// T-scores against a population norm table, and builds norm
+// tables from samples of stored results.
+// =====================================================
+
+import type { BigFiveScoreResult, BigFiveTrait } from '@/lib/calculateBigFiveScore';
+
+/**
+ * Norm statistics for one trait, on the normalized 0-100 scale
+ */
+export interface TraitNorm {
+  mean: number;
+  sd: number;
+  sampleSize: number;
+}
+
+/**
+ * Norm table for one reference population
+ * population is one of NORM_POPULATIONS, e.g. 'general', 'age:18-24'
+ */
+export interface NormTable {
+  population: string;
+  traits: Record<BigFiveTrait, TraitNorm>;
+}
+
+/**
+ * A single trait score expressed against a norm table
+ */
+export interface NormReferencedScore {
+  score: number;
+  percentile: number;
+  tScore: number;
+}
+
+/**
+ * All five traits expressed against a norm table
+ */
+export interface NormReferencedResult {
+  population: string;
+  traits: Record<BigFiveTrait, NormReferencedScore>;
+}
+
+/**
+ * Population used when no (or an unknown) population is requested
+ */
+export const DEFAULT_NORM_POPULATION = 'general';
+
+/**
+ * Populations a result may be normed against; clients pick one of
+ * these, so nobody can open (or flood) a norm group of their own
+ */
+export const NORM_POPULATIONS = [
+  DEFAULT_NORM_POPULATION,
+  'age:18-24',
+  'age:25-34',
+  'age:35-44',
+  'age:45-54',
+  'age:55-64',
+  'age:65+'
+] as const;
+
+export type NormPopulation = typeof NORM_POPULATIONS[number];
+
+/**
+ * Minimum number of results before a population gets its own norms
+ */
+export const MIN_NORM_SAMPLE_SIZE = 30;
+
+const TRAITS: BigFiveTrait[] = [
+  'openness',
+  'conscientiousness',
+  'extraversion',
+  'agreeableness',
+  'neuroticism'
+];
+
+// =====================================================
+// SCORE CONVERSION
+// =====================================================
+
+/**
+ * Express normalized Big Five scores against a norm table
+ *
+ * @param scores - Normalized scores (0-100) from calculateBigFiveScore
+ * @param normTable - Norm table of the reference population
+ * @returns Percentile (0-100) and T-score (mean 50, SD 10) per trait
+ * @throws {Error} If the norm table has a non-positive SD
+ */
+export function applyNorms(
+  scores: BigFiveScoreResult,
+  normTable: NormTable
+): NormReferencedResult {
+  const traits = {} as Record<BigFiveTrait, NormReferencedScore>;
+
+  for (const trait of TRAITS) {
+    const norm = normTable.traits[trait];
+
+    if (!norm || !(norm.sd > 0)) {
+      throw new Error(`Invalid norm for trait ${trait} in population ${normTable.population}`);
+    }
+
+    const z = (scores[trait] - norm.mean) / norm.sd;
+
+    traits[trait] = {
+      score: scores[trait],
+      percentile: round1(clamp(normalCdf(z) * 100, 0, 100)),
+      tScore: round1(50 + 10 * z)
+    };
+  }
+
+  return {
+    population: normTable.population,
+    traits
+  };
+}
+
+// =====================================================
+// NORM CONSTRUCTION
+// =====================================================
+
+/**
+ * Build a norm table from a sample of normalized results
+ *
+ * @param population - Population key the sample belongs to
+ * @param samples - Normalized scores of every result in the sample
+ * @returns Norm table with mean, sample SD and size per trait
+ * @throws {Error} If the sample is smaller than MIN_NORM_SAMPLE_SIZE
+ */
+export function buildNormTable(
+  population: string,
+  samples: BigFiveScoreResult[]
+): NormTable {
+  if (samples.length < MIN_NORM_SAMPLE_SIZE) {
+    throw new Error(
+      `Population ${population} has ${samples.length} results, needs at least ${MIN_NORM_SAMPLE_SIZE}`
+    );
+  }
+
+  const traits = {} as Record<BigFiveTrait, TraitNorm>;
+
+  for (const trait of TRAITS) {
+    const values = samples.map((s) => s[trait]);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance =
+      values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+
+    traits[trait] = {
+      mean: round2(mean),
+      // Floor the SD so a degenerate sample can never divide by zero
+      sd: round2(Math.max(Math.sqrt(variance), 0.01)),
+      sampleSize: values.length
+    };
+  }
+
+  return { population, traits };
+}
+
+/**
+ * Check a population supplied by a client is one of NORM_POPULATIONS
+ */
+export function isNormPopulation(population: string): population is NormPopulation {
+  return (NORM_POPULATIONS as readonly string[]).includes(population);
+}
+
+// =====================================================
+// INTERNAL MATH
+// =====================================================
+
+/**
+ * Standard normal CDF via the Abramowitz-Stegun erf approximation
+ * (max absolute error ~1.5e-7, far below display precision)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t * (0.254829592 +
+    t * (-0.284496736 +
+    t * (1.421413741 +
+    t * (-1.453152027 +
+    t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
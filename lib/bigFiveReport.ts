@@ -0,0 +1,159 @@
+// =====================================================
+// Big Five Interpretive Report
+// =====================================================
+// Pure utility: turns a BigFiveScoreResult into a structured
+// interpretation (band per trait, strengths / watch-outs
+// paragraphs, work-style implications). All wording comes from
+// the content table (psych_report_content); nothing user-facing
+// is hardcoded here. Content access lives in lib/psychReport.ts.
+// =====================================================
+
+import type { BigFiveScoreResult, BigFiveTrait } from '@/lib/calculateBigFiveScore';
+import type { NormReferencedResult } from '@/lib/bigFiveNorms';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type ScoreBand = 'low' | 'average' | 'high';
+
+/**
+ * One editable content row: the text shown for a trait in a band
+ */
+export interface ReportContent {
+  trait: BigFiveTrait;
+  band: ScoreBand;
+  summary: string;
+  strengths: string;
+  watchOuts: string;
+  workStyle: string[];
+}
+
+/**
+ * Content for every trait x band combination
+ */
+export type ReportContentTable = Record<BigFiveTrait, Record<ScoreBand, ReportContent>>;
+
+/**
+ * percentile: null when no norm table was available; the band then
+ * comes from the raw-normalized score
+ */
+export interface TraitInterpretation {
+  band: ScoreBand;
+  score: number;
+  percentile: number | null;
+  summary: string;
+  strengths: string;
+  watchOuts: string;
+  workStyle: string[];
+}
+
+export interface BigFiveReport {
+  bandBasis: 'percentile' | 'score';
+  traits: Record<BigFiveTrait, TraitInterpretation>;
+  strengths: string;
+  watchOuts: string;
+  workStyle: string[];
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+/**
+ * Band cut points, applied to the percentile when norms exist and to
+ * the 0-100 score otherwise: below LOW_BELOW is low, above HIGH_ABOVE
+ * is high, everything else average
+ */
+export const BAND_THRESHOLDS = {
+  LOW_BELOW: 30,
+  HIGH_ABOVE: 70
+} as const;
+
+export const SCORE_BANDS: readonly ScoreBand[] = ['low', 'average', 'high'];
+
+const TRAITS: BigFiveTrait[] = [
+  'openness',
+  'conscientiousness',
+  'extraversion',
+  'agreeableness',
+  'neuroticism'
+];
+
+// =====================================================
+// REPORT
+// =====================================================
+
+/**
+ * Build the interpretive report for one result
+ *
+ * @param scores - Normalized scores (0-100) from calculateBigFiveScore
+ * @param norms - Norm-referenced scores, or null to band on raw scores
+ * @param content - Complete content table (see fetchReportContent)
+ */
+export function buildBigFiveReport(
+  scores: BigFiveScoreResult,
+  norms: NormReferencedResult | null,
+  content: ReportContentTable
+): BigFiveReport {
+  const traits = {} as Record<BigFiveTrait, TraitInterpretation>;
+
+  for (const trait of TRAITS) {
+    const percentile = norms ? norms.traits[trait].percentile : null;
+    const band = classifyBand(percentile ?? scores[trait]);
+    const row = content[trait][band];
+
+    traits[trait] = {
+      band,
+      score: scores[trait],
+      percentile,
+      summary: row.summary,
+      strengths: row.strengths,
+      watchOuts: row.watchOuts,
+      workStyle: row.workStyle
+    };
+  }
+
+  const interpretations = TRAITS.map(trait => traits[trait]);
+
+  return {
+    bandBasis: norms ? 'percentile' : 'score',
+    traits,
+    strengths: toParagraph(interpretations.map(t => t.strengths)),
+    watchOuts: toParagraph(interpretations.map(t => t.watchOuts)),
+    workStyle: [...new Set(interpretations.flatMap(t => t.workStyle))]
+  };
+}
+
+/**
+ * Band a percentile (or 0-100 score) using BAND_THRESHOLDS
+ */
+export function classifyBand(value: number): ScoreBand {
+  if (value < BAND_THRESHOLDS.LOW_BELOW) {
+    return 'low';
+  }
+
+  if (value > BAND_THRESHOLDS.HIGH_ABOVE) {
+    return 'high';
+  }
+
+  return 'average';
+}
+
+export function isScoreBand(value: string): value is ScoreBand {
+  return (SCORE_BANDS as readonly string[]).includes(value);
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * Join non-empty sentences into one paragraph
+ */
+function toParagraph(sentences: string[]): string {
+  return sentences
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0)
+    .join(' ');
+}
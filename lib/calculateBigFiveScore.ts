@@ -15,23 +15,120 @@ export type BigFiveTrait =
   | 'agreeableness' 
   | 'neuroticism';
 
+/**
+ * Big Five facets (IPIP-NEO taxonomy, 6 per trait)
+ */
+export type BigFiveFacet =
+  // Openness
+  | 'imagination'
+  | 'artistic_interests'
+  | 'emotionality'
+  | 'adventurousness'
+  | 'intellect'
+  | 'liberalism'
+  // Conscientiousness
+  | 'self_efficacy'
+  | 'orderliness'
+  | 'dutifulness'
+  | 'achievement_striving'
+  | 'self_discipline'
+  | 'cautiousness'
+  // Extraversion
+  | 'friendliness'
+  | 'gregariousness'
+  | 'assertiveness'
+  | 'activity_level'
+  | 'excitement_seeking'
+  | 'cheerfulness'
+  // Agreeableness
+  | 'trust'
+  | 'morality'
+  | 'altruism'
+  | 'cooperation'
+  | 'modesty'
+  | 'sympathy'
+  // Neuroticism
+  | 'anxiety'
+  | 'anger'
+  | 'depression'
+  | 'self_consciousness'
+  | 'immoderation'
+  | 'vulnerability';
+
+/**
+ * Facets belonging to each trait
+ */
+export const BIG_FIVE_FACETS: Record<BigFiveTrait, readonly BigFiveFacet[]> = {
+  openness: [
+    'imagination',
+    'artistic_interests',
+    'emotionality',
+    'adventurousness',
+    'intellect',
+    'liberalism'
+  ],
+  conscientiousness: [
+    'self_efficacy',
+    'orderliness',
+    'dutifulness',
+    'achievement_striving',
+    'self_discipline',
+    'cautiousness'
+  ],
+  extraversion: [
+    'friendliness',
+    'gregariousness',
+    'assertiveness',
+    'activity_level',
+    'excitement_seeking',
+    'cheerfulness'
+  ],
+  agreeableness: [
+    'trust',
+    'morality',
+    'altruism',
+    'cooperation',
+    'modesty',
+    'sympathy'
+  ],
+  neuroticism: [
+    'anxiety',
+    'anger',
+    'depression',
+    'self_consciousness',
+    'immoderation',
+    'vulnerability'
+  ]
+};
+
 /**
  * Question polarity for scoring
  */
 export type Polarity = 1 | -1;
 
+/**
+ * Number of Likert response options (answers run 1..points)
+ */
+export type LikertScalePoints = 5 | 7;
+
+export const LIKERT_SCALE_POINTS: readonly LikertScalePoints[] = [5, 7];
+
 /**
  * Psychology question structure
+ * facet is optional: untagged questions only count towards their trait
+ * scale_points is optional: untagged questions use the 5-point scale
  */
 export interface PsychQuestion {
   id: string;
   trait: BigFiveTrait;
+  facet?: BigFiveFacet | null;
   polarity: Polarity;
+  scale_points?: LikertScalePoints | null;
   question_text: string;
 }
 
 /**
- * User's answers to questions (question_id -> answer value 1-5)
+ * User's answers to questions (question_id -> answer value 1..scale points)
  */
 export type UserAnswers = Record<string, number>;
 
@@ -46,28 +143,53 @@ export interface BigFiveScoreResult {
   neuroticism: number;
 }
 
+/**
+ * Normalized facet scores (0-100 scale)
+ * Only facets with at least one tagged question are present
+ */
+export type FacetScoreResult = Partial<Record<BigFiveFacet, number>>;
+
+/**
+ * Internal score accumulator
+ * raw: sum of keyed answers, count: items, max: sum of item maxima
+ * (items of one trait may use different scale widths)
+ */
+interface ScoreAccumulator {
+  raw: number;
+  count: number;
+  max: number;
+}
+
 /**
  * Internal trait score accumulator
  * IMPROVEMENT: Tracks both raw score and count dynamically
  */
 interface TraitScores {
-  openness: { raw: number; count: number };
-  conscientiousness: { raw: number; count: number };
-  extraversion: { raw: number; count: number };
-  agreeableness: { raw: number; count: number };
-  neuroticism: { raw: number; count: number };
+  openness: ScoreAccumulator;
+  conscientiousness: ScoreAccumulator;
+  extraversion: ScoreAccumulator;
+  agreeableness: ScoreAccumulator;
+  neuroticism: ScoreAccumulator;
 }
 
 /**
  * Likert scale constants
- * IMPROVEMENT: Removed hardcoded question counts
+ * The maximum is per question (scale_points); the minimum is always 1
+ * and the reverse-keying base is scale_points + 1
  */
 const LIKERT_SCALE = {
   MIN: 1,
-  MAX: 5,
-  REVERSE_BASE: 6
+  DEFAULT_POINTS: 5
 } as const;
 
+/**
+ * Version of the scoring logic in this file
+ * Written with every stored result; bump whenever a change here would
+ * alter scores for the same answers, then run the rescoring job
+ * (POST /api/admin/psychometric/rescore)
+ */
+export const SCORING_VERSION = 1;
+
 // =====================================================
 // CORE CALCULATION FUNCTION
 // =====================================================
@@ -81,8 +203,8 @@ const LIKERT_SCALE = {
  * - Flexible normalization based on actual distribution
  * - Pure mathematical logic only
  * 
- * @param userAnswers - Map of question IDs to answers (1-5 Likert scale)
- * @param questions - Array of questions with trait and polarity
+ * @param userAnswers - Map of question IDs to answers (1..scale points)
+ * @param questions - Array of questions with trait, polarity and scale
  * @returns Normalized Big Five scores (0-100 scale)
  * @throws {Error} Validation or calculation errors
  */
@@ -96,6 +218,49 @@ export function calculateBigFiveScore(
   return normalizeTraitScores(traitScores);
 }
 
+/**
+ * Calculate facet-level scores from user answers
+ *
+ * Companion to calculateBigFiveScore: uses the same item scoring and
+ * normalization, grouped by facet instead of trait. Questions without
+ * a facet tag are ignored here (they still count towards their trait).
+ *
+ * @param userAnswers - Map of question IDs to answers (1..scale points)
+ * @param questions - Array of questions with trait, facet, polarity and scale
+ * @returns Normalized facet scores (0-100 scale), only for tagged facets
+ * @throws {Error} Validation or calculation errors
+ */
+export function calculateFacetScores(
+  userAnswers: UserAnswers,
+  questions: PsychQuestion[]
+): FacetScoreResult {
+  validateInputs(userAnswers, questions);
+
+  const facetScores = new Map<BigFiveFacet, ScoreAccumulator>();
+
+  for (const question of questions) {
+    if (!question.facet) {
+      continue;
+    }
+
+    const score = scoreItem(userAnswers, question);
+    const accumulator = facetScores.get(question.facet) ?? { raw: 0, count: 0, max: 0 };
+
+    accumulator.raw += score;
+    accumulator.count += 1;
+    accumulator.max += getLikertPoints(question);
+    facetScores.set(question.facet, accumulator);
+  }
+
+  const result: FacetScoreResult = {};
+
+  for (const [facet, accumulator] of facetScores) {
+    result[facet] = normalizeTraitScore(accumulator);
+  }
+
+  return result;
+}
+
 // =====================================================
 // INTERNAL CALCULATION FUNCTIONS
 // =====================================================
@@ -109,64 +274,73 @@ function accumulateTraitScores(
   questions: PsychQuestion[]
 ): TraitScores {
   const scores: TraitScores = {
-    openness: { raw: 0, count: 0 },
-    conscientiousness: { raw: 0, count: 0 },
-    extraversion: { raw: 0, count: 0 },
-    agreeableness: { raw: 0, count: 0 },
-    neuroticism: { raw: 0, count: 0 }
+    openness: { raw: 0, count: 0, max: 0 },
+    conscientiousness: { raw: 0, count: 0, max: 0 },
+    extraversion: { raw: 0, count: 0, max: 0 },
+    agreeableness: { raw: 0, count: 0, max: 0 },
+    neuroticism: { raw: 0, count: 0, max: 0 }
   };
 
   for (const question of questions) {
-    const answer = userAnswers[question.id];
-
-    if (answer === undefined || answer === null) {
-      throw new Error(`Missing answer for question: ${question.id}`);
-    }
-
-    if (!isValidLikertAnswer(answer)) {
-      throw new Error(
-        `Invalid answer ${answer} for question ${question.id}. Must be 1-5.`
-      );
-    }
-
-    // Apply reverse scoring: 6 - answer for polarity -1
-    const score = question.polarity === -1 
-      ? LIKERT_SCALE.REVERSE_BASE - answer
-      : answer;
+    const score = scoreItem(userAnswers, question);
 
     scores[question.trait].raw += score;
     scores[question.trait].count += 1;
+    scores[question.trait].max += getLikertPoints(question);
   }
 
   return scores;
 }
 
+/**
+ * Score a single item, applying reverse keying
+ */
+function scoreItem(userAnswers: UserAnswers, question: PsychQuestion): number {
+  const answer = userAnswers[question.id];
+
+  if (answer === undefined || answer === null) {
+    throw new Error(`Missing answer for question: ${question.id}`);
+  }
+
+  const points = getLikertPoints(question);
+
+  if (!isValidLikertAnswer(answer, points)) {
+    throw new Error(
+      `Invalid answer ${answer} for question ${question.id}. Must be 1-${points}.`
+    );
+  }
+
+  return keyedAnswer(answer, question);
+}
+
+/**
+ * Apply reverse keying: (points + 1) - answer for polarity -1
+ * (6 - answer on a 5-point item, 8 - answer on a 7-point item)
+ */
+export function keyedAnswer(answer: number, question: PsychQuestion): number {
+  return question.polarity === -1
+    ? getLikertPoints(question) + LIKERT_SCALE.MIN - answer
+    : answer;
+}
+
+/**
+ * Scale width of a question (5-point unless tagged otherwise)
+ */
+export function getLikertPoints(question: PsychQuestion): LikertScalePoints {
+  return question.scale_points ?? LIKERT_SCALE.DEFAULT_POINTS;
+}
+
 /**
  * Normalize trait scores to 0-100 scale
  * IMPROVEMENT: Delegates to per-trait normalization with dynamic ranges
  */
 function normalizeTraitScores(traitScores: TraitScores): BigFiveScoreResult {
   return {
-    openness: normalizeTraitScore(
-      traitScores.openness.raw,
-      traitScores.openness.count
-    ),
-    conscientiousness: normalizeTraitScore(
-      traitScores.conscientiousness.raw,
-      traitScores.conscientiousness.count
-    ),
-    extraversion: normalizeTraitScore(
-      traitScores.extraversion.raw,
-      traitScores.extraversion.count
-    ),
-    agreeableness: normalizeTraitScore(
-      traitScores.agreeableness.raw,
-      traitScores.agreeableness.count
-    ),
-    neuroticism: normalizeTraitScore(
-      traitScores.neuroticism.raw,
-      traitScores.neuroticism.count
-    )
+    openness: normalizeTraitScore(traitScores.openness),
+    conscientiousness: normalizeTraitScore(traitScores.conscientiousness),
+    extraversion: normalizeTraitScore(traitScores.extraversion),
+    agreeableness: normalizeTraitScore(traitScores.agreeableness),
+    neuroticism: normalizeTraitScore(traitScores.neuroticism)
   };
 }
 
@@ -174,21 +348,21 @@ function normalizeTraitScores(traitScores: TraitScores): BigFiveScoreResult {
  * Normalize single trait score to 0-100 scale
  * IMPROVEMENT: Dynamic min/max calculation per trait
  * Formula: ((raw - minRaw) / (maxRaw - minRaw)) * 100
+ * minRaw = count * 1, maxRaw = sum of each item's scale points
  * 
- * @param rawScore - Accumulated raw score
- * @param questionCount - Number of questions for this trait
+ * @param accumulator - Raw score, question count and maximum raw score
  * @returns Normalized score 0-100
  */
-function normalizeTraitScore(rawScore: number, questionCount: number): number {
-  const minRaw = questionCount * LIKERT_SCALE.MIN;
-  const maxRaw = questionCount * LIKERT_SCALE.MAX;
+function normalizeTraitScore({ raw, count, max }: ScoreAccumulator): number {
+  const minRaw = count * LIKERT_SCALE.MIN;
+  const maxRaw = max;
   const range = maxRaw - minRaw;
 
   if (range === 0) {
     throw new Error('Cannot normalize: question count resulted in zero range');
   }
 
-  const normalized = ((rawScore - minRaw) / range) * 100;
+  const normalized = ((raw - minRaw) / range) * 100;
 
   // Clamp to 0-100 and round to 2 decimals
   return Math.round(Math.max(0, Math.min(100, normalized)) * 100) / 100;
@@ -199,17 +373,31 @@ function normalizeTraitScore(rawScore: number, questionCount: number): number {
 // =====================================================
 
 /**
- * Validate Likert scale answer
+ * Validate Likert scale answer against the question's scale width
  * IMPROVEMENT: Explicit integer check
  */
-function isValidLikertAnswer(answer: number): boolean {
+export function isValidLikertAnswer(
+  answer: number,
+  points: LikertScalePoints = LIKERT_SCALE.DEFAULT_POINTS
+): boolean {
   return (
     Number.isInteger(answer) &&
     answer >= LIKERT_SCALE.MIN &&
-    answer <= LIKERT_SCALE.MAX
+    answer <= points
   );
 }
 
+export function isValidScalePoints(points: unknown): points is LikertScalePoints {
+  return (LIKERT_SCALE_POINTS as readonly unknown[]).includes(points);
+}
+
+/**
+ * Check that a facet belongs to the given trait
+ */
+export function isFacetOfTrait(facet: string, trait: BigFiveTrait): boolean {
+  return (BIG_FIVE_FACETS[trait] as readonly string[]).includes(facet);
+}
+
 /**
  * Validate basic input requirements
  * IMPROVEMENT: Removed hardcoded total question count validation
@@ -237,6 +425,18 @@ function validateInputs(
         `Invalid polarity for question ${question.id}. Must be 1 or -1.`
       );
     }
+
+    if (question.scale_points != null && !isValidScalePoints(question.scale_points)) {
+      throw new Error(
+        `Invalid scale_points for question ${question.id}. Must be one of ${LIKERT_SCALE_POINTS.join(', ')}.`
+      );
+    }
+
+    if (question.facet && !isFacetOfTrait(question.facet, question.trait)) {
+      throw new Error(
+        `Invalid facet ${question.facet} for question ${question.id}. Not a facet of ${question.trait}.`
+      );
+    }
   }
 }
 
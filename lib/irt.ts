@@ -0,0 +1,200 @@
+// =====================================================
+// Item Response Theory (2PL) for Adaptive Aptitude Testing
+// =====================================================
+// Pure mathematical utility: item response probabilities and
+// information under the two-parameter logistic model, an EAP
+// ability estimate with its standard error, maximum-information
+// item selection and the CAT stopping rule. Database access and
+// session handling live in lib/aptitudeCat.ts.
+// =====================================================
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * 2PL item parameters on the logistic (D = 1) metric
+ * difficulty: ability at which P(correct) = 0.5
+ * discrimination: slope at that point (> 0)
+ */
+export interface ItemParameters {
+  difficulty: number;
+  discrimination: number;
+}
+
+export interface ItemResponse {
+  item: ItemParameters;
+  correct: boolean;
+}
+
+/**
+ * theta: posterior mean ability (standard normal prior)
+ * standardError: posterior SD of theta
+ */
+export interface AbilityEstimate {
+  theta: number;
+  standardError: number;
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+/**
+ * Stopping rule, applied per category: stop once the standard error
+ * reaches TARGET_STANDARD_ERROR (after at least MIN_ITEMS), or after
+ * MAX_ITEMS, or when the bank for the category is exhausted
+ */
+export const CAT_STOPPING_RULE = {
+  TARGET_STANDARD_ERROR: 0.4,
+  MIN_ITEMS: 3,
+  MAX_ITEMS: 10
+} as const;
+
+/**
+ * Quadrature grid for EAP: -4..4 in steps of 0.1
+ */
+const THETA_MIN = -4;
+const THETA_MAX = 4;
+const THETA_STEP = 0.1;
+
+const QUADRATURE_POINTS: number[] = Array.from(
+  { length: Math.round((THETA_MAX - THETA_MIN) / THETA_STEP) + 1 },
+  (_, i) => THETA_MIN + i * THETA_STEP
+);
+
+/**
+ * Estimate before any response: the prior mean and SD
+ */
+export const PRIOR_ESTIMATE: AbilityEstimate = { theta: 0, standardError: 1 };
+
+// =====================================================
+// ITEM RESPONSE FUNCTIONS
+// =====================================================
+
+/**
+ * P(correct | theta) under the 2PL model
+ */
+export function probabilityCorrect(theta: number, item: ItemParameters): number {
+  return 1 / (1 + Math.exp(-item.discrimination * (theta - item.difficulty)));
+}
+
+/**
+ * Fisher information of an item at theta: a^2 * P * (1 - P)
+ */
+export function itemInformation(theta: number, item: ItemParameters): number {
+  const p = probabilityCorrect(theta, item);
+  return item.discrimination * item.discrimination * p * (1 - p);
+}
+
+/**
+ * Expected proportion correct over a set of items at theta
+ * (test characteristic curve divided by item count)
+ */
+export function expectedProportionCorrect(theta: number, items: ItemParameters[]): number {
+  if (items.length === 0) {
+    return 0;
+  }
+
+  const expected = items.reduce((sum, item) => sum + probabilityCorrect(theta, item), 0);
+  return expected / items.length;
+}
+
+// =====================================================
+// ABILITY ESTIMATION
+// =====================================================
+
+/**
+ * Expected a posteriori (EAP) ability estimate
+ *
+ * Uses a standard normal prior, so all-correct and all-incorrect
+ * response patterns still give a finite theta (unlike MLE).
+ */
+export function estimateAbility(responses: ItemResponse[]): AbilityEstimate {
+  if (responses.length === 0) {
+    return { ...PRIOR_ESTIMATE };
+  }
+
+  let weightSum = 0;
+  let thetaSum = 0;
+  let thetaSquaredSum = 0;
+
+  for (const theta of QUADRATURE_POINTS) {
+    let logLikelihood = -0.5 * theta * theta;
+
+    for (const response of responses) {
+      const p = probabilityCorrect(theta, response.item);
+      logLikelihood += Math.log(response.correct ? p : 1 - p);
+    }
+
+    const weight = Math.exp(logLikelihood);
+    weightSum += weight;
+    thetaSum += weight * theta;
+    thetaSquaredSum += weight * theta * theta;
+  }
+
+  const mean = thetaSum / weightSum;
+  const variance = Math.max(0, thetaSquaredSum / weightSum - mean * mean);
+
+  return {
+    theta: round3(mean),
+    standardError: round3(Math.sqrt(variance))
+  };
+}
+
+// =====================================================
+// ITEM SELECTION
+// =====================================================
+
+/**
+ * Pick the candidate with maximum information at theta
+ * Ties keep the earlier candidate, so callers control tie order.
+ *
+ * @returns null when there are no candidates
+ */
+export function selectMaxInformationItem<T extends ItemParameters>(
+  theta: number,
+  candidates: T[]
+): T | null {
+  let best: T | null = null;
+  let bestInformation = -Infinity;
+
+  for (const candidate of candidates) {
+    const information = itemInformation(theta, candidate);
+    if (information > bestInformation) {
+      best = candidate;
+      bestInformation = information;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Apply CAT_STOPPING_RULE to one category
+ *
+ * @param itemCount - Items administered so far in the category
+ * @param remainingItems - Unadministered items left in the bank
+ */
+export function shouldStopTesting(
+  estimate: AbilityEstimate,
+  itemCount: number,
+  remainingItems: number
+): boolean {
+  if (remainingItems === 0 || itemCount >= CAT_STOPPING_RULE.MAX_ITEMS) {
+    return true;
+  }
+
+  return (
+    itemCount >= CAT_STOPPING_RULE.MIN_ITEMS &&
+    estimate.standardError <= CAT_STOPPING_RULE.TARGET_STANDARD_ERROR
+  );
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
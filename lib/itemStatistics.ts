@@ -0,0 +1,244 @@
+// =====================================================
+// Psychometric Item Statistics
+// =====================================================
+// Pure mathematical utility: classical test theory statistics
+// over stored raw answers of one test form.
+// - Cronbach's alpha per trait (complete cases only)
+// - Corrected item-total correlation per item
+// - Mean / SD per item on its raw scale (1-5 or 1-7)
+// - Items whose reverse keying looks wrong
+//
+// Alpha and item-total correlations use keyed scores, so a
+// correctly keyed item should correlate positively with the
+// rest of its scale whatever its polarity.
+// =====================================================
+
+import { getLikertPoints, keyedAnswer } from '@/lib/calculateBigFiveScore';
+import type {
+  BigFiveTrait,
+  LikertScalePoints,
+  Polarity,
+  PsychQuestion,
+  UserAnswers
+} from '@/lib/calculateBigFiveScore';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+/**
+ * Fewer complete responses than this and the statistics are too
+ * unstable to act on (they are still returned)
+ */
+export const MIN_ITEM_ANALYSIS_SAMPLE = 100;
+
+/**
+ * A keyed item correlating below this with the rest of its scale
+ * points the other way: its polarity is probably wrong
+ */
+export const SUSPECT_KEYING_CORRELATION = 0;
+
+const TRAITS: BigFiveTrait[] = [
+  'openness',
+  'conscientiousness',
+  'extraversion',
+  'agreeableness',
+  'neuroticism'
+];
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * mean / sd: raw answers (before reverse keying)
+ * itemTotalCorrelation: keyed item vs. sum of the other keyed items
+ *   of its trait; null when undefined (constant item or scale)
+ */
+export interface ItemStatistic {
+  questionId: string;
+  trait: BigFiveTrait;
+  polarity: Polarity;
+  scalePoints: LikertScalePoints;
+  n: number;
+  mean: number | null;
+  sd: number | null;
+  itemTotalCorrelation: number | null;
+}
+
+export interface TraitReliability {
+  itemCount: number;
+  completeCases: number;
+  alpha: number | null;
+}
+
+export interface SuspectKeyingItem {
+  questionId: string;
+  trait: BigFiveTrait;
+  polarity: Polarity;
+  itemTotalCorrelation: number;
+}
+
+export interface ItemAnalysisReport {
+  sampleSize: number;
+  sufficientSample: boolean;
+  traits: Record<BigFiveTrait, TraitReliability>;
+  items: ItemStatistic[];
+  suspectKeying: SuspectKeyingItem[];
+}
+
+// =====================================================
+// ANALYSIS
+// =====================================================
+
+/**
+ * Compute item and scale statistics for one form
+ *
+ * @param responses - Raw answer sets of stored results for the form
+ * @param questions - The form's questions (trait + polarity)
+ */
+export function analyzeItems(
+  responses: UserAnswers[],
+  questions: PsychQuestion[]
+): ItemAnalysisReport {
+  const items: ItemStatistic[] = [];
+  const traits = {} as Record<BigFiveTrait, TraitReliability>;
+
+  for (const trait of TRAITS) {
+    const traitQuestions = questions.filter(q => q.trait === trait);
+
+    // Complete cases: every item of the trait answered
+    const keyedRows = responses
+      .filter(answers => traitQuestions.every(q => isAnswered(answers[q.id])))
+      .map(answers => traitQuestions.map(q => keyedAnswer(answers[q.id], q)));
+
+    traits[trait] = {
+      itemCount: traitQuestions.length,
+      completeCases: keyedRows.length,
+      alpha: round3(cronbachAlpha(keyedRows, traitQuestions.length))
+    };
+
+    traitQuestions.forEach((question, index) => {
+      const raw = responses
+        .map(answers => answers[question.id])
+        .filter(isAnswered);
+
+      const itemScores = keyedRows.map(row => row[index]);
+      const restScores = keyedRows.map(row => sum(row) - row[index]);
+
+      items.push({
+        questionId: question.id,
+        trait,
+        polarity: question.polarity,
+        scalePoints: getLikertPoints(question),
+        n: raw.length,
+        mean: round3(mean(raw)),
+        sd: round3(standardDeviation(raw)),
+        itemTotalCorrelation: round3(pearson(itemScores, restScores))
+      });
+    });
+  }
+
+  const suspectKeying = items
+    .filter(
+      (item): item is ItemStatistic & { itemTotalCorrelation: number } =>
+        item.itemTotalCorrelation !== null &&
+        item.itemTotalCorrelation < SUSPECT_KEYING_CORRELATION
+    )
+    .map(item => ({
+      questionId: item.questionId,
+      trait: item.trait,
+      polarity: item.polarity,
+      itemTotalCorrelation: item.itemTotalCorrelation
+    }));
+
+  return {
+    sampleSize: responses.length,
+    sufficientSample: responses.length >= MIN_ITEM_ANALYSIS_SAMPLE,
+    traits,
+    items,
+    suspectKeying
+  };
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * alpha = k / (k - 1) * (1 - sum(item variances) / variance(total))
+ */
+function cronbachAlpha(rows: number[][], itemCount: number): number | null {
+  if (itemCount < 2 || rows.length < 2) {
+    return null;
+  }
+
+  let itemVarianceSum = 0;
+  for (let i = 0; i < itemCount; i++) {
+    itemVarianceSum += variance(rows.map(row => row[i])) ?? 0;
+  }
+
+  const totalVariance = variance(rows.map(sum));
+  if (!totalVariance) {
+    return null;
+  }
+
+  return (itemCount / (itemCount - 1)) * (1 - itemVarianceSum / totalVariance);
+}
+
+function pearson(x: number[], y: number[]): number | null {
+  if (x.length < 3) {
+    return null;
+  }
+
+  const meanX = mean(x)!;
+  const meanY = mean(y)!;
+
+  let covariance = 0;
+  let sumSqX = 0;
+  let sumSqY = 0;
+  for (let i = 0; i < x.length; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    sumSqX += (x[i] - meanX) ** 2;
+    sumSqY += (y[i] - meanY) ** 2;
+  }
+
+  if (sumSqX === 0 || sumSqY === 0) {
+    return null;
+  }
+
+  return covariance / Math.sqrt(sumSqX * sumSqY);
+}
+
+function isAnswered(answer: number | undefined): answer is number {
+  return typeof answer === 'number' && Number.isFinite(answer);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? sum(values) / values.length : null;
+}
+
+/**
+ * Sample variance (n - 1)
+ */
+function variance(values: number[]): number | null {
+  if (values.length < 2) {
+    return null;
+  }
+
+  const m = mean(values)!;
+  return values.reduce((total, value) => total + (value - m) ** 2, 0) / (values.length - 1);
+}
+
+function standardDeviation(values: number[]): number | null {
+  const v = variance(values);
+  return v === null ? null : Math.sqrt(v);
+}
+
+function round3(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 1000) / 1000;
+}
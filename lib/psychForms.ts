@@ -0,0 +1,253 @@
+// =====================================================
+// Psychometric Test Forms
+// =====================================================
+// A test form is a named, versioned set of question ids with its
+// own required count and per-trait blueprint. Results record the
+// form + version that produced them, so items can be revised by
+// publishing a new version without invalidating older results.
+//
+// MODES: 'full' is the complete instrument; 'short' forms are
+// validated subsets (Mini-IPIP / BFI-10 style). Each mode has its
+// own default form, and each form carries the per-trait reliability
+// its scores are calibrated with.
+//
+// SCALE: a form sets the Likert width (5 or 7 points) of its
+// questions; a question may override it with its own scale_points.
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isValidScalePoints } from '@/lib/calculateBigFiveScore';
+import type { BigFiveTrait, LikertScalePoints } from '@/lib/calculateBigFiveScore';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const FORM_COLUMNS =
+  'id, name, version, mode, scale_points, question_ids, required_count, blueprint, reliability, is_active, is_default';
+
+export const FORM_MODES = ['full', 'short'] as const;
+
+export const DEFAULT_FORM_MODE: PsychFormMode = 'full';
+
+const BLUEPRINT_TRAITS: BigFiveTrait[] = [
+  'openness',
+  'conscientiousness',
+  'extraversion',
+  'agreeableness',
+  'neuroticism'
+];
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type PsychFormMode = (typeof FORM_MODES)[number];
+
+/**
+ * Number of questions each trait must contribute to the form
+ */
+export type FormBlueprint = Record<BigFiveTrait, number>;
+
+/**
+ * Published reliability (0-1) of each trait scale on this form
+ */
+export type FormReliability = Record<BigFiveTrait, number>;
+
+export interface PsychTestForm {
+  id: string;
+  name: string;
+  version: number;
+  mode: PsychFormMode;
+  scalePoints: LikertScalePoints;
+  questionIds: string[];
+  requiredCount: number;
+  blueprint: FormBlueprint;
+  reliability: FormReliability;
+  isActive: boolean;
+}
+
+interface DatabaseTestForm {
+  id: string;
+  name: string;
+  version: number;
+  mode: string;
+  scale_points: number;
+  question_ids: string[] | null;
+  required_count: number;
+  blueprint: Record<string, number> | null;
+  reliability: Record<string, number> | null;
+  is_active: boolean;
+  is_default: boolean;
+}
+
+export type FetchTestFormResult =
+  | { success: true; form: PsychTestForm }
+  | { success: false; error: string; code: string; details?: string; status: number };
+
+// =====================================================
+// LOADER
+// =====================================================
+
+/**
+ * Fetch a test form by id, or the mode's default form when no id is given
+ *
+ * @param formId - Form id from the client / session; undefined for default
+ * @param options.requireActive - Reject retired forms (new attempts only;
+ *   sessions started on a since-retired form may still be finished)
+ * @param options.mode - Which default to use when formId is undefined
+ */
+export async function fetchTestForm(
+  supabase: SupabaseClient,
+  formId?: string,
+  options: { requireActive?: boolean; mode?: PsychFormMode } = {}
+): Promise<FetchTestFormResult> {
+  const mode = options.mode ?? DEFAULT_FORM_MODE;
+
+  if (formId !== undefined && !isValidFormId(formId)) {
+    return {
+      success: false,
+      error: 'Test form not found',
+      code: 'FORM_NOT_FOUND',
+      status: 404
+    };
+  }
+
+  const query = supabase.from('test_forms').select(FORM_COLUMNS);
+  const { data, error } = await (formId
+    ? query.eq('id', formId)
+    : query.eq('mode', mode).eq('is_default', true)
+  ).maybeSingle();
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'test_forms',
+      formId: formId ?? `default:${mode}`,
+      error: error.message
+    });
+
+    return {
+      success: false,
+      error: 'Failed to fetch test form',
+      code: 'DB_FETCH_FAILED',
+      status: 500
+    };
+  }
+
+  if (!data) {
+    return formId
+      ? {
+          success: false,
+          error: 'Test form not found',
+          code: 'FORM_NOT_FOUND',
+          status: 404
+        }
+      : {
+          success: false,
+          error: 'Service temporarily unavailable',
+          code: 'NO_DEFAULT_FORM',
+          details: `No default ${mode} psychometric test form is configured`,
+          status: 503
+        };
+  }
+
+  const row = data as DatabaseTestForm;
+
+  if (options.requireActive && !row.is_active) {
+    return {
+      success: false,
+      error: 'Test form retired',
+      code: 'FORM_RETIRED',
+      details: `${row.name} v${row.version} no longer accepts new attempts`,
+      status: 410
+    };
+  }
+
+  const form = toTestForm(row);
+  if (!form) {
+    console.error('[FORM_INTEGRITY_ERROR]', {
+      timestamp: new Date().toISOString(),
+      formId: row.id,
+      name: row.name,
+      version: row.version
+    });
+
+    return {
+      success: false,
+      error: 'Service temporarily unavailable',
+      code: 'DB_INTEGRITY_ERROR',
+      details: 'Test form definition is inconsistent',
+      status: 503
+    };
+  }
+
+  return { success: true, form };
+}
+
+export function isValidFormId(formId: string): boolean {
+  return UUID_PATTERN.test(formId);
+}
+
+export function isValidFormMode(mode: string): mode is PsychFormMode {
+  return (FORM_MODES as readonly string[]).includes(mode);
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * Map and self-check a form row
+ * question_ids, required_count and blueprint must all agree, and
+ * every trait needs a reliability strictly between 0 and 1
+ */
+function toTestForm(row: DatabaseTestForm): PsychTestForm | null {
+  const questionIds = row.question_ids || [];
+  const blueprint = row.blueprint || {};
+  const reliability = row.reliability || {};
+
+  if (!isValidFormMode(row.mode) || !isValidScalePoints(row.scale_points)) {
+    return null;
+  }
+
+  if (
+    questionIds.length !== row.required_count ||
+    new Set(questionIds).size !== questionIds.length
+  ) {
+    return null;
+  }
+
+  let blueprintTotal = 0;
+  for (const trait of BLUEPRINT_TRAITS) {
+    const count = blueprint[trait];
+    if (!Number.isInteger(count) || count < 1) {
+      return null;
+    }
+    blueprintTotal += count;
+
+    const r = reliability[trait];
+    if (typeof r !== 'number' || !(r > 0 && r < 1)) {
+      return null;
+    }
+  }
+
+  if (blueprintTotal !== row.required_count) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    version: row.version,
+    mode: row.mode,
+    scalePoints: row.scale_points,
+    questionIds,
+    requiredCount: row.required_count,
+    blueprint: blueprint as FormBlueprint,
+    reliability: reliability as FormReliability,
+    isActive: row.is_active
+  };
+}
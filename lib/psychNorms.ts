@@ -0,0 +1,173 @@
+// =====================================================
+// Psychometric Norm Table Access
+// =====================================================
+// Loads and stores norm tables in psych_norms (one row per
+// population + trait). Math lives in lib/bigFiveNorms.ts.
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BigFiveScoreResult, BigFiveTrait } from '@/lib/calculateBigFiveScore';
+import {
+  applyNorms,
+  DEFAULT_NORM_POPULATION
+} from '@/lib/bigFiveNorms';
+import type {
+  NormReferencedResult,
+  NormTable,
+  TraitNorm
+} from '@/lib/bigFiveNorms';
+import { VALID_TRAITS } from '@/lib/psychQuestions';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface DatabasePsychNorm {
+  population: string;
+  trait: string;
+  mean: number;
+  sd: number;
+  sample_size: number;
+}
+
+// =====================================================
+// READ
+// =====================================================
+
+/**
+ * Fetch the norm table for a population
+ *
+ * Falls back to DEFAULT_NORM_POPULATION when the requested population
+ * has no complete table. Returns null (never throws) when no usable
+ * table exists, so callers can still return the raw-normalized score.
+ */
+export async function fetchNormTable(
+  supabase: SupabaseClient,
+  population: string = DEFAULT_NORM_POPULATION
+): Promise<NormTable | null> {
+  const populations = population === DEFAULT_NORM_POPULATION
+    ? [DEFAULT_NORM_POPULATION]
+    : [population, DEFAULT_NORM_POPULATION];
+
+  const { data, error } = await supabase
+    .from('psych_norms')
+    .select('population, trait, mean, sd, sample_size')
+    .in('population', populations);
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'psych_norms',
+      error: error.message
+    });
+    return null;
+  }
+
+  for (const candidate of populations) {
+    const table = toNormTable(
+      candidate,
+      (data as DatabasePsychNorm[] || []).filter((row) => row.population === candidate)
+    );
+
+    if (table) {
+      return table;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Express scores against a population's norms, or null if none exist
+ */
+export async function fetchNormReferencedScores(
+  supabase: SupabaseClient,
+  scores: BigFiveScoreResult,
+  population?: string
+): Promise<NormReferencedResult | null> {
+  const normTable = await fetchNormTable(supabase, population);
+
+  if (!normTable) {
+    return null;
+  }
+
+  try {
+    return applyNorms(scores, normTable);
+  } catch (error) {
+    console.error('[NORM_APPLICATION_ERROR]', {
+      timestamp: new Date().toISOString(),
+      population: normTable.population,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+// =====================================================
+// WRITE
+// =====================================================
+
+/**
+ * Upsert a norm table (requires a service-role client)
+ */
+export async function saveNormTable(
+  supabase: SupabaseClient,
+  normTable: NormTable
+): Promise<{ success: true } | { success: false; error: string }> {
+  const updatedAt = new Date().toISOString();
+
+  const rows = VALID_TRAITS.map((trait) => ({
+    population: normTable.population,
+    trait,
+    mean: normTable.traits[trait].mean,
+    sd: normTable.traits[trait].sd,
+    sample_size: normTable.traits[trait].sampleSize,
+    updated_at: updatedAt
+  }));
+
+  const { error } = await supabase
+    .from('psych_norms')
+    .upsert(rows, { onConflict: 'population,trait' });
+
+  if (error) {
+    console.error('[DB_UPSERT_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'psych_norms',
+      population: normTable.population,
+      error: error.message
+    });
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+/**
+ * Assemble rows into a table; null unless every trait is present
+ */
+function toNormTable(
+  population: string,
+  rows: DatabasePsychNorm[]
+): NormTable | null {
+  const traits: Partial<Record<BigFiveTrait, TraitNorm>> = {};
+
+  for (const row of rows) {
+    if (VALID_TRAITS.includes(row.trait as BigFiveTrait)) {
+      traits[row.trait as BigFiveTrait] = {
+        mean: Number(row.mean),
+        sd: Number(row.sd),
+        sampleSize: row.sample_size
+      };
+    }
+  }
+
+  const complete = VALID_TRAITS.every((trait) => traits[trait] !== undefined);
+
+  return complete
+    ? { population, traits: traits as Record<BigFiveTrait, TraitNorm> }
+    : null;
+}
@@ -0,0 +1,316 @@
+// =====================================================
+// Psychometric Question Bank Access
+// =====================================================
+// Single source of truth for loading a test form's questions.
+// Shared by the submit route and the question delivery route so
+// both always agree on which questions are active and valid.
+// =====================================================
+
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isFacetOfTrait, isValidScalePoints } from '@/lib/calculateBigFiveScore';
+import type {
+  BigFiveFacet,
+  BigFiveTrait,
+  PsychQuestion
+} from '@/lib/calculateBigFiveScore';
+import type { PsychTestForm } from '@/lib/psychForms';
+
+// =====================================================
+// CONSTANTS - SOLVO Specification
+// =====================================================
+
+export const VALID_TRAITS: BigFiveTrait[] = [
+  'openness',
+  'conscientiousness',
+  'extraversion',
+  'agreeableness',
+  'neuroticism'
+];
+
+const VALID_POLARITIES = [1, -1] as const;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface DatabasePsychQuestion {
+  id: string;
+  trait: string;
+  facet: string | null;
+  polarity: number;
+  scale_points: number | null;
+  question_text: string;
+}
+
+export type FetchPsychQuestionsResult =
+  | { success: true; questions: PsychQuestion[] }
+  | { success: false; error: string; code: string; details?: string; status: number };
+
+// =====================================================
+// QUESTION BANK LOADER
+// =====================================================
+
+/**
+ * Fetch and validate the questions of a test form
+ *
+ * ARCHITECTURAL DECISION: Form-Driven Question Count
+ *
+ * The form, not the code, defines how many questions a test has and
+ * how they spread over the traits (e.g. 50 = 10 per trait). Enforcing
+ * the form's exact count and blueprint prevents:
+ * - Incomplete test submissions
+ * - Database corruption from partial imports
+ * - Client-side manipulation
+ *
+ * STRICT VALIDATION:
+ * - Enforces exactly form.requiredCount questions
+ * - Enforces the form's per-trait blueprint
+ * - Validates each question's integrity (id, trait, facet, polarity, scale)
+ * - Resolves each question's scale: its own scale_points, else the form's
+ * - Filters soft-deleted questions (schema has deleted_at column),
+ *   unless includeDeleted: rescoring stored results must use the
+ *   form's items as they were, even after one is retired
+ *
+ * @param admin - Service-role client; psych_questions (which holds
+ *   trait and polarity) is not readable by users
+ */
+export async function fetchPsychQuestions(
+  admin: SupabaseClient,
+  form: PsychTestForm,
+  options: { includeDeleted?: boolean } = {}
+): Promise<FetchPsychQuestionsResult> {
+  let query = admin
+    .from('psych_questions')
+    .select('id, trait, facet, polarity, scale_points, question_text')
+    .in('id', form.questionIds);
+
+  if (!options.includeDeleted) {
+    query = query.is('deleted_at', null); // Filter soft-deleted (schema compliance)
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'psych_questions',
+      error: error.message
+    });
+
+    return {
+      success: false,
+      error: 'Failed to fetch questions',
+      code: 'DB_FETCH_FAILED',
+      status: 500
+    };
+  }
+
+  if (!data || data.length === 0) {
+    console.error('[NO_QUESTIONS_AVAILABLE]', {
+      timestamp: new Date().toISOString()
+    });
+
+    return {
+      success: false,
+      error: 'Service temporarily unavailable',
+      code: 'NO_QUESTIONS',
+      details: `Form ${form.name} v${form.version} has no active questions`,
+      status: 503
+    };
+  }
+
+  // FORM ENFORCEMENT: Exactly form.requiredCount questions required
+  if (data.length !== form.requiredCount) {
+    console.error('[QUESTION_COUNT_MISMATCH]', {
+      timestamp: new Date().toISOString(),
+      formId: form.id,
+      expected: form.requiredCount,
+      actual: data.length
+    });
+
+    return {
+      success: false,
+      error: 'Service temporarily unavailable',
+      code: 'INVALID_QUESTION_COUNT',
+      details: `Expected ${form.requiredCount} questions, found ${data.length}`,
+      status: 503
+    };
+  }
+
+  // STRICT INTEGRITY CHECK: Validate each question
+  const questions: PsychQuestion[] = [];
+
+  for (const q of data as DatabasePsychQuestion[]) {
+    // Validate ID exists
+    if (!q.id || typeof q.id !== 'string') {
+      console.error('[QUESTION_INTEGRITY_ERROR]', {
+        timestamp: new Date().toISOString(),
+        issue: 'missing_id',
+        questionId: q.id
+      });
+
+      return {
+        success: false,
+        error: 'Service temporarily unavailable',
+        code: 'DB_INTEGRITY_ERROR',
+        details: 'Question found with invalid or missing id',
+        status: 503
+      };
+    }
+
+    // Validate trait is valid Big Five trait
+    if (!VALID_TRAITS.includes(q.trait as BigFiveTrait)) {
+      console.error('[QUESTION_INTEGRITY_ERROR]', {
+        timestamp: new Date().toISOString(),
+        issue: 'invalid_trait',
+        questionId: q.id,
+        trait: q.trait
+      });
+
+      return {
+        success: false,
+        error: 'Service temporarily unavailable',
+        code: 'DB_INTEGRITY_ERROR',
+        details: 'Invalid trait found in question database',
+        status: 503
+      };
+    }
+
+    // Validate facet (optional) belongs to the question's trait
+    if (q.facet !== null && !isFacetOfTrait(q.facet, q.trait as BigFiveTrait)) {
+      console.error('[QUESTION_INTEGRITY_ERROR]', {
+        timestamp: new Date().toISOString(),
+        issue: 'invalid_facet',
+        questionId: q.id,
+        trait: q.trait,
+        facet: q.facet
+      });
+
+      return {
+        success: false,
+        error: 'Service temporarily unavailable',
+        code: 'DB_INTEGRITY_ERROR',
+        details: 'Invalid facet found in question database',
+        status: 503
+      };
+    }
+
+    // Validate polarity is +1 or -1
+    if (!VALID_POLARITIES.includes(q.polarity as 1 | -1)) {
+      console.error('[QUESTION_INTEGRITY_ERROR]', {
+        timestamp: new Date().toISOString(),
+        issue: 'invalid_polarity',
+        questionId: q.id,
+        polarity: q.polarity
+      });
+
+      return {
+        success: false,
+        error: 'Service temporarily unavailable',
+        code: 'DB_INTEGRITY_ERROR',
+        details: 'Invalid polarity found in question database',
+        status: 503
+      };
+    }
+
+    // Validate scale width (optional; falls back to the form's)
+    if (q.scale_points !== null && !isValidScalePoints(q.scale_points)) {
+      console.error('[QUESTION_INTEGRITY_ERROR]', {
+        timestamp: new Date().toISOString(),
+        issue: 'invalid_scale_points',
+        questionId: q.id,
+        scalePoints: q.scale_points
+      });
+
+      return {
+        success: false,
+        error: 'Service temporarily unavailable',
+        code: 'DB_INTEGRITY_ERROR',
+        details: 'Invalid scale width found in question database',
+        status: 503
+      };
+    }
+
+    // Validate question_text exists
+    if (!q.question_text || typeof q.question_text !== 'string') {
+      console.error('[QUESTION_INTEGRITY_ERROR]', {
+        timestamp: new Date().toISOString(),
+        issue: 'missing_question_text',
+        questionId: q.id
+      });
+
+      return {
+        success: false,
+        error: 'Service temporarily unavailable',
+        code: 'DB_INTEGRITY_ERROR',
+        details: 'Question missing text content',
+        status: 503
+      };
+    }
+
+    questions.push({
+      id: q.id,
+      trait: q.trait as BigFiveTrait,
+      facet: q.facet as BigFiveFacet | null,
+      polarity: q.polarity as 1 | -1,
+      scale_points: q.scale_points ?? form.scalePoints,
+      question_text: q.question_text
+    });
+  }
+
+  // FORM ENFORCEMENT: Per-trait counts must match the blueprint
+  for (const trait of VALID_TRAITS) {
+    const actual = questions.filter((q) => q.trait === trait).length;
+
+    if (actual !== form.blueprint[trait]) {
+      console.error('[BLUEPRINT_MISMATCH]', {
+        timestamp: new Date().toISOString(),
+        formId: form.id,
+        trait,
+        expected: form.blueprint[trait],
+        actual
+      });
+
+      return {
+        success: false,
+        error: 'Service temporarily unavailable',
+        code: 'BLUEPRINT_MISMATCH',
+        details: `Expected ${form.blueprint[trait]} ${trait} questions, found ${actual}`,
+        status: 503
+      };
+    }
+  }
+
+  return {
+    success: true,
+    questions
+  };
+}
+
+// =====================================================
+// PRESENTATION ORDER
+// =====================================================
+
+/**
+ * Deterministic per-user shuffle
+ *
+ * Orders questions by a hash of (userId, questionId), so each user gets
+ * their own order that stays stable across reloads without storing it.
+ * The submit route uses the same order to analyse response patterns.
+ */
+export function orderQuestionsForUser(
+  questions: PsychQuestion[],
+  userId: string
+): PsychQuestion[] {
+  const sortKeys = new Map(
+    questions.map((q) => [
+      q.id,
+      createHash('sha256').update(`${userId}:${q.id}`).digest('hex')
+    ])
+  );
+
+  return [...questions].sort((a, b) =>
+    sortKeys.get(a.id)!.localeCompare(sortKeys.get(b.id)!)
+  );
+}
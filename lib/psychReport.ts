@@ -0,0 +1,114 @@
+// =====================================================
+// Psychometric Report Content Access
+// =====================================================
+// Loads the interpretive report wording from psych_report_content
+// (one row per trait + band), so copy can be edited in the
+// database without a deploy. Report logic lives in
+// lib/bigFiveReport.ts.
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BigFiveTrait } from '@/lib/calculateBigFiveScore';
+import { isScoreBand, SCORE_BANDS } from '@/lib/bigFiveReport';
+import type { ReportContent, ReportContentTable, ScoreBand } from '@/lib/bigFiveReport';
+import { VALID_TRAITS } from '@/lib/psychQuestions';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+interface DatabaseReportContent {
+  trait: string;
+  band: string;
+  summary: string | null;
+  strengths: string | null;
+  watch_outs: string | null;
+  work_style: string[] | null;
+}
+
+export type FetchReportContentResult =
+  | { success: true; content: ReportContentTable }
+  | { success: false; error: string; code: string; details?: string; status: number };
+
+// =====================================================
+// READ
+// =====================================================
+
+/**
+ * Fetch the complete report content table
+ *
+ * Every trait needs a row for every band; a gap is reported as
+ * REPORT_CONTENT_INCOMPLETE rather than producing a partial report.
+ */
+export async function fetchReportContent(
+  supabase: SupabaseClient
+): Promise<FetchReportContentResult> {
+  const { data, error } = await supabase
+    .from('psych_report_content')
+    .select('trait, band, summary, strengths, watch_outs, work_style');
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'psych_report_content',
+      error: error.message
+    });
+
+    return {
+      success: false,
+      error: 'Failed to fetch report content',
+      code: 'DB_FETCH_FAILED',
+      status: 500
+    };
+  }
+
+  const rows = new Map<string, ReportContent>();
+
+  for (const row of (data || []) as DatabaseReportContent[]) {
+    if (!VALID_TRAITS.includes(row.trait as BigFiveTrait) || !isScoreBand(row.band)) {
+      continue;
+    }
+
+    rows.set(`${row.trait}:${row.band}`, {
+      trait: row.trait as BigFiveTrait,
+      band: row.band,
+      summary: row.summary || '',
+      strengths: row.strengths || '',
+      watchOuts: row.watch_outs || '',
+      workStyle: row.work_style || []
+    });
+  }
+
+  const content = {} as ReportContentTable;
+  const missing: string[] = [];
+
+  for (const trait of VALID_TRAITS) {
+    content[trait] = {} as Record<ScoreBand, ReportContent>;
+
+    for (const band of SCORE_BANDS) {
+      const row = rows.get(`${trait}:${band}`);
+      if (row) {
+        content[trait][band] = row;
+      } else {
+        missing.push(`${trait}:${band}`);
+      }
+    }
+  }
+
+  if (missing.length > 0) {
+    console.error('[REPORT_CONTENT_INCOMPLETE]', {
+      timestamp: new Date().toISOString(),
+      missing
+    });
+
+    return {
+      success: false,
+      error: 'Service temporarily unavailable',
+      code: 'REPORT_CONTENT_INCOMPLETE',
+      details: `Missing report content for ${missing.join(', ')}`,
+      status: 503
+    };
+  }
+
+  return { success: true, content };
+}
@@ -0,0 +1,211 @@
+// =====================================================
+// Psychometric Test Sessions (Save & Resume)
+// =====================================================
+// Shared by the /api/psychometric/sessions routes: session
+// lookup with ownership check, expiry and status handling.
+// Users may only read their own sessions; every write (answers,
+// status, expiry) goes through these routes with the service role.
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UserAnswers } from '@/lib/calculateBigFiveScore';
+import type { PsychTestForm } from '@/lib/psychForms';
+import type { FormReference } from '@/lib/psychSubmission';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+/**
+ * Sessions expire 7 days after creation; answers are kept but can no
+ * longer be changed or finalized.
+ */
+export const SESSION_TTL_DAYS = 7;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const SESSION_COLUMNS =
+  'id, user_id, form_id, status, answers, answered_at, population, expires_at, finalized_at, result_id, created_at, updated_at';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * in_progress -> finalizing -> finalized
+ * in_progress -> expired (lazily, on first access after expires_at)
+ */
+export type PsychSessionStatus = 'in_progress' | 'finalizing' | 'finalized' | 'expired';
+
+export interface PsychTestSession {
+  id: string;
+  user_id: string;
+  form_id: string;
+  status: PsychSessionStatus;
+  answers: UserAnswers;
+  answered_at: Record<string, number>;
+  population: string;
+  expires_at: string;
+  finalized_at: string | null;
+  result_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Client-facing view of a session (answers are the user's own)
+ */
+export interface PsychSessionProgress {
+  sessionId: string;
+  form: FormReference;
+  status: PsychSessionStatus;
+  answeredCount: number;
+  totalQuestions: number;
+  remaining: number;
+  answers: UserAnswers;
+  expiresAt: string;
+  resultId: string | null;
+  createdAt: string;
+}
+
+export type SessionLookupResult =
+  | { success: true; session: PsychTestSession }
+  | { success: false; error: string; code: string; status: number };
+
+// =====================================================
+// LOOKUP
+// =====================================================
+
+/**
+ * Fetch a session owned by the user
+ *
+ * OWNERSHIP: filters on user_id (the service role bypasses RLS), and answers
+ * "not found" for other users' sessions so ids cannot be probed.
+ * EXPIRY: an in-progress session past expires_at is marked expired.
+ *
+ * @param admin - Service-role client (marking expiry is a write)
+ */
+export async function fetchOwnedSession(
+  admin: SupabaseClient,
+  sessionId: string,
+  userId: string
+): Promise<SessionLookupResult> {
+  if (!UUID_PATTERN.test(sessionId)) {
+    return {
+      success: false,
+      error: 'Session not found',
+      code: 'SESSION_NOT_FOUND',
+      status: 404
+    };
+  }
+
+  const { data, error } = await admin
+    .from('psych_test_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'psych_test_sessions',
+      sessionId,
+      error: error.message
+    });
+
+    return {
+      success: false,
+      error: 'Failed to fetch session',
+      code: 'DB_FETCH_FAILED',
+      status: 500
+    };
+  }
+
+  if (!data) {
+    return {
+      success: false,
+      error: 'Session not found',
+      code: 'SESSION_NOT_FOUND',
+      status: 404
+    };
+  }
+
+  const session = data as PsychTestSession;
+
+  if (session.status === 'in_progress' && isSessionExpired(session)) {
+    await admin
+      .from('psych_test_sessions')
+      .update({ status: 'expired', updated_at: new Date().toISOString() })
+      .eq('id', session.id)
+      .eq('status', 'in_progress');
+
+    session.status = 'expired';
+  }
+
+  return { success: true, session };
+}
+
+/**
+ * Guard for mutations: only unexpired in-progress sessions may change
+ */
+export function requireOpenSession(
+  session: PsychTestSession
+): { success: true } | { success: false; error: string; code: string; status: number } {
+  switch (session.status) {
+    case 'in_progress':
+      return { success: true };
+    case 'expired':
+      return {
+        success: false,
+        error: 'Session expired',
+        code: 'SESSION_EXPIRED',
+        status: 410
+      };
+    case 'finalizing':
+      return {
+        success: false,
+        error: 'Session is being finalized',
+        code: 'SESSION_FINALIZING',
+        status: 409
+      };
+    case 'finalized':
+      return {
+        success: false,
+        error: 'Session already finalized',
+        code: 'SESSION_FINALIZED',
+        status: 409
+      };
+  }
+}
+
+export function isSessionExpired(session: PsychTestSession): boolean {
+  return new Date(session.expires_at).getTime() <= Date.now();
+}
+
+export function sessionExpiryFromNow(): string {
+  return new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * @param form - The session's own form (session.form_id)
+ */
+export function toSessionProgress(
+  session: PsychTestSession,
+  form: PsychTestForm
+): PsychSessionProgress {
+  const answeredCount = Object.keys(session.answers || {}).length;
+
+  return {
+    sessionId: session.id,
+    form: { id: form.id, name: form.name, version: form.version, mode: form.mode },
+    status: session.status,
+    answeredCount,
+    totalQuestions: form.requiredCount,
+    remaining: Math.max(0, form.requiredCount - answeredCount),
+    answers: session.answers || {},
+    expiresAt: session.expires_at,
+    resultId: session.result_id,
+    createdAt: session.created_at
+  };
+}
@@ -0,0 +1,505 @@
+// =====================================================
+// Psychometric Submission Pipeline
+// =====================================================
+// Shared scoring path for a complete set of answers:
+// test form -> questions -> answer validation -> Big Five scoring ->
+// response quality -> persistence -> norms.
+// Used by POST /api/psychometric/submit and by session finalize,
+// so both always score identically.
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  calculateBigFiveScore,
+  calculateFacetScores,
+  getLikertPoints,
+  SCORING_VERSION
+} from '@/lib/calculateBigFiveScore';
+import type {
+  BigFiveScoreResult,
+  FacetScoreResult,
+  PsychQuestion,
+  UserAnswers
+} from '@/lib/calculateBigFiveScore';
+import {
+  fetchPsychQuestions,
+  orderQuestionsForUser,
+  VALID_TRAITS
+} from '@/lib/psychQuestions';
+import { assessResponseQuality } from '@/lib/responseQuality';
+import type {
+  ResponseQualityReport,
+  ResponseTimings
+} from '@/lib/responseQuality';
+import type { NormReferencedResult } from '@/lib/bigFiveNorms';
+import { fetchTestForm } from '@/lib/psychForms';
+import type { PsychFormMode, PsychTestForm } from '@/lib/psychForms';
+import { fetchNormReferencedScores } from '@/lib/psychNorms';
+import { confidenceBands, estimateUncertainty } from '@/lib/scoreUncertainty';
+import type { ConfidenceBands, ScoreUncertainty } from '@/lib/scoreUncertainty';
+import type { IntegritySummary } from '@/lib/testIntegrity';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * formId: undefined scores against the default form of `mode`
+ *   (default 'full')
+ * allowRetiredForm: true only when finishing an attempt that was
+ *   started before the form was retired (sessions)
+ * integrity: telemetry summary of the session (lib/testIntegrity.ts);
+ *   absent for direct submissions
+ */
+export interface PsychSubmissionInput {
+  answers: UserAnswers;
+  population: string;
+  timings?: ResponseTimings;
+  formId?: string;
+  mode?: PsychFormMode;
+  allowRetiredForm?: boolean;
+  integrity?: IntegritySummary | null;
+}
+
+export interface FormReference {
+  id: string;
+  name: string;
+  version: number;
+  mode: PsychFormMode;
+}
+
+/**
+ * radarData: raw-normalized 0-100 scores (linear, NOT percentiles)
+ * norms: percentiles / T-scores against the population's norm table,
+ *        null when no norm table is available yet
+ * uncertainty: per-trait standard error from the form's calibration;
+ *        wider for short forms
+ * confidence: score with its 90% confidence interval per trait
+ */
+export interface PsychSubmissionResult {
+  resultId: string;
+  form: FormReference;
+  radarData: BigFiveScoreResult;
+  facetScores: FacetScoreResult;
+  uncertainty: ScoreUncertainty;
+  confidence: ConfidenceBands;
+  norms: NormReferencedResult | null;
+  responseQuality: ResponseQualityReport;
+}
+
+export type PsychSubmissionOutcome =
+  | { success: true; result: PsychSubmissionResult }
+  | { success: false; error: string; code: string; details?: string; status: number };
+
+interface ResultToPersist {
+  form: PsychTestForm;
+  answers: UserAnswers;
+  scores: BigFiveScoreResult;
+  facetScores: FacetScoreResult;
+  uncertainty: ScoreUncertainty;
+  population: string;
+  responseQuality: ResponseQualityReport;
+  integrity: IntegritySummary | null;
+}
+
+// =====================================================
+// PIPELINE
+// =====================================================
+
+/**
+ * Validate, score and persist a complete psychometric submission
+ *
+ * Callers are responsible for authentication, rate limiting and
+ * duplicate protection; everything from the question bank onwards
+ * happens here.
+ *
+ * @param admin - Service-role client for the question bank and the
+ *   results insert
+ */
+export async function processPsychSubmission(
+  supabase: SupabaseClient,
+  admin: SupabaseClient,
+  userId: string,
+  input: PsychSubmissionInput
+): Promise<PsychSubmissionOutcome> {
+  const { answers, population, timings } = input;
+
+  // 1. RESOLVE TEST FORM (explicit id or the mode's default)
+  const formResult = await fetchTestForm(supabase, input.formId, {
+    requireActive: !input.allowRetiredForm,
+    mode: input.mode
+  });
+
+  if (!formResult.success) {
+    return formResult;
+  }
+
+  const form = formResult.form;
+
+  // 2. FETCH AND VALIDATE THE FORM'S QUESTIONS
+  const questionsResult = await fetchPsychQuestions(admin, form);
+
+  if (!questionsResult.success) {
+    return questionsResult;
+  }
+
+  const questions = questionsResult.questions;
+
+  // 3. VALIDATE ANSWER COUNT (exactly form.requiredCount)
+  const answerCount = Object.keys(answers).length;
+  if (answerCount !== form.requiredCount) {
+    return {
+      success: false,
+      error: 'Invalid answer count',
+      code: 'INVALID_ANSWER_COUNT',
+      details: `Expected exactly ${form.requiredCount} answers, received ${answerCount}`,
+      status: 400
+    };
+  }
+
+  // 4. VALIDATE ANSWERS AGAINST QUESTIONS
+  const validationResult = validateAnswers(answers, questions);
+
+  if (!validationResult.success) {
+    return { ...validationResult, status: 400 };
+  }
+
+  // 5. CALCULATE BIG FIVE SCORES (DOMAINS + FACETS)
+  // Short forms use the same scorer; only the uncertainty differs
+  let radarData: BigFiveScoreResult;
+  let facetScores: FacetScoreResult;
+  let uncertainty: ScoreUncertainty;
+
+  try {
+    radarData = calculateBigFiveScore(answers, questions);
+    facetScores = calculateFacetScores(answers, questions);
+    uncertainty = estimateUncertainty(form.mode, form.reliability);
+  } catch (error) {
+    console.error('[SCORE_CALCULATION_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    return {
+      success: false,
+      error: 'Failed to calculate scores',
+      code: 'CALCULATION_FAILED',
+      status: 500
+    };
+  }
+
+  // 6. VALIDATE OUTPUT DETERMINISM
+  const outputValidation = validateScoreOutput(radarData);
+  if (!outputValidation.success) {
+    console.error('[OUTPUT_VALIDATION_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId,
+      validationError: outputValidation.error
+    });
+
+    return {
+      success: false,
+      error: 'Invalid score output',
+      code: 'INVALID_OUTPUT',
+      status: 500
+    };
+  }
+
+  // 7. SCREEN FOR CARELESS RESPONDING (flags only, never rejects)
+  const responseQuality = assessResponseQuality(
+    answers,
+    orderQuestionsForUser(questions, userId),
+    timings
+  );
+
+  if (responseQuality.flags.length > 0) {
+    console.log('[RESPONSE_QUALITY_FLAGGED]', {
+      timestamp: new Date().toISOString(),
+      userId,
+      flags: responseQuality.flags
+    });
+  }
+
+  // 8. PERSIST RESULTS TO DATABASE
+  /**
+   * ARCHITECTURAL DECISION: Multiple Submissions Allowed
+   *
+   * Users can retake the test to track personality changes over time.
+   * Each submission creates a new record (no overwrite).
+   * Enables longitudinal analysis and progress tracking.
+   */
+  const persistResult = await persistResults(admin, userId, {
+    form,
+    answers,
+    scores: radarData,
+    facetScores,
+    uncertainty,
+    population,
+    responseQuality,
+    integrity: input.integrity ?? null
+  });
+
+  if (!persistResult.success) {
+    return { ...persistResult, status: 500 };
+  }
+
+  // 9. NORM-REFERENCED SCORES (non-fatal: null if no norms yet)
+  const norms = await fetchNormReferencedScores(supabase, radarData, population);
+
+  return {
+    success: true,
+    result: {
+      resultId: persistResult.resultId,
+      form: { id: form.id, name: form.name, version: form.version, mode: form.mode },
+      radarData,
+      facetScores,
+      uncertainty,
+      confidence: confidenceBands(radarData, uncertainty),
+      norms,
+      responseQuality
+    }
+  };
+}
+
+// =====================================================
+// VALIDATION & PERSISTENCE
+// =====================================================
+
+/**
+ * Validate answer values and question IDs of a (possibly partial) answer set
+ *
+ * - All answer values must be integers within the question's scale
+ *   (1-5 or 1-7, see getLikertPoints)
+ * - Rejects unknown question IDs (prevents client manipulation)
+ */
+export function validateAnswerValues(
+  answers: UserAnswers,
+  questions: PsychQuestion[]
+):
+  | { success: true }
+  | { success: false; error: string; code: string; details?: string }
+{
+  const questionsById = new Map(questions.map(q => [q.id, q]));
+
+  // CHECK 1: Validate all answer values are valid (integers on the item's scale)
+  for (const [questionId, answer] of Object.entries(answers)) {
+    if (!Number.isInteger(answer)) {
+      return {
+        success: false,
+        error: 'Invalid answer value',
+        code: 'INVALID_ANSWER_VALUE',
+        details: `Answer for question ${questionId} must be an integer`
+      };
+    }
+
+    const question = questionsById.get(questionId);
+    const points = question ? getLikertPoints(question) : 5;
+
+    if (answer < 1 || answer > points) {
+      return {
+        success: false,
+        error: 'Invalid answer value',
+        code: 'INVALID_ANSWER_RANGE',
+        details: `Answer for question ${questionId} must be between 1 and ${points}`
+      };
+    }
+  }
+
+  // CHECK 2: Detect unknown question IDs (client manipulation attempt)
+  const unknownIds = Object.keys(answers).filter(id => !questionsById.has(id));
+  if (unknownIds.length > 0) {
+    return {
+      success: false,
+      error: 'Unknown question IDs detected',
+      code: 'UNKNOWN_QUESTION_IDS',
+      details: `Found ${unknownIds.length} answer(s) for non-existent questions`
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validate user answers
+ * 
+ * STRICT VALIDATION:
+ * - Values and IDs as in validateAnswerValues
+ * - Answer IDs must exactly match question IDs (no extra, no missing)
+ */
+export function validateAnswers(
+  answers: UserAnswers,
+  questions: PsychQuestion[]
+): 
+  | { success: true }
+  | { success: false; error: string; code: string; details?: string }
+{
+  const valuesResult = validateAnswerValues(answers, questions);
+  if (!valuesResult.success) {
+    return valuesResult;
+  }
+
+  const questionIds = new Set(questions.map(q => q.id));
+  const answerIds = new Set(Object.keys(answers));
+
+  // CHECK 3: Detect missing answers
+  const missingIds = [...questionIds].filter(id => !answerIds.has(id));
+  if (missingIds.length > 0) {
+    return {
+      success: false,
+      error: 'Incomplete answers',
+      code: 'INCOMPLETE_ANSWERS',
+      details: `Missing answers for ${missingIds.length} question(s)`
+    };
+  }
+
+  // CHECK 4: Ensure exact match (no extra, no missing)
+  if (answerIds.size !== questionIds.size) {
+    return {
+      success: false,
+      error: 'Answer count mismatch',
+      code: 'ANSWER_COUNT_MISMATCH',
+      details: `Expected ${questionIds.size} answers, received ${answerIds.size}`
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validate score output determinism
+ * 
+ * DETERMINISTIC GUARANTEES:
+ * - Output always contains exactly 5 traits
+ * - All values are numbers between 0-100 (inclusive)
+ * - Prevents corrupted output from reaching database
+ */
+function validateScoreOutput(
+  scores: BigFiveScoreResult
+): 
+  | { success: true }
+  | { success: false; error: string }
+{
+  if (!scores || typeof scores !== 'object') {
+    return { success: false, error: 'Score output is not an object' };
+  }
+
+  // Validate all 5 traits are present
+  for (const trait of VALID_TRAITS) {
+    if (!(trait in scores)) {
+      return { success: false, error: `Missing trait: ${trait}` };
+    }
+
+    const value = scores[trait];
+
+    // Validate value is a number
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return { success: false, error: `Invalid value for ${trait}` };
+    }
+
+    // Validate range 0-100
+    if (value < 0 || value > 100) {
+      return { success: false, error: `Value for ${trait} out of range` };
+    }
+  }
+
+  // Validate no extra properties
+  const scoreKeys = Object.keys(scores);
+  if (scoreKeys.length !== 5) {
+    return { success: false, error: `Expected 5 traits, found ${scoreKeys.length}` };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Persist psychometric results to database with hardened error handling
+ * 
+ * TRANSACTION SAFETY:
+ * - Uses .select('id').single() to verify insert succeeded
+ * - Returns result ID for audit trail
+ * - Fails explicitly if record not created
+ *
+ * @param admin - Service-role client (users can only read results)
+ */
+async function persistResults(
+  admin: SupabaseClient,
+  userId: string,
+  result: ResultToPersist
+): Promise<
+  | { success: true; resultId: string }
+  | { success: false; error: string; code: string }
+> {
+  try {
+    const { data, error } = await admin
+      .from('psych_results')
+      .insert({
+        user_id: userId,
+        form_id: result.form.id,
+        form_version: result.form.version,
+        mode: result.form.mode,
+        // Raw answers on each item's own scale, kept for item statistics and rescoring
+        answers: result.answers,
+        scoring_version: SCORING_VERSION,
+        scores: result.scores,
+        facet_scores: result.facetScores,
+        uncertainty: result.uncertainty,
+        population: result.population,
+        response_quality: result.responseQuality,
+        integrity_score: result.integrity?.score ?? null,
+        integrity_summary: result.integrity
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('[DB_INSERT_ERROR]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'psych_results',
+        error: error.message
+      });
+
+      return {
+        success: false,
+        error: 'Failed to save results',
+        code: 'DB_INSERT_FAILED'
+      };
+    }
+
+    // Verify record was created
+    if (!data || !data.id) {
+      console.error('[DB_INSERT_VERIFICATION_FAILED]', {
+        timestamp: new Date().toISOString(),
+        userId,
+        table: 'psych_results',
+        returnedData: data
+      });
+
+      return {
+        success: false,
+        error: 'Failed to verify saved results',
+        code: 'DB_VERIFICATION_FAILED'
+      };
+    }
+
+    return {
+      success: true,
+      resultId: data.id
+    };
+
+  } catch (error) {
+    console.error('[DB_TRANSACTION_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    return {
+      success: false,
+      error: 'Failed to save results',
+      code: 'DB_TRANSACTION_FAILED'
+    };
+  }
+}
+
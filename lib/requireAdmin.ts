@@ -0,0 +1,64 @@
+// =====================================================
+// Admin Access Gate
+// =====================================================
+// Shared by all /api/admin/* routes: authenticates the caller
+// and requires a row in admin_users. Membership is read with the
+// service-role client; users cannot read or write that table
+// (profiles.role is user-writable and is not trusted).
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+export async function requireAdmin(
+  supabase: SupabaseClient
+): Promise<
+  | { success: true; userId: string }
+  | { success: false; error: string; code: string; status: number }
+> {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return {
+      success: false,
+      error: 'Authentication required',
+      code: 'UNAUTHORIZED',
+      status: 401,
+    };
+  }
+
+  const { data: membership, error } = await createAdminClient()
+    .from('admin_users')
+    .select('user_id')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[ADMIN_CHECK_ERROR]', {
+      timestamp: new Date().toISOString(),
+      userId: user.id,
+      error: error.message,
+    });
+
+    return {
+      success: false,
+      error: 'Failed to verify admin access',
+      code: 'ADMIN_CHECK_FAILED',
+      status: 500,
+    };
+  }
+
+  if (!membership) {
+    return {
+      success: false,
+      error: 'Admin access required',
+      code: 'FORBIDDEN',
+      status: 403,
+    };
+  }
+
+  return { success: true, userId: user.id };
+}
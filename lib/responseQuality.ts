@@ -0,0 +1,287 @@
+// =====================================================
+// Psychometric Response Quality (Careless Responding)
+// =====================================================
+// Pure utility: screens a completed submission for careless
+// or inattentive response patterns. Never rejects a submission;
+// produces flags that are stored with the result.
+// =====================================================
+
+import { getLikertPoints, keyedAnswer } from '@/lib/calculateBigFiveScore';
+import type { PsychQuestion, UserAnswers } from '@/lib/calculateBigFiveScore';
+
+/**
+ * Optional client timing data
+ * answeredAt: question_id -> epoch ms when the answer was given
+ * startedAt: epoch ms when the first question was shown
+ */
+export interface ResponseTimings {
+  startedAt?: number;
+  answeredAt: Record<string, number>;
+}
+
+export type ResponseQualityFlag = 'LONGSTRING' | 'INCONSISTENT' | 'TOO_FAST';
+
+export interface ResponseQualityReport {
+  longstring: {
+    maxRun: number;
+    flagged: boolean;
+  };
+  inconsistency: {
+    index: number;
+    pairCount: number;
+    flagged: boolean;
+  };
+  // null when the client sent too few usable timestamps
+  responseTime: {
+    medianMs: number;
+    fastRatio: number;
+    flagged: boolean;
+  } | null;
+  flags: ResponseQualityFlag[];
+  recommendRetake: boolean;
+}
+
+/**
+ * Screening thresholds
+ * - LONGSTRING_MAX_RUN: identical consecutive answers before flagging
+ * - INCONSISTENCY_MAX: mean |difference| (in 5-point scale units, after
+ *   reverse keying) between opposite-polarity items of the same trait
+ * - FAST_RESPONSE_MS / FAST_RATIO_MAX: share of items answered faster than
+ *   a person can read them
+ * - MIN_TIMED_RATIO: share of items that must carry a timestamp before
+ *   the timing check runs
+ */
+export const RESPONSE_QUALITY_THRESHOLDS = {
+  LONGSTRING_MAX_RUN: 10,
+  INCONSISTENCY_MAX: 2,
+  FAST_RESPONSE_MS: 2000,
+  FAST_RATIO_MAX: 0.5,
+  MIN_TIMED_RATIO: 0.5
+} as const;
+
+/**
+ * Gaps are rescaled to a 5-point item so 7-point forms share thresholds
+ */
+const REFERENCE_SCALE_STEPS = 4;
+
+// =====================================================
+// INPUT PARSING
+// =====================================================
+
+/**
+ * Parse optional client timestamps
+ * Returns undefined when absent, false when malformed
+ */
+export function parseResponseTimings(raw: unknown): ResponseTimings | undefined | false {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return false;
+  }
+
+  const { startedAt, answeredAt } = raw as Record<string, unknown>;
+
+  if (startedAt !== undefined && (typeof startedAt !== 'number' || !Number.isFinite(startedAt))) {
+    return false;
+  }
+
+  if (!answeredAt || typeof answeredAt !== 'object' || Array.isArray(answeredAt)) {
+    return false;
+  }
+
+  for (const value of Object.values(answeredAt)) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return false;
+    }
+  }
+
+  return {
+    startedAt: startedAt as number | undefined,
+    answeredAt: answeredAt as Record<string, number>
+  };
+}
+
+// =====================================================
+// MAIN FUNCTION
+// =====================================================
+
+/**
+ * Screen a submission for careless responding
+ *
+ * @param userAnswers - Map of question IDs to answers (already validated)
+ * @param questions - Questions in the order they were presented
+ * @param timings - Optional client timestamps
+ * @returns Per-check details, the raised flags and a retake recommendation
+ */
+export function assessResponseQuality(
+  userAnswers: UserAnswers,
+  questions: PsychQuestion[],
+  timings?: ResponseTimings
+): ResponseQualityReport {
+  const longstring = checkLongstring(userAnswers, questions, timings);
+  const inconsistency = checkInconsistency(userAnswers, questions);
+  const responseTime = timings ? checkResponseTime(questions, timings) : null;
+
+  const flags: ResponseQualityFlag[] = [];
+  if (longstring.flagged) flags.push('LONGSTRING');
+  if (inconsistency.flagged) flags.push('INCONSISTENT');
+  if (responseTime?.flagged) flags.push('TOO_FAST');
+
+  return {
+    longstring,
+    inconsistency,
+    responseTime,
+    flags,
+    recommendRetake: flags.length > 0
+  };
+}
+
+// =====================================================
+// CHECKS
+// =====================================================
+
+/**
+ * Longest run of identical consecutive answers
+ * Uses timestamp order when every item has a timestamp, otherwise
+ * presentation order (a partial order cannot place untimed items)
+ */
+function checkLongstring(
+  userAnswers: UserAnswers,
+  questions: PsychQuestion[],
+  timings?: ResponseTimings
+): ResponseQualityReport['longstring'] {
+  const timed = timings ? timedQuestions(questions, timings) : [];
+  const ordered = timed.length === questions.length
+    ? timed.sort((a, b) => a.at - b.at).map(({ question }) => question)
+    : questions;
+
+  let maxRun = 0;
+  let run = 0;
+  let previous: number | undefined;
+
+  for (const question of ordered) {
+    const answer = userAnswers[question.id];
+    run = answer === previous ? run + 1 : 1;
+    previous = answer;
+    maxRun = Math.max(maxRun, run);
+  }
+
+  return {
+    maxRun,
+    flagged: maxRun >= RESPONSE_QUALITY_THRESHOLDS.LONGSTRING_MAX_RUN
+  };
+}
+
+/**
+ * Inconsistency index over polarity pairs
+ *
+ * For every (positive, reverse-keyed) pair within a trait, compares the
+ * two keyed scores. An attentive respondent scores both items similarly;
+ * agreeing with an item and its opposite produces a large gap.
+ */
+function checkInconsistency(
+  userAnswers: UserAnswers,
+  questions: PsychQuestion[]
+): ResponseQualityReport['inconsistency'] {
+  let totalGap = 0;
+  let pairCount = 0;
+
+  for (const positive of questions) {
+    if (positive.polarity !== 1) continue;
+
+    for (const negative of questions) {
+      if (negative.polarity !== -1 || negative.trait !== positive.trait) continue;
+
+      const keyedPositive = toScaleFraction(userAnswers[positive.id], positive);
+      const keyedNegative = toScaleFraction(keyedAnswer(userAnswers[negative.id], negative), negative);
+
+      totalGap += Math.abs(keyedPositive - keyedNegative) * REFERENCE_SCALE_STEPS;
+      pairCount += 1;
+    }
+  }
+
+  const index = pairCount > 0
+    ? Math.round((totalGap / pairCount) * 100) / 100
+    : 0;
+
+  return {
+    index,
+    pairCount,
+    flagged: index > RESPONSE_QUALITY_THRESHOLDS.INCONSISTENCY_MAX
+  };
+}
+
+/**
+ * Position of an answer on its item's scale: 0 (lowest) to 1 (highest)
+ */
+function toScaleFraction(answer: number, question: PsychQuestion): number {
+  return (answer - 1) / (getLikertPoints(question) - 1);
+}
+
+/**
+ * Per-item latency from client timestamps
+ * Returns null when fewer than MIN_TIMED_RATIO of the items (or fewer
+ * than two stamps in all) carry a usable timestamp
+ */
+function checkResponseTime(
+  questions: PsychQuestion[],
+  timings: ResponseTimings
+): ResponseQualityReport['responseTime'] {
+  const stamps = timedQuestions(questions, timings)
+    .map(({ at }) => at)
+    .sort((a, b) => a - b);
+
+  if (stamps.length < questions.length * RESPONSE_QUALITY_THRESHOLDS.MIN_TIMED_RATIO) {
+    return null;
+  }
+
+  if (
+    typeof timings.startedAt === 'number' &&
+    Number.isFinite(timings.startedAt) &&
+    (stamps.length === 0 || timings.startedAt <= stamps[0])
+  ) {
+    stamps.unshift(timings.startedAt);
+  }
+
+  if (stamps.length < 2) {
+    return null;
+  }
+
+  const latencies: number[] = [];
+  for (let i = 1; i < stamps.length; i++) {
+    latencies.push(Math.max(0, stamps[i] - stamps[i - 1]));
+  }
+
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const medianMs = sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+
+  const fastCount = latencies.filter(
+    (ms) => ms < RESPONSE_QUALITY_THRESHOLDS.FAST_RESPONSE_MS
+  ).length;
+  const fastRatio = Math.round((fastCount / latencies.length) * 100) / 100;
+
+  return {
+    medianMs: Math.round(medianMs),
+    fastRatio,
+    flagged: fastRatio > RESPONSE_QUALITY_THRESHOLDS.FAST_RATIO_MAX
+  };
+}
+
+/**
+ * Questions with a finite answer timestamp
+ */
+function timedQuestions(
+  questions: PsychQuestion[],
+  timings: ResponseTimings
+): { question: PsychQuestion; at: number }[] {
+  return questions
+    .map((question) => ({ question, at: timings.answeredAt[question.id] }))
+    .filter((entry): entry is { question: PsychQuestion; at: number } =>
+      typeof entry.at === 'number' && Number.isFinite(entry.at)
+    );
+}
@@ -0,0 +1,152 @@
+// =====================================================
+// Big Five Score Uncertainty
+// =====================================================
+// Pure mathematical utility: standard error of measurement per
+// trait from the reliability the test form was calibrated with,
+// and 90% confidence intervals around each trait score.
+// Reliability reflects the form's item count per trait, so short
+// forms carry visibly wider intervals than full-form scores.
+// =====================================================
+
+import type { BigFiveScoreResult, BigFiveTrait } from '@/lib/calculateBigFiveScore';
+import type { FormReliability, PsychFormMode } from '@/lib/psychForms';
+
+/**
+ * Measurement uncertainty stored with each result
+ * standardError is in points on the normalized 0-100 scale
+ */
+export interface ScoreUncertainty {
+  mode: PsychFormMode;
+  reliability: FormReliability;
+  standardError: Record<BigFiveTrait, number>;
+}
+
+/**
+ * A trait score with its 90% confidence interval (0-100 scale)
+ */
+export interface TraitConfidence {
+  score: number;
+  standardError: number;
+  lower: number;
+  upper: number;
+}
+
+export type ConfidenceBands = Record<BigFiveTrait, TraitConfidence>;
+
+export const CONFIDENCE_LEVEL = 0.9;
+
+/**
+ * Two-sided z for CONFIDENCE_LEVEL
+ */
+const CONFIDENCE_Z = 1.645;
+
+/**
+ * Reliability of the original 50-item form (10 items per trait), used
+ * for results stored before forms carried a calibration
+ */
+export const LEGACY_FULL_FORM_RELIABILITY: FormReliability = {
+  openness: 0.82,
+  conscientiousness: 0.85,
+  extraversion: 0.87,
+  agreeableness: 0.8,
+  neuroticism: 0.86
+};
+
+/**
+ * Reference between-person SD per trait on the 0-100 scale
+ * (published 1-5 item SDs converted as sd / 4 * 100; same values as
+ * the 'general' literature norms). Kept fixed so a result's stored
+ * uncertainty does not drift when norm tables are recomputed.
+ */
+export const REFERENCE_TRAIT_SD: Record<BigFiveTrait, number> = {
+  openness: 15.0,
+  conscientiousness: 17.5,
+  extraversion: 20.0,
+  agreeableness: 15.0,
+  neuroticism: 20.0
+};
+
+const TRAITS: BigFiveTrait[] = [
+  'openness',
+  'conscientiousness',
+  'extraversion',
+  'agreeableness',
+  'neuroticism'
+];
+
+// =====================================================
+// STANDARD ERROR OF MEASUREMENT
+// =====================================================
+
+/**
+ * SEM = SD * sqrt(1 - reliability), per trait
+ *
+ * @param mode - Mode of the form that produced the scores
+ * @param reliability - The form's per-trait reliability (0-1 exclusive)
+ * @throws {Error} If a reliability is outside (0, 1)
+ */
+export function estimateUncertainty(
+  mode: PsychFormMode,
+  reliability: FormReliability
+): ScoreUncertainty {
+  const standardError = {} as Record<BigFiveTrait, number>;
+
+  for (const trait of TRAITS) {
+    const r = reliability[trait];
+    if (!(r > 0 && r < 1)) {
+      throw new Error(`Invalid reliability for ${trait}: ${r}`);
+    }
+
+    standardError[trait] = round1(REFERENCE_TRAIT_SD[trait] * Math.sqrt(1 - r));
+  }
+
+  return { mode, reliability, standardError };
+}
+
+// =====================================================
+// CONFIDENCE INTERVALS
+// =====================================================
+
+/**
+ * score +/- 1.645 * SE per trait, clamped to 0-100
+ *
+ * @param scores - Normalized scores (0-100) from calculateBigFiveScore
+ * @param uncertainty - The result's stored uncertainty; null for results
+ *   stored before calibration (full-form legacy reliability is assumed)
+ */
+export function confidenceBands(
+  scores: BigFiveScoreResult,
+  uncertainty: ScoreUncertainty | null
+): ConfidenceBands {
+  const standardError =
+    uncertainty?.standardError ??
+    estimateUncertainty('full', LEGACY_FULL_FORM_RELIABILITY).standardError;
+
+  const bands = {} as ConfidenceBands;
+
+  for (const trait of TRAITS) {
+    const score = scores[trait];
+    const margin = CONFIDENCE_Z * standardError[trait];
+
+    bands[trait] = {
+      score,
+      standardError: standardError[trait],
+      lower: round1(Math.max(0, score - margin)),
+      upper: round1(Math.min(100, score + margin))
+    };
+  }
+
+  return bands;
+}
+
+/**
+ * Threshold test on the interval instead of the point score:
+ * true only if the whole 90% interval lies above the threshold
+ */
+export function isConfidentlyAbove(band: TraitConfidence, threshold: number): boolean {
+  return band.lower > threshold;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
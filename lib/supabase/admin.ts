@@ -0,0 +1,18 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Service-role client: bypasses RLS.
+ * Server-side only — never import from client components.
+ */
+export function createAdminClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
@@ -0,0 +1,423 @@
+// =====================================================
+// Test Integrity Telemetry
+// =====================================================
+// Clients report how a test is being taken (tab switches, copy and
+// paste, fullscreen exits, idle gaps) through
+// POST /api/integrity/events while a session is open. Events are
+// stored per session in test_integrity_events (service role only)
+// and summarized when the session is scored; the summary and its
+// integrity score are stored on the aptitude_submissions or
+// psych_results row.
+//
+// The score is advisory: 100 minus a fixed penalty per event (idle
+// gaps per minute), floored at 0. Results below
+// INTEGRITY_FLAG_THRESHOLD are flagged for institution review; they
+// are never rejected.
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+/**
+ * Session kinds and the table each lives in
+ */
+export const INTEGRITY_SESSION_TABLES = {
+  aptitude: 'aptitude_test_sessions',
+  aptitude_adaptive: 'aptitude_cat_sessions',
+  psychometric: 'psych_test_sessions'
+} as const;
+
+export const INTEGRITY_EVENT_TYPES = [
+  'visibility_hidden',
+  'window_blur',
+  'copy',
+  'paste',
+  'fullscreen_exit',
+  'idle'
+] as const;
+
+/**
+ * Points deducted per event; idle is per started minute of the gap
+ */
+export const INTEGRITY_PENALTIES: Record<IntegrityEventType, number> = {
+  visibility_hidden: 5,
+  window_blur: 2,
+  copy: 5,
+  paste: 10,
+  fullscreen_exit: 5,
+  idle: 2
+};
+
+/**
+ * Idle gaps shorter than this are not reported as events
+ */
+export const IDLE_THRESHOLD_MS = 60 * 1000;
+
+export const INTEGRITY_FLAG_THRESHOLD = 70;
+
+export const MAX_EVENTS_PER_REQUEST = 50;
+
+export const MAX_EVENTS_PER_SESSION = 1000;
+
+/**
+ * Longest duration accepted on a single event (one day)
+ */
+const MAX_EVENT_DURATION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Client clocks may run ahead; later timestamps are rejected
+ */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type IntegritySessionType = keyof typeof INTEGRITY_SESSION_TABLES;
+
+export type IntegrityEventType = typeof INTEGRITY_EVENT_TYPES[number];
+
+/**
+ * occurredAt: client time (epoch ms)
+ * durationMs: how long the tab was hidden, fullscreen left or the
+ *   user idle; required for idle
+ */
+export interface IntegrityEvent {
+  type: IntegrityEventType;
+  occurredAt: number;
+  durationMs?: number;
+}
+
+/**
+ * Stored with the result (integrity_summary); score also in
+ * integrity_score for filtering
+ */
+export interface IntegritySummary {
+  score: number;
+  flagged: boolean;
+  eventCount: number;
+  counts: Record<IntegrityEventType, number>;
+  hiddenSeconds: number;
+  idleSeconds: number;
+}
+
+export type IntegrityEventsValidation =
+  | { success: true; events: IntegrityEvent[] }
+  | { success: false; error: string; code: string; details: string };
+
+export type IntegritySessionLookupResult =
+  | { success: true }
+  | { success: false; error: string; code: string; status: number };
+
+interface DatabaseIntegrityEvent {
+  event_type: IntegrityEventType;
+  duration_ms: number | null;
+}
+
+interface DatabaseSessionStatus {
+  status: string;
+  expires_at: string;
+}
+
+// =====================================================
+// VALIDATION
+// =====================================================
+
+export function isIntegritySessionType(value: unknown): value is IntegritySessionType {
+  return typeof value === 'string' && Object.hasOwn(INTEGRITY_SESSION_TABLES, value);
+}
+
+export function isIntegrityEventType(value: unknown): value is IntegrityEventType {
+  return typeof value === 'string' && (INTEGRITY_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a batch of events from the client
+ *
+ * - 1 to MAX_EVENTS_PER_REQUEST events
+ * - known type, integer occurredAt not in the future (beyond skew)
+ * - durationMs, when present, a non-negative integer up to a day;
+ *   idle events must carry one of at least IDLE_THRESHOLD_MS
+ */
+export function validateIntegrityEvents(
+  value: unknown,
+  receivedAt: number
+): IntegrityEventsValidation {
+  if (!Array.isArray(value) || value.length === 0) {
+    return {
+      success: false,
+      error: 'Invalid events',
+      code: 'INVALID_EVENTS',
+      details: 'events must be a non-empty array'
+    };
+  }
+
+  if (value.length > MAX_EVENTS_PER_REQUEST) {
+    return {
+      success: false,
+      error: 'Too many events',
+      code: 'TOO_MANY_EVENTS',
+      details: `At most ${MAX_EVENTS_PER_REQUEST} events per request`
+    };
+  }
+
+  const events: IntegrityEvent[] = [];
+
+  for (const [index, raw] of value.entries()) {
+    const invalid = (details: string): IntegrityEventsValidation => ({
+      success: false,
+      error: 'Invalid event',
+      code: 'INVALID_EVENT',
+      details: `events[${index}]: ${details}`
+    });
+
+    if (typeof raw !== 'object' || raw === null) {
+      return invalid('must be an object');
+    }
+
+    const { type, occurredAt, durationMs } = raw as Record<string, unknown>;
+
+    if (!isIntegrityEventType(type)) {
+      return invalid(`type must be one of: ${INTEGRITY_EVENT_TYPES.join(', ')}`);
+    }
+
+    if (typeof occurredAt !== 'number' || !Number.isInteger(occurredAt) || occurredAt <= 0) {
+      return invalid('occurredAt must be an epoch timestamp in milliseconds');
+    }
+
+    if (occurredAt > receivedAt + MAX_CLOCK_SKEW_MS) {
+      return invalid('occurredAt is in the future');
+    }
+
+    if (durationMs !== undefined && (
+      typeof durationMs !== 'number' ||
+      !Number.isInteger(durationMs) ||
+      durationMs < 0 ||
+      durationMs > MAX_EVENT_DURATION_MS
+    )) {
+      return invalid('durationMs must be a non-negative integer (milliseconds, at most one day)');
+    }
+
+    if (type === 'idle' && (durationMs === undefined || durationMs < IDLE_THRESHOLD_MS)) {
+      return invalid(`idle events need durationMs of at least ${IDLE_THRESHOLD_MS}`);
+    }
+
+    events.push(durationMs === undefined ? { type, occurredAt } : { type, occurredAt, durationMs });
+  }
+
+  return { success: true, events };
+}
+
+// =====================================================
+// SCORING
+// =====================================================
+
+/**
+ * Summarize a session's events into an integrity score
+ */
+export function summarizeIntegrity(
+  events: Pick<IntegrityEvent, 'type' | 'durationMs'>[]
+): IntegritySummary {
+  const counts = Object.fromEntries(
+    INTEGRITY_EVENT_TYPES.map(type => [type, 0])
+  ) as Record<IntegrityEventType, number>;
+  let penalty = 0;
+  let hiddenMs = 0;
+  let idleMs = 0;
+
+  for (const event of events) {
+    counts[event.type]++;
+
+    if (event.type === 'idle') {
+      const minutes = Math.max(1, Math.ceil((event.durationMs ?? 0) / 60000));
+      penalty += INTEGRITY_PENALTIES.idle * minutes;
+      idleMs += event.durationMs ?? 0;
+      continue;
+    }
+
+    penalty += INTEGRITY_PENALTIES[event.type];
+    if (event.type === 'visibility_hidden') {
+      hiddenMs += event.durationMs ?? 0;
+    }
+  }
+
+  const score = Math.max(0, 100 - penalty);
+
+  return {
+    score,
+    flagged: score < INTEGRITY_FLAG_THRESHOLD,
+    eventCount: events.length,
+    counts,
+    hiddenSeconds: Math.round(hiddenMs / 1000),
+    idleSeconds: Math.round(idleMs / 1000)
+  };
+}
+
+// =====================================================
+// SESSIONS
+// =====================================================
+
+/**
+ * Events are accepted only for the user's own open session
+ *
+ * @param admin - Service-role client; ownership is enforced by the
+ *   user_id filter, and other users' sessions answer "not found"
+ */
+export async function requireOpenIntegritySession(
+  admin: SupabaseClient,
+  sessionType: IntegritySessionType,
+  sessionId: string,
+  userId: string
+): Promise<IntegritySessionLookupResult> {
+  if (!UUID_PATTERN.test(sessionId)) {
+    return { success: false, error: 'Session not found', code: 'SESSION_NOT_FOUND', status: 404 };
+  }
+
+  const table = INTEGRITY_SESSION_TABLES[sessionType];
+  const { data, error } = await admin
+    .from(table)
+    .select('status, expires_at')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table,
+      sessionId,
+      error: error.message
+    });
+
+    return { success: false, error: 'Failed to fetch session', code: 'DB_FETCH_FAILED', status: 500 };
+  }
+
+  if (!data) {
+    return { success: false, error: 'Session not found', code: 'SESSION_NOT_FOUND', status: 404 };
+  }
+
+  const session = data as DatabaseSessionStatus;
+  if (session.status !== 'in_progress' || new Date(session.expires_at).getTime() <= Date.now()) {
+    return { success: false, error: 'Session is not open', code: 'SESSION_CLOSED', status: 409 };
+  }
+
+  return { success: true };
+}
+
+// =====================================================
+// READ & WRITE
+// =====================================================
+
+/**
+ * Store a validated batch; refuses batches that would take the
+ * session past MAX_EVENTS_PER_SESSION
+ *
+ * @param admin - Service-role client (users cannot write events)
+ */
+export async function recordIntegrityEvents(
+  admin: SupabaseClient,
+  sessionType: IntegritySessionType,
+  sessionId: string,
+  userId: string,
+  events: IntegrityEvent[],
+  receivedAt: number
+): Promise<
+  | { success: true; recorded: number; total: number }
+  | { success: false; error: string; code: string; status: number }
+> {
+  const { count, error: countError } = await admin
+    .from('test_integrity_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('session_type', sessionType)
+    .eq('session_id', sessionId);
+
+  if (countError) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'test_integrity_events',
+      sessionId,
+      error: countError.message
+    });
+
+    return { success: false, error: 'Failed to record events', code: 'DB_FETCH_FAILED', status: 500 };
+  }
+
+  const existing = count ?? 0;
+  if (existing + events.length > MAX_EVENTS_PER_SESSION) {
+    return {
+      success: false,
+      error: 'Event limit reached for this session',
+      code: 'EVENT_LIMIT_REACHED',
+      status: 429
+    };
+  }
+
+  const receivedAtIso = new Date(receivedAt).toISOString();
+  const { error } = await admin
+    .from('test_integrity_events')
+    .insert(events.map(event => ({
+      user_id: userId,
+      session_type: sessionType,
+      session_id: sessionId,
+      event_type: event.type,
+      occurred_at: new Date(event.occurredAt).toISOString(),
+      duration_ms: event.durationMs ?? null,
+      received_at: receivedAtIso
+    })));
+
+  if (error) {
+    console.error('[DB_INSERT_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'test_integrity_events',
+      sessionId,
+      error: error.message
+    });
+
+    return { success: false, error: 'Failed to record events', code: 'DB_INSERT_FAILED', status: 500 };
+  }
+
+  return { success: true, recorded: events.length, total: existing + events.length };
+}
+
+/**
+ * Summary of everything recorded for a session (score 100 with no
+ * events). Null (never throws) when the events cannot be read, so
+ * scoring is never blocked by telemetry.
+ *
+ * @param supabase - Service-role client, or the session owner's
+ *   client (users can read their own events)
+ */
+export async function fetchIntegritySummary(
+  supabase: SupabaseClient,
+  sessionType: IntegritySessionType,
+  sessionId: string
+): Promise<IntegritySummary | null> {
+  const { data, error } = await supabase
+    .from('test_integrity_events')
+    .select('event_type, duration_ms')
+    .eq('session_type', sessionType)
+    .eq('session_id', sessionId)
+    .limit(MAX_EVENTS_PER_SESSION);
+
+  if (error) {
+    console.error('[DB_FETCH_ERROR]', {
+      timestamp: new Date().toISOString(),
+      table: 'test_integrity_events',
+      sessionId,
+      error: error.message
+    });
+    return null;
+  }
+
+  return summarizeIntegrity(
+    ((data || []) as DatabaseIntegrityEvent[]).map(row => ({
+      type: row.event_type,
+      durationMs: row.duration_ms ?? undefined
+    }))
+  );
+}